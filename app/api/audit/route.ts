@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditAction, listAuditEntries } from '@/lib/audit';
+
+const DEFAULT_LIMIT = 200;
+
+// Admin-only; middleware.ts enforces the role
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const limit = parseInt(params.get('limit') || '', 10);
+
+    const entries = await listAuditEntries({
+      actor: params.get('actor') || undefined,
+      keyword: params.get('keyword') || undefined,
+      action: (params.get('action') || undefined) as AuditAction | undefined,
+      limit: isNaN(limit) ? DEFAULT_LIMIT : limit
+    });
+
+    return NextResponse.json({ ok: true, entries });
+
+  } catch (error) {
+    console.error('Audit API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { google } from 'googleapis'
+import { getConfig } from '@/lib/config'
+import { clearOAuthStateCookie, createSessionId, setSessionCookie, verifyOAuthState } from '@/lib/session'
+import { saveSessionRecord } from '@/lib/sessionStore'
 
 export const dynamic = 'force-dynamic'
 
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID?.trim()
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET?.trim()
-
 export async function GET(request: NextRequest) {
   try {
+    const { clientId: GOOGLE_CLIENT_ID, clientSecret: GOOGLE_CLIENT_SECRET } = getConfig().google
+
     const { searchParams } = new URL(request.url)
     const code = searchParams.get('code')
     const error = searchParams.get('error')
 
+    // Query values and error messages stay in the server log; echoing them would let a link inject HTML
     if (error) {
+      console.error('OAuth callback error from Google:', error)
       return new Response(`
         <html>
           <body>
             <h1>Authentication Error</h1>
-            <p>Error: ${error}</p>
+            <p>Google sign-in was cancelled or denied. Please try again.</p>
             <p><a href="/debug">Go back to debug page</a></p>
           </body>
         </html>
@@ -62,6 +66,24 @@ export async function GET(request: NextRequest) {
       : 'https://wordpress-automation-tool.vercel.app'
     const redirectUri = `${baseUrl}/api/auth/callback`
 
+    // Only finish logins this browser started, so nobody can sign it in to their own account
+    if (!verifyOAuthState(request, searchParams.get('state'))) {
+      const response = new NextResponse(`
+        <html>
+          <body>
+            <h1>Authentication Error</h1>
+            <p>The sign-in link has expired or was not started from this browser. Please try again.</p>
+            <p><a href="/debug">Go back to debug page</a></p>
+          </body>
+        </html>
+      `, {
+        status: 403,
+        headers: { 'Content-Type': 'text/html' }
+      })
+      clearOAuthStateCookie(response)
+      return response
+    }
+
     const oauth2Client = new google.auth.OAuth2(
       GOOGLE_CLIENT_ID,
       GOOGLE_CLIENT_SECRET,
@@ -71,11 +93,22 @@ export async function GET(request: NextRequest) {
     // Exchange authorization code for tokens
     const { tokens } = await oauth2Client.getToken(code)
 
-    // Store the access token in a simple way for this demo
-    // In production, you'd want to store this securely with the user session
-    const accessToken = tokens.access_token
+    if (!tokens.access_token) {
+      throw new Error('No access token returned from Google')
+    }
 
-    return new Response(`
+    // Tokens stay on the server; the browser only gets an encrypted session cookie
+    const sessionId = createSessionId()
+    await saveSessionRecord(sessionId, {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token || undefined,
+      expiryDate: tokens.expiry_date || undefined,
+      timestamp: Date.now(),
+      createdAt: Date.now(),
+      method: 'oauth'
+    })
+
+    const response = new NextResponse(`
       <html>
         <head>
           <title>Authentication Success</title>
@@ -90,15 +123,9 @@ export async function GET(request: NextRequest) {
           <p class="message">You can now close this window and continue using the application.</p>
           
           <script>
-            // Store token in session storage for the main page to use
-            sessionStorage.setItem('google_access_token', '${accessToken}');
-            
-            // If this is a popup, notify the parent window and close
+            // If this is a popup, notify the parent window (same origin only) and close
             if (window.opener) {
-              window.opener.postMessage({ 
-                type: 'GOOGLE_AUTH_SUCCESS', 
-                accessToken: '${accessToken}' 
-              }, '*');
+              window.opener.postMessage({ type: 'GOOGLE_AUTH_SUCCESS' }, window.location.origin);
               window.close();
             } else {
               // If not a popup, redirect to main page after 2 seconds
@@ -113,13 +140,17 @@ export async function GET(request: NextRequest) {
       headers: { 'Content-Type': 'text/html' }
     })
 
+    setSessionCookie(response, sessionId)
+    clearOAuthStateCookie(response)
+    return response
+
   } catch (error) {
     console.error('OAuth callback error:', error)
     return new Response(`
       <html>
         <body>
           <h1>Authentication Error</h1>
-          <p>Failed to complete authentication: ${error instanceof Error ? error.message : 'Unknown error'}</p>
+          <p>Failed to complete authentication. Please try again; the server log has the details.</p>
           <p><a href="/debug">Go back to debug page</a></p>
         </body>
       </html>
@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { google } from 'googleapis'
+import { getConfig } from '@/lib/config'
+import { isWritebackEnabled } from '@/lib/googleSheetsWriteback'
+import { getCurrentUser } from '@/lib/auth'
+import { createOAuthState, setOAuthStateCookie } from '@/lib/session'
 
 export const dynamic = 'force-dynamic'
 
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID?.trim()
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET?.trim()
-
 export async function GET(request: NextRequest) {
   try {
+    const { clientId: GOOGLE_CLIENT_ID, clientSecret: GOOGLE_CLIENT_SECRET } = getConfig().google
+
     if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
       return NextResponse.json(
         { error: 'Google OAuth credentials not configured' },
@@ -29,21 +32,32 @@ export async function GET(request: NextRequest) {
       redirectUri
     )
 
-    // Get the default login email from environment
-    const DEFAULT_LOGIN_EMAIL = process.env.DEFAULT_LOGIN_EMAIL || 'allusers@topshelfpros.com'
+    // Suggest the signed-in team member's account, falling back to the shared login
+    const user = await getCurrentUser(request)
+    const DEFAULT_LOGIN_EMAIL = user?.email || getConfig().google.defaultLoginEmail
     
+    // The callback rejects any login whose state doesn't match this browser's cookie
+    const state = createOAuthState()
+
     // Generate the URL for Google OAuth consent
     const authUrl = oauth2Client.generateAuthUrl({
       access_type: 'offline',
       scope: [
-        'https://www.googleapis.com/auth/spreadsheets.readonly',
+        // Write access is only requested when sheet write-back is turned on
+        isWritebackEnabled()
+          ? 'https://www.googleapis.com/auth/spreadsheets'
+          : 'https://www.googleapis.com/auth/spreadsheets.readonly',
         'https://www.googleapis.com/auth/documents.readonly'
       ],
+      // Always ask for consent so Google returns a refresh token for the server-side session
+      prompt: 'consent',
       login_hint: DEFAULT_LOGIN_EMAIL, // Suggest the default email
-      state: 'debug' // You can use this to track where the auth came from
+      state
     })
 
-    return NextResponse.json({ authUrl })
+    const response = NextResponse.json({ authUrl })
+    setOAuthStateCookie(response, state)
+    return response
 
   } catch (error) {
     console.error('OAuth setup error:', error)
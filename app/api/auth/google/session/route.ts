@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { endSession } from '@/lib/googleClient'
+import { clearSessionCookie, getSessionId } from '@/lib/session'
+import { getSessionRecord } from '@/lib/sessionStore'
+
+export const dynamic = 'force-dynamic'
+
+// Reports whether the browser has a Google session, without exposing any tokens
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = getSessionId(request)
+    const record = sessionId ? await getSessionRecord(sessionId) : null
+
+    return NextResponse.json({
+      authenticated: !!record,
+      method: record?.method,
+      canRefresh: !!record?.refreshToken
+    })
+
+  } catch (error) {
+    console.error('Session status error:', error)
+    return NextResponse.json(
+      { error: 'Failed to read session' },
+      { status: 500 }
+    )
+  }
+}
+
+// Signs out: forgets the stored tokens and clears the cookie
+export async function DELETE(request: NextRequest) {
+  try {
+    await endSession(request)
+    const response = NextResponse.json({ ok: true })
+    clearSessionCookie(response)
+    return response
+
+  } catch (error) {
+    console.error('Sign out error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  APP_AUTH_COOKIE,
+  APP_AUTH_MAX_AGE_SECONDS,
+  checkAppPassword,
+  createAppSessionToken,
+  isPasswordProtected
+} from '@/lib/appAuth'
+
+export const dynamic = 'force-dynamic'
+
+// Exchanges APP_PASSWORD for a signed httpOnly login cookie checked by middleware.ts
+export async function POST(request: NextRequest) {
+  try {
+    if (!isPasswordProtected()) {
+      return NextResponse.json({ ok: true, protected: false })
+    }
+
+    const { password } = await request.json()
+
+    if (!checkAppPassword(password)) {
+      return NextResponse.json(
+        { error: 'Incorrect password', code: 'unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const response = NextResponse.json({ ok: true, protected: true })
+    response.cookies.set(APP_AUTH_COOKIE, await createAppSessionToken(), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: APP_AUTH_MAX_AGE_SECONDS
+    })
+    return response
+
+  } catch (error) {
+    console.error('Login error:', error)
+    return NextResponse.json(
+      { error: 'Failed to log in' },
+      { status: 500 }
+    )
+  }
+}
+
+// Logs out of the app; the Google session is left alone
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true })
+  response.cookies.set(APP_AUTH_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  })
+  return response
+}
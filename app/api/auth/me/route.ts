@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser, hasPermission, isAccountsEnabled } from '@/lib/auth'
+import { isPasswordProtected } from '@/lib/appAuth'
+
+export const dynamic = 'force-dynamic'
+
+// Tells the UI how sign-in works and what the current user may do
+export async function GET(request: NextRequest) {
+  try {
+    const accounts = isAccountsEnabled()
+    const user = accounts ? await getCurrentUser(request) : null
+
+    return NextResponse.json({
+      mode: accounts ? 'accounts' : isPasswordProtected() ? 'password' : 'open',
+      user,
+      permissions: user
+        ? {
+            generate: hasPermission(user.role, 'generate'),
+            publish: hasPermission(user.role, 'publish'),
+            admin: hasPermission(user.role, 'admin')
+          }
+        : { generate: !accounts, publish: !accounts, admin: !accounts }
+    })
+
+  } catch (error) {
+    console.error('Current user error:', error)
+    return NextResponse.json(
+      { error: 'Failed to read current user' },
+      { status: 500 }
+    )
+  }
+}
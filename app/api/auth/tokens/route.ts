@@ -1,22 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createSessionId, getSessionId, setSessionCookie } from '@/lib/session'
+import { getSessionRecord, saveSessionRecord } from '@/lib/sessionStore'
+import { getConfig } from '@/lib/config'
 
 export async function GET(request: NextRequest) {
   try {
-    const preAuthAccessToken = process.env.GOOGLE_ACCESS_TOKEN
-    const preAuthRefreshToken = process.env.GOOGLE_REFRESH_TOKEN
+    const { accessToken: preAuthAccessToken, refreshToken: preAuthRefreshToken } = getConfig().google
 
     if (preAuthAccessToken) {
       console.log('Using pre-authenticated tokens from environment variables')
-      
-      return NextResponse.json({
-        access_token: preAuthAccessToken,
-        refresh_token: preAuthRefreshToken,
+
+      const response = NextResponse.json({
+        authenticated: true,
         method: 'pre-authenticated',
         message: 'Using tokens from environment variables (development mode)'
       })
+
+      // Reuse the caller's session if it already holds tokens; otherwise start one from the env tokens
+      const existing = getSessionId(request)
+      if (!existing || !(await getSessionRecord(existing))) {
+        const sessionId = createSessionId()
+        await saveSessionRecord(sessionId, {
+          accessToken: preAuthAccessToken,
+          refreshToken: preAuthRefreshToken || undefined,
+          timestamp: Date.now(),
+          createdAt: Date.now(),
+          method: 'pre-authenticated'
+        })
+        setSessionCookie(response, sessionId)
+      }
+
+      return response
     }
 
     return NextResponse.json({
+      authenticated: false,
       method: 'oauth-required',
       message: 'No pre-authenticated tokens found. OAuth flow required.',
       authUrl: '/api/auth/google'
@@ -29,4 +47,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelBatchJob, getJob, pauseBatchJob, resumeBatchJob, summarizeJob } from '@/lib/batch';
+import { getGoogleAccess } from '@/lib/googleClient';
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const job = await getJob(params.id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Batch job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, job, summary: summarizeJob(job) });
+
+  } catch (error) {
+    console.error('Batch API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read batch job' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { action, retryFailed } = await req.json();
+
+    let job;
+    if (action === 'pause') {
+      job = await pauseBatchJob(params.id);
+    } else if (action === 'cancel') {
+      job = await cancelBatchJob(params.id);
+    } else if (action === 'resume') {
+      const access = await getGoogleAccess(req);
+      if (!access.ok) {
+        return NextResponse.json({ error: access.error }, { status: access.status });
+      }
+      job = await resumeBatchJob(params.id, access.sessionId, retryFailed === true);
+    } else {
+      return NextResponse.json(
+        { error: 'Invalid action. Must be "pause", "resume" or "cancel"' },
+        { status: 400 }
+      );
+    }
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Batch job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, job, summary: summarizeJob(job) });
+
+  } catch (error) {
+    console.error('Batch API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while updating batch job' },
+      { status: 500 }
+    );
+  }
+}
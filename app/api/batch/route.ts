@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBatchJob, listJobs } from '@/lib/batch';
+import { getGoogleAccess } from '@/lib/googleClient';
+import { getGeneratedKeywords } from '@/lib/history';
+import { getKeywordRowsFromSheets } from '@/lib/googleSheets';
+import { auditRequest } from '@/lib/audit';
+import { getCurrentUser } from '@/lib/auth';
+
+export async function GET() {
+  try {
+    const jobs = await listJobs();
+    return NextResponse.json({ ok: true, jobs });
+  } catch (error) {
+    console.error('Batch API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list batch jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { rowNumbers, pendingOnly, concurrency } = await req.json();
+
+    const access = await getGoogleAccess(req);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    if (!Array.isArray(rowNumbers) && !pendingOnly) {
+      return NextResponse.json(
+        { error: 'Select rows with rowNumbers or set pendingOnly to run every row without output' },
+        { status: 400 }
+      );
+    }
+
+    const { rows, error } = await getKeywordRowsFromSheets(access.accessToken);
+    if (error) {
+      return NextResponse.json({ error }, { status: 502 });
+    }
+
+    let selected = rows;
+    if (Array.isArray(rowNumbers)) {
+      const wanted = new Set(rowNumbers.map(Number));
+      selected = selected.filter(row => wanted.has(row.rowNumber));
+    }
+    if (pendingOnly) {
+      const generated = await getGeneratedKeywords();
+      selected = selected.filter(row => !generated.has(row.keyword.toLowerCase()));
+    }
+
+    if (selected.length === 0) {
+      return NextResponse.json(
+        { error: 'No keyword rows matched the selection' },
+        { status: 400 }
+      );
+    }
+
+    // Jobs keep the session id so each keyword gets a freshly refreshed token
+    const user = await getCurrentUser(req);
+    const job = await createBatchJob(selected, access.sessionId, concurrency, user?.email);
+    await auditRequest(req, 'batch', { detail: `job ${job.id} (${selected.length} keywords)` });
+
+    return NextResponse.json({ ok: true, job });
+
+  } catch (error) {
+    console.error('Batch API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while starting batch job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGoogleAccess } from '@/lib/googleClient';
+import { getGeneratedKeywords } from '@/lib/history';
+import { getKeywordRowsFromSheets } from '@/lib/googleSheets';
+
+export async function POST(req: NextRequest) {
+  try {
+    const access = await getGoogleAccess(req);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { rows, error } = await getKeywordRowsFromSheets(access.accessToken);
+    if (error) {
+      return NextResponse.json({ error }, { status: 502 });
+    }
+
+    // A keyword "has output" once any field for it has been generated successfully
+    const generated = await getGeneratedKeywords();
+
+    return NextResponse.json({
+      ok: true,
+      rows: rows.map(row => ({
+        ...row,
+        hasOutput: generated.has(row.keyword.toLowerCase())
+      }))
+    });
+
+  } catch (error) {
+    console.error('Batch rows API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error while reading keyword rows' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { detectCategoryFromDoc } from '@/lib/googleDoc';
-import { validateApiKey, getApiKeys } from '@/lib/apiKeys';
+import { getConfig } from '@/lib/config';
+import { getGoogleAccess } from '@/lib/googleClient';
+import { auditRequest } from '@/lib/audit';
 
 export async function POST(req: NextRequest) {
   try {
-    const { keyword, accessToken } = await req.json();
+    const { keyword } = await req.json();
     
     if (!keyword || typeof keyword !== 'string' || keyword.trim().length === 0) {
       return NextResponse.json(
@@ -13,15 +15,18 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    if (!validateApiKey('google', 'docUrl')) {
+    const { docUrl, docId } = getConfig().google;
+    if (!docUrl && !docId) {
       return NextResponse.json(
         { error: 'Google Doc URL not configured' },
         { status: 500 }
       );
     }
     
-    const apiKeys = getApiKeys();
-    const result = await detectCategoryFromDoc(apiKeys.google.docUrl, keyword, accessToken);
+    // Without a session the doc is read through its public export
+    const access = await getGoogleAccess(req);
+    const result = await detectCategoryFromDoc(docUrl || '', keyword, access.ok ? access.accessToken : undefined);
+    await auditRequest(req, 'classify', { keyword, detail: result.category || undefined, ok: !!result.category });
     
     return NextResponse.json(result);
   } catch (error) {
@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCompetitorUrlsFromSheets } from '@/lib/googleSheets';
+import { getGoogleAccess } from '@/lib/googleClient';
 
 export async function POST(req: NextRequest) {
   console.log('Competitor API called!');
   
   try {
-    const { keyword, accessToken } = await req.json();
+    const { keyword } = await req.json();
     console.log('Keyword received:', keyword);
-    console.log('Access token provided:', !!accessToken);
+    
+    const access = await getGoogleAccess(req);
+    const accessToken = access.ok ? access.accessToken : undefined;
+    console.log('Google session available:', !!accessToken);
     
     if (!keyword || typeof keyword !== 'string' || keyword.trim().length === 0) {
       return NextResponse.json(
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { detectCategoryFromDoc } from '@/lib/googleDoc'
 import { debugGoogleSheetsAPI } from '@/lib/googleSheets'
+import { getGoogleAccess } from '@/lib/googleClient'
 import { getKeyStatus, validateStartupKeys } from '@/lib/startupValidation'
+import { getConfig, EnvVarStatus } from '@/lib/config'
 
 interface DebugResult {
   apiKeys: {
-    status: Record<string, { configured: boolean; type: 'required' | 'optional' }>
+    status: Record<string, EnvVarStatus>
     validation: { isValid: boolean; errors: string[]; warnings: string[] }
   }
   googleDoc: {
@@ -31,7 +33,10 @@ interface DebugResult {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { keyword, accessToken } = body
+    const { keyword } = body
+
+    const access = await getGoogleAccess(request)
+    const accessToken = access.ok ? access.accessToken : undefined
 
     if (!keyword || typeof keyword !== 'string') {
       return NextResponse.json(
@@ -49,7 +54,7 @@ export async function POST(request: NextRequest) {
     // Debug Google Doc classification
     let googleDocResult
     try {
-      const docUrl = process.env.GOOGLE_DOC_URL || 'https://docs.google.com/document/d/e/2PACX-1vQ1AgoSsHbr-Q5KrZ9I76WULb4vXJYkIR7ztkSdnF7pw_MG3Ji0Lss9qDthDP6QZ_bx1aQQiaFEsvCU/pub'
+      const docUrl = getConfig().google.docUrl || 'https://docs.google.com/document/d/e/2PACX-1vQ1AgoSsHbr-Q5KrZ9I76WULb4vXJYkIR7ztkSdnF7pw_MG3Ji0Lss9qDthDP6QZ_bx1aQQiaFEsvCU/pub'
       const classification = await detectCategoryFromDoc(docUrl, keyword, accessToken)
       
       googleDocResult = {
@@ -61,7 +66,7 @@ export async function POST(request: NextRequest) {
       }
     } catch (error) {
       googleDocResult = {
-        url: process.env.GOOGLE_DOC_URL || 'Not configured',
+        url: getConfig().google.docUrl || 'Not configured',
         accessMethod: 'Google Docs API v1 (failed)',
         classification: 'error',
         reason: 'Failed to fetch or parse document',
@@ -1,59 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getFieldsForFlow } from '@/lib/fields';
+import { generatePage, validateGenerationRequest } from '@/lib/generation';
+import { getGoogleAccess } from '@/lib/googleClient';
+import { auditRequest } from '@/lib/audit';
 
 export async function POST(req: NextRequest) {
   try {
-    const { keyword, flow, competitorUrls, accessToken } = await req.json();
+    const { keyword, flow, competitorUrls, subtopics } = await req.json();
     
-    if (!keyword || typeof keyword !== 'string' || keyword.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'Keyword is required and must be a non-empty string' },
-        { status: 400 }
-      );
+    const invalid = validateGenerationRequest(keyword, flow);
+    if (invalid) {
+      return NextResponse.json({ error: invalid.error }, { status: invalid.status });
     }
     
-    if (!flow || (flow !== 'with subtopics' && flow !== 'no subtopics')) {
-      return NextResponse.json(
-        { error: 'Invalid flow. Must be "with subtopics" or "no subtopics"' },
-        { status: 400 }
-      );
+    const access = await getGoogleAccess(req);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
     
-    // Get the appropriate field list for the flow
-    const fieldIds = flow === 'with subtopics' 
-      ? ['wtitle', 'wentro', 'wpic1', 'wpic2', 'wpic3', 'wpic4', 'sub', 'wcost', 'wwhy', 'wfaq']
-      : ['title', 'entro', 'pic1', 'pic2', 'pic3', 'pic4', 'cost', 'why', 'faq'];
-    
-    const results: Record<string, string> = {};
-    const errors: Record<string, string> = {};
+    // Generate every field in-process using the same service as /api/generate/[box]
+    const page = await generatePage({
+      keyword: keyword.trim(),
+      flow,
+      accessToken: access.accessToken,
+      competitorUrls,
+      subtopics
+    });
     
-    // Generate content for each field by calling individual field endpoints
-    for (const fieldId of fieldIds) {
-      try {
-        const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/generate/${fieldId}`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ keyword, flow, competitorUrls, accessToken })
-        });
-        
-        const result = await response.json();
-        
-        if (response.ok) {
-          results[fieldId] = result.output;
-        } else {
-          errors[fieldId] = result.error || 'Generation failed';
-        }
-      } catch (error) {
-        errors[fieldId] = error instanceof Error ? error.message : 'Unknown error';
-      }
-    }
+    const fieldCount = getFieldsForFlow(flow).length;
+    const successCount = Object.keys(page.fields).length;
+    await auditRequest(req, 'generate', {
+      keyword,
+      detail: `all fields (${successCount}/${fieldCount})`,
+      ok: successCount > 0
+    });
     
     return NextResponse.json({ 
       ok: true,
-      results,
-      errors: Object.keys(errors).length > 0 ? errors : undefined,
+      page,
+      errors: Object.keys(page.errors).length > 0 ? page.errors : undefined,
       flow,
-      fieldCount: fieldIds.length,
-      successCount: Object.keys(results).length
+      fieldCount,
+      successCount
     });
     
   } catch (error) {
@@ -63,4 +51,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
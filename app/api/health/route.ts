@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHealthReport } from '@/lib/health';
+
+export const dynamic = 'force-dynamic';
+
+// Per-feature readiness for uptime monitors; ?probe=0 skips the connectivity probes
+export async function GET(req: NextRequest) {
+  try {
+    const probe = req.nextUrl.searchParams.get('probe') !== '0';
+    const report = await getHealthReport({ probe });
+
+    return NextResponse.json(report, {
+      status: report.status === 'down' ? 503 : 200,
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Health check error:', error);
+    return NextResponse.json(
+      { status: 'down', error: 'Health check failed' },
+      { status: 503 }
+    );
+  }
+}
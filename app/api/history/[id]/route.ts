@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryStore } from '@/lib/history';
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const record = await getHistoryStore().get(params.id);
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'History record not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, record });
+
+  } catch (error) {
+    console.error('History API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read generation history' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const removed = await getHistoryStore().remove(params.id);
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'History record not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+
+  } catch (error) {
+    console.error('History API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete history record' },
+      { status: 500 }
+    );
+  }
+}
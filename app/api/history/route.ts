@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryStore } from '@/lib/history';
+
+const DEFAULT_LIMIT = 100;
+
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const limit = parseInt(params.get('limit') || '', 10);
+
+    const records = await getHistoryStore().list({
+      keyword: params.get('keyword') || undefined,
+      fieldId: params.get('fieldId') || undefined,
+      runId: params.get('runId') || undefined,
+      limit: isNaN(limit) ? DEFAULT_LIMIT : limit
+    });
+
+    return NextResponse.json({ ok: true, records });
+
+  } catch (error) {
+    console.error('History API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read generation history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getImageBatchProgress, retryImageBatch, toImageBatchResponse } from '@/lib/images/batch'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const progress = await getImageBatchProgress(params.id)
+
+    if (!progress) {
+      return NextResponse.json({ error: 'Image batch not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, ...(await toImageBatchResponse(progress)) })
+
+  } catch (error) {
+    console.error('Image batch error:', error)
+    return NextResponse.json({
+      error: 'Failed to read image batch',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// { action: "retry", jobIds?: string[] } queues the batch's failed images again
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { action, jobIds } = await request.json()
+
+    if (action !== 'retry') {
+      return NextResponse.json({ error: 'Invalid action. Must be "retry"' }, { status: 400 })
+    }
+
+    const progress = await retryImageBatch(params.id, Array.isArray(jobIds) ? jobIds : undefined)
+
+    if (!progress) {
+      return NextResponse.json({ error: 'Image batch not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, ...(await toImageBatchResponse(progress)) })
+
+  } catch (error) {
+    console.error('Image batch error:', error)
+    return NextResponse.json({
+      error: 'Failed to retry image batch',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auditRequest } from '@/lib/audit'
+import { getConfig } from '@/lib/config'
+import { createImageBatch, toImageBatchResponse } from '@/lib/images/batch'
+import { ImageJobInput } from '@/lib/images/jobs'
+import { formText, getUploadContext, prepareImageJob, readUploadOptions } from '@/lib/images/upload'
+
+// "Process all": every image becomes a job, IMAGE_BATCH_CONCURRENCY of them processed at a time
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const files = formData.getAll('images').filter((value): value is File => typeof value !== 'string')
+    const options = readUploadOptions(formData)
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No image files provided' }, { status: 400 })
+    }
+
+    // Only the AI enhancement needs Freepik; framing and metadata run locally
+    if (options.enhance && !getConfig().freepik.apiKey) {
+      return NextResponse.json({ error: 'Freepik API key not configured' }, { status: 500 })
+    }
+
+    const { context, error } = await getUploadContext(request, options)
+    if (!context) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    // Numbered on from the keyword's images already processed, each matched to a picture title in order
+    let pictureTitles: string[] = []
+    try {
+      const parsed = JSON.parse(formText(formData, 'pictureTitles') || '[]')
+      pictureTitles = Array.isArray(parsed) ? parsed.filter(title => typeof title === 'string' && title.trim()) : []
+    } catch {
+      return NextResponse.json({ error: 'pictureTitles must be a JSON array of strings' }, { status: 400 })
+    }
+    const startSequence = Math.max(1, Math.floor(Number(formText(formData, 'startSequence')) || 1))
+
+    // Everything is converted before any job is created, so one unreadable file rejects the batch
+    const inputs: ImageJobInput[] = []
+    for (let i = 0; i < files.length; i++) {
+      const sequence = startSequence + i
+      const prepared = await prepareImageJob(files[i], context, {
+        sequence,
+        pictureTitle: pictureTitles.length > 0 ? pictureTitles[(sequence - 1) % pictureTitles.length] : undefined
+      })
+      if (!prepared.input) {
+        return NextResponse.json({ error: prepared.error, issues: prepared.issues }, { status: 400 })
+      }
+      inputs.push(prepared.input)
+    }
+
+    const progress = await createImageBatch(inputs, context.createdBy)
+
+    await auditRequest(request, 'process_images', {
+      keyword: options.keyword,
+      detail: `Batch of ${files.length} images`
+    })
+
+    return NextResponse.json({ success: true, ...(await toImageBatchResponse(progress)) }, { status: 202 })
+
+  } catch (error) {
+    console.error('Image batch error:', error)
+    return NextResponse.json({
+      error: 'Failed to start image batch',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
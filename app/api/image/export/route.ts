@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadImageBatch } from '@/lib/images/batch'
+import { buildImageExport } from '@/lib/images/export'
+import { ImageJob, loadImageJob } from '@/lib/images/jobs'
+import { slugify } from '@/lib/images/filenames'
+
+export const dynamic = 'force-dynamic'
+
+// ZIP of finished images plus manifest.csv/json: ?jobs=<id>,<id> and/or ?batch=<id>; &variants=1 adds every variant
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const jobIds = (params.get('jobs') || '').split(',').map(id => id.trim()).filter(Boolean)
+    const batchId = params.get('batch')
+
+    if (batchId) {
+      const batch = await loadImageBatch(batchId)
+      if (!batch) {
+        return NextResponse.json({ error: 'Image batch not found' }, { status: 404 })
+      }
+      jobIds.push(...batch.jobIds.filter(id => jobIds.indexOf(id) === -1))
+    }
+
+    if (jobIds.length === 0) {
+      return NextResponse.json({ error: 'No image jobs given. Pass ?jobs=<id>,<id> or ?batch=<id>' }, { status: 400 })
+    }
+
+    const jobs: ImageJob[] = []
+    for (const id of jobIds) {
+      const job = await loadImageJob(id)
+      if (!job) {
+        return NextResponse.json({ error: `Image job ${id} not found` }, { status: 404 })
+      }
+      jobs.push(job)
+    }
+
+    const { zip, manifest, skipped } = await buildImageExport(jobs, { variants: params.get('variants') === '1' })
+    if (manifest.length === 0) {
+      return NextResponse.json({ error: 'None of the images have finished processing', skipped }, { status: 409 })
+    }
+
+    const name = slugify(jobs.find(job => job.keyword)?.keyword || '') || 'images'
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': String(zip.length),
+        'Content-Disposition': `attachment; filename="${name}-images.zip"`,
+        // Unfinished images are left out; the count lets the UI say so
+        'X-Skipped-Images': String(skipped.length)
+      }
+    })
+
+  } catch (error) {
+    console.error('Image export error:', error)
+    return NextResponse.json({
+      error: 'Failed to export images',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteFrameTemplate, loadFrameImage } from '@/lib/images/frames'
+
+// The frame layer of a template, for previews
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const data = /^[a-zA-Z0-9-]+$/.test(params.id) ? await loadFrameImage(params.id) : null
+    if (!data) {
+      return NextResponse.json({ error: 'Frame template not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Length': String(data.length),
+        'Cache-Control': 'private, max-age=3600'
+      }
+    })
+
+  } catch (error) {
+    console.error('Frame template error:', error)
+    return NextResponse.json({
+      error: 'Failed to read frame template',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Removes a template; jobs already framed with it keep their output
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const deleted = /^[a-zA-Z0-9-]+$/.test(params.id) && await deleteFrameTemplate(params.id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Frame template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Frame template error:', error)
+    return NextResponse.json({
+      error: 'Failed to delete frame template',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth/user'
+import { createFrameTemplate, listFrameTemplates } from '@/lib/images/frames'
+
+export const dynamic = 'force-dynamic'
+
+// Frame templates for the Pictures tab's frame picker
+export async function GET() {
+  try {
+    return NextResponse.json({ frames: await listFrameTemplates() })
+
+  } catch (error) {
+    console.error('Frame templates error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load frame templates' },
+      { status: 500 }
+    )
+  }
+}
+
+// Uploads a template: a PNG frame with a transparent window and an optional shadow PNG of the same size
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const frame = formData.get('frame')
+    const shadow = formData.get('shadow')
+    const name = formData.get('name')
+
+    if (!frame || typeof frame === 'string') {
+      return NextResponse.json({ error: 'No frame image provided' }, { status: 400 })
+    }
+
+    let createdBy: string | undefined
+    try {
+      createdBy = (await getCurrentUser(request))?.email
+    } catch (error) {
+      console.warn('Frame upload: Failed to resolve user:', error)
+    }
+
+    const { template, error } = await createFrameTemplate({
+      name: typeof name === 'string' && name.trim() ? name : frame.name.replace(/\.[^.]+$/, ''),
+      frame: Buffer.from(await frame.arrayBuffer()),
+      shadow: shadow && typeof shadow !== 'string' && shadow.size > 0 ? Buffer.from(await shadow.arrayBuffer()) : undefined,
+      createdBy
+    })
+    if (!template) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, frame: template }, { status: 201 })
+
+  } catch (error) {
+    console.error('Frame upload error:', error)
+    return NextResponse.json({
+      error: 'Failed to save frame template',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getImageBatchProgress } from '@/lib/images/batch'
+import { loadImageJob, refreshImageJob, retryImageJob, toImageJobResponse } from '@/lib/images/jobs'
+
+export const dynamic = 'force-dynamic'
+
+// Polled by the Pictures tab; checks the Freepik task when the webhook hasn't arrived yet
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const job = await refreshImageJob(params.id)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Image job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, ...(await toImageJobResponse(job)) })
+
+  } catch (error) {
+    console.error('Image job error:', error)
+    return NextResponse.json({
+      error: 'Failed to read image job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// { action: "retry" } submits a failed image again; images of a batch go back in its queue
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { action } = await request.json()
+
+    if (action !== 'retry') {
+      return NextResponse.json({ error: 'Invalid action. Must be "retry"' }, { status: 400 })
+    }
+
+    if (!(await loadImageJob(params.id))) {
+      return NextResponse.json({ error: 'Image job not found' }, { status: 404 })
+    }
+
+    const { job, error } = await retryImageJob(params.id)
+    if (!job) {
+      return NextResponse.json({ error }, { status: 409 })
+    }
+
+    // The batch runner may have stopped once every image had finished
+    if (job.batchId) {
+      await getImageBatchProgress(job.batchId)
+    }
+
+    return NextResponse.json({ success: true, ...(await toImageJobResponse(job)) })
+
+  } catch (error) {
+    console.error('Image job error:', error)
+    return NextResponse.json({
+      error: 'Failed to retry image job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
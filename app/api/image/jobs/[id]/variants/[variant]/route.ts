@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadImageJob, loadImageJobVariant } from '@/lib/images/jobs'
+import { variantMimeType, VariantFormat } from '@/lib/images/variants'
+
+// One responsive variant of a finished job, e.g. /api/image/jobs/<id>/variants/800w.avif
+export async function GET(request: NextRequest, { params }: { params: { id: string; variant: string } }) {
+  try {
+    const match = params.variant.match(/^(\d+)w\.(webp|avif)$/)
+    const job = match ? await loadImageJob(params.id) : null
+    const info = match && job?.result?.variants?.find(variant =>
+      variant.width === Number(match[1]) && variant.format === match[2])
+    const data = info ? await loadImageJobVariant(params.id, info.width, info.format) : null
+
+    if (!info || !data) {
+      return NextResponse.json({ error: 'Image variant not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': variantMimeType(info.format as VariantFormat),
+        'Content-Length': String(data.length),
+        'Content-Disposition': `attachment; filename="${info.filename}"`,
+        'Cache-Control': 'private, max-age=3600'
+      }
+    })
+
+  } catch (error) {
+    console.error('Image variant error:', error)
+    return NextResponse.json({
+      error: 'Failed to read image variant',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getConfig } from '@/lib/config'
+import { getGoogleAccess } from '@/lib/googleClient'
+import { loadLocationProfiles } from '@/lib/images/geotag'
+
+export const dynamic = 'force-dynamic'
+
+// Geotag profiles for the Pictures tab's location picker
+export async function GET(request: NextRequest) {
+  try {
+    const access = await getGoogleAccess(request)
+    const { profiles, error } = await loadLocationProfiles(access.ok ? access.accessToken : undefined)
+    const { defaultProfile, mode, jitterMeters } = getConfig().geotag
+
+    return NextResponse.json({
+      profiles,
+      defaultProfile,
+      mode,
+      jitterMeters,
+      error
+    })
+
+  } catch (error) {
+    console.error('Geotag profiles error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load geotag profiles' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getConfig } from '@/lib/config'
+import { getGoogleAccess } from '@/lib/googleClient'
+import { DEFAULT_IMAGE_PRESET, loadImagePresets } from '@/lib/images/presets'
+
+export const dynamic = 'force-dynamic'
+
+// Image instruction presets for the Pictures tab, with the Prompts tab's overrides applied
+export async function GET(request: NextRequest) {
+  try {
+    const access = await getGoogleAccess(request)
+    const { presets, error } = await loadImagePresets(access.ok ? access.accessToken : undefined)
+    const { imageModel, aspectRatio } = getConfig().freepik
+
+    return NextResponse.json({
+      presets,
+      defaultPreset: DEFAULT_IMAGE_PRESET,
+      model: imageModel,
+      aspectRatio,
+      error
+    })
+
+  } catch (error) {
+    console.error('Image presets error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load image presets' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { slugify } from '@/lib/images/filenames';
+import { assemblePage, buildPageExport, parsePageDocument } from '@/lib/page';
+
+// ZIP of an assembled page: page.json with the text and picture assignments, plus the images
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = parsePageDocument(body?.page);
+
+    if (!parsed.page) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const assembled = await assemblePage(parsed.page);
+    if (!assembled.page) {
+      return NextResponse.json(
+        { error: assembled.error },
+        { status: 409 }
+      );
+    }
+
+    const zip = await buildPageExport(assembled.page, { variants: body?.variants === true });
+    const name = slugify(parsed.page.keyword || parsed.page.fields.title || '') || 'page';
+
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': String(zip.length),
+        'Content-Disposition': `attachment; filename="${name}-page.zip"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Page export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export page' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { google } from 'googleapis';
-
-const SHEET_ID = process.env.GOOGLE_SHEET_ID || '1iFmNPkM4OuxZDpP43Z45-Fs-imENfxz-t0EaNfPbFsc';
+import { getSheetName } from '@/lib/fields';
+import { createGoogleAuth, getGoogleAccess } from '@/lib/googleClient';
+import { getConfig } from '@/lib/config';
 
 export async function POST(req: NextRequest) {
   try {
-    const { fieldId, accessToken } = await req.json();
+    const { fieldId } = await req.json();
     
     if (!fieldId) {
       return NextResponse.json(
@@ -14,25 +15,19 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    if (!accessToken) {
-      return NextResponse.json(
-        { error: 'Access token is required' },
-        { status: 401 }
-      );
+    const access = await getGoogleAccess(req);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
 
-    // Create OAuth2 client with access token
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({
-      access_token: accessToken
-    });
+    const oauth2Client = createGoogleAuth(access.accessToken);
 
     // Initialize Google Sheets API with OAuth client
     const sheets = google.sheets({ version: 'v4', auth: oauth2Client });
 
     // Read the Prompts tab
     const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: SHEET_ID,
+      spreadsheetId: getConfig().google.sheetId,
       range: 'Prompts!B:D', // Read columns B (Field), C (Prompt), and D (Example)
     });
 
@@ -52,7 +47,7 @@ export async function POST(req: NextRequest) {
       const cellFieldId = row[0]?.toLowerCase().trim();
       
       // Map the field names to match what's in the spreadsheet
-      const mappedFieldId = mapFieldId(fieldId);
+      const mappedFieldId = getSheetName(fieldId);
       
       if (cellFieldId === mappedFieldId.toLowerCase()) {
         const prompt = row[1] || '';
@@ -81,30 +76,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-// Map our internal field IDs to what's in the spreadsheet
-function mapFieldId(fieldId: string): string {
-  const mappings: Record<string, string> = {
-    'wtitle': 'Title (with subtopics)',
-    'wentro': 'Introduction (with subtopics)',
-    'wpic1': 'Picture 1 (with subtopics)',
-    'wpic2': 'Picture 2 (with subtopics)',
-    'wpic3': 'Picture 3 (with subtopics)',
-    'wpic4': 'Picture 4 (with subtopics)',
-    'sub': 'Subtopics',
-    'wcost': 'Cost (with subtopics)',
-    'wwhy': 'Why (with subtopics)',
-    'wfaq': 'FAQ (with subtopics)',
-    'title': 'Title (no subtopics)',
-    'entro': 'Introduction (no subtopics)',
-    'pic1': 'Picture 1 (no subtopics)',
-    'pic2': 'Picture 2 (no subtopics)',
-    'pic3': 'Picture 3 (no subtopics)',
-    'pic4': 'Picture 4 (no subtopics)',
-    'cost': 'Cost (no subtopics)',
-    'why': 'Why (no subtopics)',
-    'faq': 'FAQ (no subtopics)'
-  };
-  
-  return mappings[fieldId] || fieldId;
-}
\ No newline at end of file
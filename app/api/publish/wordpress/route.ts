@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWordPressConfig, publishDraft, DraftImage } from '@/lib/wordpress';
+import { auditRequest } from '@/lib/audit';
+import { assemblePage, parsePageDocument } from '@/lib/page';
+
+// Publishes an assembled page: the text fields plus the image job assigned to each picture field
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = parsePageDocument(body?.page);
+
+    if (!parsed.page) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { fields, keyword } = parsed.page;
+    if (!fields.title || !fields.title.trim()) {
+      return NextResponse.json(
+        { error: 'Generate a title before publishing' },
+        { status: 400 }
+      );
+    }
+
+    const config = getWordPressConfig();
+    if (!config) {
+      return NextResponse.json(
+        { error: 'WordPress not configured. Set WORDPRESS_URL, WORDPRESS_USERNAME and WORDPRESS_APP_PASSWORD.' },
+        { status: 500 }
+      );
+    }
+
+    const assembled = await assemblePage(parsed.page);
+    if (!assembled.page) {
+      return NextResponse.json(
+        { error: assembled.error },
+        { status: 409 }
+      );
+    }
+
+    // Each picture's title becomes the image caption and its summary the media description
+    const draftImages: DraftImage[] = [];
+    for (const picture of assembled.page.pictures) {
+      if (!picture.image) continue;
+      draftImages.push({
+        data: picture.image.data,
+        mimeType: picture.image.mimeType,
+        filename: picture.image.filename,
+        altText: picture.image.alt,
+        fieldId: picture.fieldId,
+        caption: picture.caption || undefined,
+        description: picture.description || undefined,
+      });
+    }
+
+    console.log(`WordPress publish: "${fields.title}" with ${draftImages.length} images`);
+
+    const result = await publishDraft(config, {
+      fields,
+      images: draftImages,
+    });
+
+    await auditRequest(req, 'publish', {
+      keyword,
+      detail: result.draft ? `draft ${result.draft.id}` : result.error,
+      ok: result.success && !!result.draft
+    });
+
+    if (!result.success || !result.draft) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to create WordPress draft', media: result.media },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      draftId: result.draft.id,
+      editUrl: result.draft.editUrl,
+      previewUrl: result.draft.link,
+      media: result.media
+    });
+
+  } catch (error) {
+    console.error('WordPress publish API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error during WordPress publish' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildSchemaField } from '@/lib/schemaOrg';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { keyword, outputFields, faqs, serviceAreas } = await req.json();
+
+    if (!keyword || typeof keyword !== 'string') {
+      return NextResponse.json(
+        { error: 'Keyword is required' },
+        { status: 400 }
+      );
+    }
+
+    const fields: Record<string, string> = outputFields && typeof outputFields === 'object' ? outputFields : {};
+
+    const result = buildSchemaField({
+      keyword,
+      fields,
+      faqs: Array.isArray(faqs) ? faqs : undefined,
+      serviceAreas: Array.isArray(serviceAreas) ? serviceAreas : undefined
+    });
+
+    // Markup that fails validation is returned for inspection but not as the field output
+    if (!result.valid) {
+      return NextResponse.json(
+        {
+          error: 'Schema markup failed validation',
+          errors: result.errors,
+          jsonLd: result.jsonLd
+        },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      fieldId: 'schema',
+      output: result.output,
+      jsonLd: result.jsonLd
+    });
+
+  } catch (error) {
+    console.error('Schema API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error during schema generation' },
+      { status: 500 }
+    );
+  }
+}
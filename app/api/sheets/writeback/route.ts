@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGoogleAccess } from '@/lib/googleClient';
+import { auditRequest } from '@/lib/audit';
+import { getWritebackConfig, writeGeneratedContent } from '@/lib/googleSheetsWriteback';
+
+// Lets the UI show the write-back button only when it is turned on
+export async function GET() {
+  const config = getWritebackConfig();
+  return NextResponse.json({
+    enabled: config.mode !== 'off',
+    mode: config.mode,
+    tabName: config.mode === 'tab' ? config.tabName : undefined
+  });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { keyword, outputFields, status } = await req.json();
+
+    if (!keyword || typeof keyword !== 'string' || keyword.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Keyword is required and must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (!outputFields || typeof outputFields !== 'object') {
+      return NextResponse.json(
+        { error: 'outputFields is required' },
+        { status: 400 }
+      );
+    }
+
+    if (getWritebackConfig().mode === 'off') {
+      return NextResponse.json(
+        { error: 'Sheet write-back is disabled. Set SHEET_WRITEBACK to "columns" or "tab".' },
+        { status: 403 }
+      );
+    }
+
+    const access = await getGoogleAccess(req);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await writeGeneratedContent(
+      keyword.trim(),
+      outputFields,
+      access.accessToken,
+      typeof status === 'string' && status.trim() ? status.trim() : undefined
+    );
+    await auditRequest(req, 'writeback', {
+      keyword: keyword.trim(),
+      detail: result.ok ? `row ${result.rowNumber}` : result.error,
+      ok: result.ok
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 502 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      rowNumber: result.rowNumber,
+      tabName: result.tabName,
+      updatedCells: result.updatedCells
+    });
+
+  } catch (error) {
+    console.error('Sheet write-back API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error during sheet write-back' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { parseFreepikTask, verifyFreepikSignature } from '@/lib/images/freepik';
+import { handleFreepikWebhook } from '@/lib/images/jobs';
+
+export const dynamic = 'force-dynamic';
+
+// Task updates from Freepik; public, so nothing is trusted until the signature checks out
+export async function POST(req: NextRequest) {
+  try {
+    const secret = getConfig().freepik.webhookSecret;
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'FREEPIK_WEBHOOK_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    // The signature covers the exact bytes sent, so the body is read as text before parsing
+    const body = await req.text();
+    const verification = verifyFreepikSignature({
+      id: req.headers.get('webhook-id'),
+      timestamp: req.headers.get('webhook-timestamp'),
+      signature: req.headers.get('webhook-signature')
+    }, body, secret);
+
+    if (!verification.ok) {
+      console.warn('Freepik webhook rejected:', verification.error);
+      return NextResponse.json({ error: verification.error }, { status: 401 });
+    }
+
+    let task = null;
+    try {
+      task = parseFreepikTask(JSON.parse(body));
+    } catch {
+      // Reported below
+    }
+    if (!task) {
+      return NextResponse.json({ error: 'Webhook body is not a Freepik task' }, { status: 400 });
+    }
+
+    const jobId = req.nextUrl.searchParams.get('job');
+    if (!jobId) {
+      return NextResponse.json({ error: 'Missing job parameter' }, { status: 400 });
+    }
+
+    const { job, error } = await handleFreepikWebhook(jobId, task);
+    if (!job) {
+      return NextResponse.json({ error }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, status: job.status });
+
+  } catch (error) {
+    console.error('Freepik webhook error:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle Freepik webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { AuditAction, AuditEntry } from '@/lib/audit'
+
+const ACTIONS: AuditAction[] = ['classify', 'generate', 'process_images', 'batch', 'writeback', 'publish']
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [actor, setActor] = useState('')
+  const [keyword, setKeyword] = useState('')
+  const [action, setAction] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadEntries()
+  }, [])
+
+  const loadEntries = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      if (actor.trim()) params.set('actor', actor.trim())
+      if (keyword.trim()) params.set('keyword', keyword.trim())
+      if (action) params.set('action', action)
+
+      const response = await fetch(`/api/audit?${params.toString()}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load audit log')
+      }
+      setEntries(result.entries)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load audit log')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Audit Log
+          </h1>
+          <p className="text-lg text-gray-600">
+            Who classified, generated, processed images or published which keyword
+          </p>
+        </header>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+              <input
+                type="text"
+                value={actor}
+                onChange={(e) => setActor(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="name@example.com"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Keyword</label>
+              <input
+                type="text"
+                value={keyword}
+                onChange={(e) => setKeyword(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+              <select
+                value={action}
+                onChange={(e) => setAction(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">All</option>
+                {ACTIONS.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={loadEntries}
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Filter'}
+            </button>
+            <a href="/" className="text-sm text-blue-600 hover:underline ml-auto">Back to app</a>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm text-red-700">{error}</div>
+        )}
+
+        {/* Entries */}
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2">Time</th>
+                <th className="px-4 py-2">User</th>
+                <th className="px-4 py-2">Action</th>
+                <th className="px-4 py-2">Keyword</th>
+                <th className="px-4 py-2">Detail</th>
+                <th className="px-4 py-2">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id} className="border-t border-gray-100">
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-500">{new Date(entry.at).toLocaleString()}</td>
+                  <td className="px-4 py-2">
+                    {entry.actor}
+                    {entry.role && <span className="text-gray-400"> ({entry.role})</span>}
+                  </td>
+                  <td className="px-4 py-2">{entry.action}</td>
+                  <td className="px-4 py-2">{entry.keyword || '—'}</td>
+                  <td className="px-4 py-2 text-gray-600">{entry.detail || ''}</td>
+                  <td className={`px-4 py-2 ${entry.ok ? 'text-green-600' : 'text-red-600'}`}>{entry.ok ? 'OK' : 'Failed'}</td>
+                </tr>
+              ))}
+              {entries.length === 0 && !loading && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-gray-500">No audit entries</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -1,8 +1,13 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import type { EnvVarStatus } from '@/lib/config'
 
 interface DebugResult {
+  apiKeys: {
+    status: Record<string, EnvVarStatus>
+    validation: { isValid: boolean; errors: string[]; warnings: string[] }
+  }
   googleDoc: {
     url: string
     accessMethod: string
@@ -25,19 +30,26 @@ export default function DebugPage() {
   const [keyword, setKeyword] = useState('')
   const [debugResult, setDebugResult] = useState<DebugResult | null>(null)
   const [loading, setLoading] = useState(false)
-  const [accessToken, setAccessToken] = useState<string | null>(null)
+  const [authenticated, setAuthenticated] = useState(false)
   const [authenticating, setAuthenticating] = useState(false)
 
-  // Check for stored access token on component mount
+  // Check whether the session cookie holds Google tokens on component mount
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const storedToken = sessionStorage.getItem('google_access_token')
-      if (storedToken) {
-        setAccessToken(storedToken)
-      }
-    }
+    fetch('/api/auth/google/session')
+      .then(response => response.json())
+      .then(session => setAuthenticated(!!session.authenticated))
+      .catch(() => setAuthenticated(false))
   }, [])
 
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/google/session', { method: 'DELETE' })
+    } catch (error) {
+      console.error('Sign out error:', error)
+    }
+    setAuthenticated(false)
+  }
+
   const handleGoogleAuth = async () => {
     setAuthenticating(true)
     try {
@@ -70,8 +82,7 @@ export default function DebugPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          keyword: keyword.trim(),
-          accessToken: accessToken 
+          keyword: keyword.trim()
         })
       })
       
@@ -106,14 +117,11 @@ export default function DebugPage() {
         {/* Authentication Section */}
         <div className="bg-white rounded-lg shadow-md p-6 mb-6">
           <h2 className="text-xl font-semibold text-gray-800 mb-4">Google Authentication</h2>
-          {accessToken ? (
+          {authenticated ? (
             <div className="flex items-center space-x-4">
               <div className="text-green-600 font-medium">✅ Authenticated with Google</div>
               <button
-                onClick={() => {
-                  setAccessToken(null)
-                  sessionStorage.removeItem('google_access_token')
-                }}
+                onClick={handleSignOut}
                 className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600"
               >
                 Sign Out
@@ -170,6 +178,55 @@ export default function DebugPage() {
         {/* Debug Results */}
         {debugResult && (
           <div className="space-y-6">
+            {/* Configuration */}
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4">Configuration</h2>
+              <p className={`text-sm font-medium mb-3 ${debugResult.apiKeys.validation.isValid ? 'text-green-600' : 'text-red-600'}`}>
+                {debugResult.apiKeys.validation.isValid ? 'All required settings are configured' : 'Configuration has errors'}
+              </p>
+              {debugResult.apiKeys.validation.errors.length > 0 && (
+                <ul className="text-sm text-red-600 bg-red-50 p-2 rounded mb-3 space-y-1">
+                  {debugResult.apiKeys.validation.errors.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              )}
+              {debugResult.apiKeys.validation.warnings.length > 0 && (
+                <ul className="text-sm text-orange-700 bg-orange-50 p-2 rounded mb-3 space-y-1">
+                  {debugResult.apiKeys.validation.warnings.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2">Variable</th>
+                      <th className="px-3 py-2">Feature</th>
+                      <th className="px-3 py-2">Status</th>
+                      <th className="px-3 py-2">Description</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.keys(debugResult.apiKeys.status).map(name => {
+                      const status = debugResult.apiKeys.status[name]
+                      return (
+                        <tr key={name} className="border-t border-gray-100">
+                          <td className="px-3 py-2 font-mono text-xs">{name}</td>
+                          <td className="px-3 py-2 text-gray-600">{status.feature}</td>
+                          <td className={`px-3 py-2 ${status.error ? 'text-red-600' : status.configured ? 'text-green-600' : 'text-gray-400'}`}>
+                            {status.error || (status.configured ? (status.usingDefault ? 'Default' : 'Set') : 'Not set')}
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">{status.description}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
             {/* Google Doc Debug Info */}
             <div className="bg-white rounded-lg shadow-md p-6">
               <h2 className="text-xl font-semibold text-gray-800 mb-4">Google Doc Classification</h2>
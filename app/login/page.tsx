@@ -0,0 +1,115 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { signIn } from 'next-auth/react'
+
+// Error codes NextAuth adds to the sign-in page URL
+const SIGN_IN_ERRORS: Record<string, string> = {
+  AccessDenied: 'That Google account is not on the team allowlist.',
+  OAuthCallback: 'Google sign-in failed. Please try again.'
+}
+
+function getNextPath(): string {
+  // Only follow same-site paths so the next parameter can't redirect off the app
+  const next = new URLSearchParams(window.location.search).get('next') || '/'
+  return next.startsWith('/') && !next.startsWith('//') ? next : '/'
+}
+
+export default function LoginPage() {
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<'accounts' | 'password' | 'open' | null>(null)
+
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('error')
+    if (code) {
+      setError(SIGN_IN_ERRORS[code] || 'Sign-in failed. Please try again.')
+    }
+
+    fetch('/api/auth/me')
+      .then(response => response.json())
+      .then(result => setMode(result.mode || 'password'))
+      .catch(() => setMode('password'))
+  }, [])
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Login failed')
+      }
+
+      window.location.href = getNextPath()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Login failed')
+      setLoading(false)
+    }
+  }
+
+  if (mode === 'accounts') {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-lg shadow-md p-6 w-full max-w-sm space-y-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Website Automator</h1>
+            <p className="text-sm text-gray-600 mt-1">Sign in with your team Google account.</p>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <button
+            onClick={() => signIn('google', { callbackUrl: getNextPath() })}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Sign in with Google
+          </button>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <form onSubmit={handleLogin} className="bg-white rounded-lg shadow-md p-6 w-full max-w-sm space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Website Automator</h1>
+          <p className="text-sm text-gray-600 mt-1">Enter the app password to continue.</p>
+        </div>
+
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Password"
+        />
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading || !password}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </main>
+  )
+}
@@ -1,13 +1,154 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
+import { signOut } from 'next-auth/react'
+import { Flow, getField, getFieldsForFlow, PICTURE_FIELD_IDS } from '@/lib/fields'
+import { readEventStream } from '@/lib/sse'
+import { FaqItem, PictureCombination } from '@/lib/structuredOutputs'
+import type { GenerationRecord } from '@/lib/history/types'
+import { diffWords } from '@/lib/textDiff'
+import type { BatchJob, BatchJobSummary } from '@/lib/batch/types'
+import type { AppUser } from '@/lib/auth/types'
+import type { FrameTemplate } from '@/lib/images/frames'
+import type { ChosenLocation, LocationMode, LocationProfile } from '@/lib/images/geotag'
+import type { ImageJobStatus } from '@/lib/images/jobs'
+import type { ImagePreset } from '@/lib/images/presets'
+import { MAX_ALT_LENGTH } from '@/lib/images/altLength'
+import { seedPictureAlt, splitPictureText } from '@/lib/page/assembly'
+import type { PageDocument, PagePicture } from '@/lib/page/types'
+
+interface ProcessedImage {
+  id: string
+  originalName: string
+  // Keyword loaded in the Text tab when the image was processed
+  keyword: string
+  // SEO filename used for downloads and WordPress uploads
+  filename: string
+  webp: string
+  alt: string
+  geotagApplied: boolean
+  location?: ChosenLocation
+  // Result of reading the embedded EXIF/XMP back; null when embedding failed
+  metadataVerified: boolean | null
+  sizeKb: number
+  // Responsive width/format variants, served from the image job
+  variants: ImageVariantLink[]
+  // Ready-to-paste <picture> element for the variants
+  pictureHtml: string
+  // Upload checks that flagged the image without rejecting it
+  warnings: string[]
+}
+
+interface ImageVariantLink {
+  width: number
+  format: 'webp' | 'avif'
+  bytes: number
+  overBudget: boolean
+  filename: string
+  url: string
+}
+
+// Image submitted to Freepik and not yet finished, or failed and waiting for a retry
+interface ImageJobEntry {
+  jobId: string
+  originalName: string
+  keyword: string
+  status: ImageJobStatus
+  error?: string
+  // Set for images sent with "Process all"
+  batchId?: string
+  warnings?: string[]
+}
+
+// Keyword classification shown in the Text tab
+interface Classification {
+  category: string | null
+  reason: string
+  loading: boolean
+  subtopics?: string[]
+}
+
+// Typed output alongside the text form; cleared when the matching text is edited by hand
+interface StructuredOutputs {
+  faqs?: FaqItem[]
+  pictures?: Array<PictureCombination & { fieldId: string }>
+}
+
+// How often the Pictures tab asks for queued and processing jobs
+const IMAGE_JOB_POLL_MS = 3000
+
+function isPendingJob(job: ImageJobEntry): boolean {
+  return job.status === 'queued' || job.status === 'processing'
+}
+
+function toProcessedImage(result: any, keyword: string): ProcessedImage {
+  return {
+    id: result.job_id,
+    originalName: result.original_filename,
+    keyword,
+    filename: result.filename,
+    webp: result.webp,
+    alt: result.alt,
+    geotagApplied: result.geotag_applied,
+    location: result.location,
+    metadataVerified: result.metadata ? result.metadata.verified : null,
+    sizeKb: result.size_kb,
+    variants: (result.variants || []).map((variant: any) => ({
+      width: variant.width,
+      format: variant.format,
+      bytes: variant.bytes,
+      overBudget: variant.over_budget,
+      filename: variant.filename,
+      url: variant.url
+    })),
+    pictureHtml: result.picture_html || '',
+    warnings: result.warnings || []
+  }
+}
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<'text' | 'pictures'>('text')
+  const [activeTab, setActiveTab] = useState<'text' | 'pictures' | 'batch'>('text')
+  // Shared so processed images can be published along with the generated text
+  const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([])
+  // Kept here so jobs keep their state while another tab is open
+  const [imageJobs, setImageJobs] = useState<ImageJobEntry[]>([])
+  // Lifted out of TextTab so image filenames and alt text follow the loaded keyword
+  const [keyword, setKeyword] = useState('')
+  const [pictureTitles, setPictureTitles] = useState<string[]>([])
+  // Image assigned to each picture field; kept here so it survives switching tabs
+  const [pagePictures, setPagePictures] = useState<PagePicture[]>([])
+  // Generated copy and classification, kept here so they survive switching tabs
+  const [classification, setClassification] = useState<Classification>({
+    category: null,
+    reason: 'Not yet classified',
+    loading: false
+  })
+  const [outputFields, setOutputFields] = useState<Record<string, string>>({})
+  const [structuredOutputs, setStructuredOutputs] = useState<StructuredOutputs>({})
+  const [user, setUser] = useState<AppUser | null>(null)
+
+  // Team accounts only; with accounts off there is no user to show
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(response => response.json())
+      .then(result => setUser(result.user || null))
+      .catch(() => setUser(null))
+  }, [])
 
   return (
     <main className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 py-8">
+        {user && (
+          <div className="flex justify-end items-center space-x-4 text-sm text-gray-600 mb-4">
+            <span>{user.email} <span className="text-gray-400">({user.role})</span></span>
+            {user.role === 'admin' && (
+              <a href="/audit" className="text-blue-600 hover:underline">Audit log</a>
+            )}
+            <button onClick={() => signOut({ callbackUrl: '/login' })} className="text-blue-600 hover:underline">
+              Sign out
+            </button>
+          </div>
+        )}
         <header className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-2">
             Website Automator
@@ -41,47 +182,112 @@ export default function Home() {
               >
                 🖼️ Image Processing
               </button>
+              <button
+                onClick={() => setActiveTab('batch')}
+                className={`py-2 px-4 border-b-2 font-medium text-sm ${
+                  activeTab === 'batch'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                📋 Batch Runs
+              </button>
             </nav>
           </div>
         </div>
 
         {/* Tab Content */}
-        {activeTab === 'text' ? <TextTab /> : <PicturesTab />}
+        {activeTab === 'text' ? (
+          <TextTab
+            processedImages={processedImages}
+            pagePictures={pagePictures}
+            setPagePictures={setPagePictures}
+            classification={classification}
+            setClassification={setClassification}
+            outputFields={outputFields}
+            setOutputFields={setOutputFields}
+            structuredOutputs={structuredOutputs}
+            setStructuredOutputs={setStructuredOutputs}
+            keyword={keyword}
+            setKeyword={(value) => {
+              setKeyword(value)
+              setPictureTitles([])
+              setPagePictures([])
+            }}
+            onPictureTitles={setPictureTitles}
+          />
+        ) : activeTab === 'pictures' ? (
+          <PicturesTab
+            processedImages={processedImages}
+            setProcessedImages={setProcessedImages}
+            imageJobs={imageJobs}
+            setImageJobs={setImageJobs}
+            keyword={keyword.trim()}
+            pictureTitles={pictureTitles}
+          />
+        ) : (
+          <BatchTab />
+        )}
       </div>
     </main>
   )
 }
 
-function TextTab() {
-  const [keyword, setKeyword] = useState('')
+function TextTab({
+  processedImages,
+  pagePictures,
+  setPagePictures,
+  classification,
+  setClassification,
+  outputFields,
+  setOutputFields,
+  structuredOutputs,
+  setStructuredOutputs,
+  keyword,
+  setKeyword,
+  onPictureTitles
+}: {
+  processedImages: ProcessedImage[]
+  pagePictures: PagePicture[]
+  setPagePictures: React.Dispatch<React.SetStateAction<PagePicture[]>>
+  classification: Classification
+  setClassification: React.Dispatch<React.SetStateAction<Classification>>
+  outputFields: Record<string, string>
+  setOutputFields: React.Dispatch<React.SetStateAction<Record<string, string>>>
+  structuredOutputs: StructuredOutputs
+  setStructuredOutputs: React.Dispatch<React.SetStateAction<StructuredOutputs>>
+  keyword: string
+  setKeyword: (keyword: string) => void
+  // Generated picture titles, used as context for image alt text
+  onPictureTitles: (titles: string[]) => void
+}) {
   const [competitorUrls, setCompetitorUrls] = useState('')
-  const [accessToken, setAccessToken] = useState<string | null>(null)
-  const [classification, setClassification] = useState<{
-    category: string | null
-    reason: string
-    loading: boolean
-    subtopics?: string[]
-  }>({
-    category: null,
-    reason: 'Not yet classified',
-    loading: false
-  })
-  const [outputFields, setOutputFields] = useState<Record<string, string>>({})
+  const [authenticated, setAuthenticated] = useState(false)
   const [generatingFields, setGeneratingFields] = useState<Record<string, boolean>>({})
   const [generatingAll, setGeneratingAll] = useState(false)
   const [keywordError, setKeywordError] = useState<string | null>(null)
+  const [publishing, setPublishing] = useState(false)
+  const [publishResult, setPublishResult] = useState<{ editUrl: string; mediaCount: number } | null>(null)
+
+  useEffect(() => {
+    if (structuredOutputs.pictures) {
+      onPictureTitles(structuredOutputs.pictures.map(picture => picture.title))
+    }
+  }, [structuredOutputs.pictures])
+  const [writebackEnabled, setWritebackEnabled] = useState(false)
+  const [writingBack, setWritingBack] = useState(false)
 
   // Check for stored access token on component mount
   useEffect(() => {
     if (typeof window !== 'undefined') {
-      // First check for pre-authenticated tokens from environment
-      checkPreAuthTokens()
+      // Tokens live server-side; the page only needs to know whether the session has them
+      checkSession()
       
-      // Then check for stored token from OAuth flow
-      const storedToken = sessionStorage.getItem('google_access_token')
-      if (storedToken) {
-        setAccessToken(storedToken)
-      }
+      // Only offer sheet write-back when the server has it turned on
+      fetch('/api/sheets/writeback')
+        .then(response => response.json())
+        .then(result => setWritebackEnabled(!!result.enabled))
+        .catch(() => setWritebackEnabled(false))
       
       // Restore state after OAuth redirect
       const pendingKeyword = sessionStorage.getItem('pendingKeyword')
@@ -116,20 +322,24 @@ function TextTab() {
     return () => clearTimeout(timer);
   }, [outputFields]);
   
-  // Check for pre-authenticated tokens from environment
-  const checkPreAuthTokens = async () => {
+  // Check the session cookie, starting a pre-authenticated session if the server has env tokens
+  const checkSession = async () => {
     try {
+      const sessionResponse = await fetch('/api/auth/google/session')
+      const session = await sessionResponse.json()
+      if (session.authenticated) {
+        setAuthenticated(true)
+        return
+      }
+      
       const response = await fetch('/api/auth/tokens')
       const data = await response.json()
-      
-      if (data.access_token) {
+      if (data.authenticated) {
         console.log('Using pre-authenticated tokens:', data.method)
-        setAccessToken(data.access_token)
-        // Store in session for consistency
-        sessionStorage.setItem('google_access_token', data.access_token)
+        setAuthenticated(true)
       }
     } catch (error) {
-      console.error('Error checking pre-auth tokens:', error)
+      console.error('Error checking session:', error)
     }
   }
 
@@ -149,16 +359,14 @@ function TextTab() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ 
-            keyword: keyword.trim(),
-            accessToken: accessToken
+            keyword: keyword.trim()
           })
         }),
         fetch('/api/competitors', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ 
-            keyword: keyword.trim(),
-            accessToken: accessToken
+            keyword: keyword.trim()
           })
         })
       ])
@@ -224,13 +432,13 @@ function TextTab() {
     if (!classification.category) return
     
     // Set all picture fields as generating
-    setGeneratingFields(prev => ({ 
-      ...prev, 
-      pic1: true, 
-      pic2: true, 
-      pic3: true, 
-      pic4: true 
-    }))
+    const setPicturesGenerating = (generating: boolean) => {
+      setGeneratingFields(prev => ({
+        ...prev,
+        ...Object.fromEntries(PICTURE_FIELD_IDS.map(fieldId => [fieldId, generating]))
+      }))
+    }
+    setPicturesGenerating(true)
     
     try {
       const response = await fetch('/api/generate/pictures', {
@@ -238,8 +446,7 @@ function TextTab() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           keyword: keyword.trim(),
-          flow: classification.category,
-          accessToken: accessToken
+          flow: classification.category
         })
       })
       
@@ -254,17 +461,12 @@ function TextTab() {
         ...prev, 
         ...result.outputs 
       }))
+      setStructuredOutputs(prev => ({ ...prev, pictures: result.pictures }))
       
     } catch (error) {
       alert(`Failed to generate pictures: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
-      setGeneratingFields(prev => ({ 
-        ...prev, 
-        pic1: false, 
-        pic2: false, 
-        pic3: false, 
-        pic4: false 
-      }))
+      setPicturesGenerating(false)
     }
   }
 
@@ -272,11 +474,16 @@ function TextTab() {
     if (!classification.category) return
     
     // If it's a picture field, generate all pictures at once
-    if (fieldId.startsWith('pic')) {
+    if (getField(fieldId)?.group === 'pictures') {
       await generateAllPictures()
       return
     }
     
+    if (getField(fieldId)?.outputType === 'jsonld') {
+      await generateSchema(fieldId)
+      return
+    }
+    
     setGeneratingFields(prev => ({ ...prev, [fieldId]: true }))
     
     try {
@@ -287,21 +494,72 @@ function TextTab() {
           keyword: keyword.trim(),
           flow: classification.category,
           competitorUrls: competitorUrls.split('\n').filter(url => url.trim()),
-          accessToken: accessToken,
-          subtopics: classification.subtopics
+          subtopics: classification.subtopics,
+          stream: true
+        })
+      })
+      
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.error || 'Generation failed')
+      }
+      
+      // Show raw text as it streams in, then replace it with the cleaned-up output
+      let streamed = ''
+      let streamError: string | null = null
+      setOutputFields(prev => ({ ...prev, [fieldId]: '' }))
+      
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'delta') {
+          streamed += data.text
+          setOutputFields(prev => ({ ...prev, [fieldId]: streamed }))
+        } else if (event === 'done') {
+          setOutputFields(prev => ({ ...prev, [fieldId]: data.output }))
+          if (getField(fieldId)?.outputType === 'faq') {
+            setStructuredOutputs(prev => ({ ...prev, faqs: data.structured }))
+          }
+        } else if (event === 'error') {
+          streamError = data.error
+        }
+      })
+      
+      if (streamError) {
+        throw new Error(streamError)
+      }
+      
+    } catch (error) {
+      alert(`Failed to generate ${fieldId}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setGeneratingFields(prev => ({ ...prev, [fieldId]: false }))
+    }
+  }
+
+  // JSON-LD is built server-side from the FAQ and cost fields already on the page
+  const generateSchema = async (fieldId: string) => {
+    setGeneratingFields(prev => ({ ...prev, [fieldId]: true }))
+    
+    try {
+      const response = await fetch('/api/schema', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keyword: keyword.trim(),
+          outputFields,
+          faqs: structuredOutputs.faqs
         })
       })
       
       const result = await response.json()
       
       if (!response.ok) {
-        throw new Error(result.error || 'Generation failed')
+        const details = Array.isArray(result.errors) ? `\n${result.errors.join('\n')}` : ''
+        throw new Error(`${result.error || 'Schema generation failed'}${details}`)
       }
       
       setOutputFields(prev => ({ ...prev, [fieldId]: result.output }))
       
     } catch (error) {
-      alert(`Failed to generate ${fieldId}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      alert(`Failed to generate schema markup: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
       setGeneratingFields(prev => ({ ...prev, [fieldId]: false }))
     }
@@ -312,22 +570,138 @@ function TextTab() {
     
     setGeneratingAll(true)
     
-    // Generate text fields first
-    const textFields = [
-      'title', 'intro',
-      ...(classification.category === 'with subtopics' ? ['subtopics'] : []),
-      'cost', 'why', 'faq'
-    ]
-    
-    // Generate all text fields
-    for (const fieldId of textFields) {
-      await generateField(fieldId)
+    try {
+      // Bulk generation runs every field (and the combined pictures prompt) server-side
+      const response = await fetch('/api/generate/all', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keyword: keyword.trim(),
+          flow: classification.category,
+          competitorUrls: competitorUrls.split('\n').filter(url => url.trim()),
+          subtopics: classification.subtopics
+        })
+      })
+      
+      const result = await response.json()
+      
+      if (!response.ok) {
+        throw new Error(result.error || 'Generation failed')
+      }
+      
+      setOutputFields(prev => ({ ...prev, ...result.page.fields }))
+      setStructuredOutputs(prev => ({
+        faqs: result.page.faqs || prev.faqs,
+        pictures: result.page.pictures.length > 0 ? result.page.pictures : prev.pictures
+      }))
+      
+      if (result.errors) {
+        const failed = Object.entries(result.errors).map(([fieldId, error]) => `${fieldId}: ${error}`)
+        alert(`Some fields failed to generate:\n${failed.join('\n')}`)
+      }
+      
+    } catch (error) {
+      alert(`Failed to generate all fields: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setGeneratingAll(false)
     }
-    
-    // Generate all pictures at once using the combined approach
-    await generateAllPictures()
-    
-    setGeneratingAll(false)
+  }
+
+  // The unit that is published or exported: the text plus the image assigned to each picture field
+  const page: PageDocument = {
+    keyword: keyword.trim(),
+    fields: outputFields,
+    // Images removed from the Pictures tab drop out of the page
+    pictures: pagePictures.filter(picture => processedImages.some(image => image.id === picture.jobId))
+  }
+
+  const publishToWordPress = async () => {
+    if (!outputFields.title) {
+      alert('Generate a title before publishing')
+      return
+    }
+
+    setPublishing(true)
+    setPublishResult(null)
+
+    try {
+      const response = await fetch('/api/publish/wordpress', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ page })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Publishing failed')
+      }
+
+      setPublishResult({ editUrl: result.editUrl, mediaCount: result.media.length })
+
+    } catch (error) {
+      alert(`Failed to publish to WordPress: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  const writeBackToSheet = async () => {
+    setWritingBack(true)
+
+    try {
+      const response = await fetch('/api/sheets/writeback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keyword: keyword.trim(),
+          outputFields
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Write-back failed')
+      }
+
+      alert(`Wrote ${result.updatedCells} cells to row ${result.rowNumber}${result.tabName ? ` of "${result.tabName}"` : ''}`)
+
+    } catch (error) {
+      alert(`Failed to write to sheet: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setWritingBack(false)
+    }
+  }
+
+  // Restore a single field from a past generation
+  const loadHistoryRecord = (record: GenerationRecord) => {
+    setOutputFields(prev => ({ ...prev, [record.fieldId]: record.output }))
+    setStructuredOutputs({})
+  }
+
+  // Restore the inputs, classification and every field of a past run
+  const loadHistoryRun = (records: GenerationRecord[]) => {
+    const successful = records.filter(record => record.status === 'success')
+    const first = records[0]
+    if (!first) return
+
+    setClassification({
+      category: first.flow as Flow,
+      reason: `Restored from history (${new Date(first.startedAt).toLocaleString()})`,
+      loading: false,
+      subtopics: first.subtopics
+    })
+    setCompetitorUrls((first.competitorUrls || []).join('\n'))
+    setOutputFields(prev => {
+      const next = { ...prev }
+      // Records are newest first, so apply oldest first and let newer outputs win
+      for (const record of successful.slice().reverse()) {
+        next[record.fieldId] = record.output
+      }
+      return next
+    })
+    setStructuredOutputs({})
   }
 
   const copyToClipboard = (content: string, fieldLabel: string) => {
@@ -365,7 +739,7 @@ function TextTab() {
   return (
     <div className="space-y-8">
       {/* Authentication Section */}
-      {accessToken ? (
+      {authenticated ? (
         <div className="bg-green-50 border border-green-200 rounded-lg p-4">
           <div className="flex items-center space-x-3">
             <div className="text-green-600">✅</div>
@@ -462,7 +836,7 @@ function TextTab() {
             </div>
             <button
               onClick={handleClassify}
-              disabled={classification.loading || !keyword.trim() || !accessToken}
+              disabled={classification.loading || !keyword.trim() || !authenticated}
               className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {classification.loading ? 'Classifying...' : 'Classify Keyword'}
@@ -471,6 +845,15 @@ function TextTab() {
         </div>
       </div>
 
+      {keyword.trim() && (
+        <HistoryPanel
+          keyword={keyword.trim()}
+          outputFields={outputFields}
+          onLoadRecord={loadHistoryRecord}
+          onLoadRun={loadHistoryRun}
+        />
+      )}
+
       {/* Output Boxes - Only show after classification */}
       {classification.category && (
         <div className="bg-white rounded-lg shadow-md p-6">
@@ -497,27 +880,46 @@ function TextTab() {
               >
                 {generatingAll ? 'Generating All...' : 'Generate All'}
               </button>
+              <button
+                onClick={publishToWordPress}
+                disabled={!outputFields.title || publishing || generatingAll}
+                className="px-6 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {publishing ? 'Publishing...' : 'Publish Draft'}
+              </button>
+              {writebackEnabled && (
+                <button
+                  onClick={writeBackToSheet}
+                  disabled={Object.keys(outputFields).length === 0 || writingBack || generatingAll || !authenticated}
+                  className="px-6 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {writingBack ? 'Writing...' : 'Write to Sheet'}
+                </button>
+              )}
             </div>
           </div>
 
+          {publishResult && (
+            <div className="mb-6 p-3 bg-indigo-50 border border-indigo-200 rounded-md text-sm text-indigo-800">
+              WordPress draft created with {publishResult.mediaCount} image{publishResult.mediaCount === 1 ? '' : 's'}:{' '}
+              <a href={publishResult.editUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                {publishResult.editUrl}
+              </a>
+            </div>
+          )}
+
           <div className="grid md:grid-cols-2 gap-6">
-            {/* Same fields for both classifications, just include Subtopics when needed */}
-            {[
-              { id: 'title', label: 'Title' },
-              { id: 'intro', label: 'Introduction' },
-              { id: 'pic1', label: 'Picture 1 Description' },
-              { id: 'pic2', label: 'Picture 2 Description' },
-              { id: 'pic3', label: 'Picture 3 Description' },
-              { id: 'pic4', label: 'Picture 4 Description' },
-              ...(classification.category === 'with subtopics' ? [{ id: 'subtopics', label: 'Subtopics' }] : []),
-              { id: 'cost', label: 'Cost Information' },
-              { id: 'why', label: 'Why Choose Us' },
-              { id: 'faq', label: 'FAQs' }
-            ].map((field) => (
+            {/* Fields come from the shared registry, filtered to the classified flow */}
+            {getFieldsForFlow(classification.category as Flow).map((field) => (
               <div key={field.id} className="border border-gray-200 rounded-lg p-4">
                 <div className="flex items-center justify-between mb-3">
                   <label className="text-sm font-medium text-gray-700">
                     {field.label}
+                    {field.outputType === 'faq' && structuredOutputs.faqs && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        ({structuredOutputs.faqs.length} Q&amp;A pairs)
+                      </span>
+                    )}
                   </label>
                   <div className="space-x-2">
                     <button 
@@ -549,6 +951,11 @@ function TextTab() {
                   value={outputFields[field.id] || ''}
                   onChange={(e) => {
                     setOutputFields(prev => ({ ...prev, [field.id]: e.target.value }));
+                    if (field.outputType === 'faq') {
+                      setStructuredOutputs(prev => ({ ...prev, faqs: undefined }));
+                    } else if (field.outputType === 'picture') {
+                      setStructuredOutputs(prev => ({ ...prev, pictures: undefined }));
+                    }
                     // Auto-resize textarea immediately
                     const target = e.target as HTMLTextAreaElement;
                     target.style.height = 'auto';
@@ -567,133 +974,819 @@ function TextTab() {
           </div>
         </div>
       )}
+
+      {classification.category && (
+        <PageAssemblyPanel
+          page={page}
+          processedImages={processedImages}
+          setPagePictures={setPagePictures}
+        />
+      )}
     </div>
   )
 }
 
-function PicturesTab() {
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([])
-  const [dragActive, setDragActive] = useState(false)
-  const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([])
-  const [processingIndex, setProcessingIndex] = useState<number | null>(null)
-  const fileInputRef = useRef<HTMLInputElement>(null)
-
-  interface ProcessedImage {
-    id: string
-    originalName: string
-    webp: string
-    alt: string
-    geotagApplied: boolean
-    location?: { name: string; lat: number; lng: number }
-    sizeKb: number
-  }
-
-  const handleFiles = (files: FileList | File[]) => {
-    const imageFiles = Array.from(files).filter(file => 
-      file.type.startsWith('image/')
-    )
-    setUploadedFiles(prev => [...prev, ...imageFiles])
-  }
-
-  const handleDragEnter = (e: React.DragEvent) => {
-    e.preventDefault()
-    e.stopPropagation()
-    setDragActive(true)
-  }
+function PageAssemblyPanel({
+  page,
+  processedImages,
+  setPagePictures
+}: {
+  page: PageDocument
+  processedImages: ProcessedImage[]
+  setPagePictures: React.Dispatch<React.SetStateAction<PagePicture[]>>
+}) {
+  const [exportVariants, setExportVariants] = useState(false)
+  const [exporting, setExporting] = useState(false)
 
-  const handleDragLeave = (e: React.DragEvent) => {
-    e.preventDefault()
-    e.stopPropagation()
-    setDragActive(false)
-  }
+  // An image belongs to one picture field at a time; assigning it again moves it
+  const assign = (fieldId: string, jobId: string) => {
+    const image = processedImages.find(entry => entry.id === jobId)
+    const seeded = seedPictureAlt(splitPictureText(page.fields[fieldId]))
 
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault()
-    e.stopPropagation()
+    setPagePictures(prev => [
+      ...prev.filter(picture => picture.fieldId !== fieldId && (!image || picture.jobId !== image.id)),
+      ...(image ? [{ fieldId, jobId: image.id, alt: seeded || image.alt }] : [])
+    ])
   }
 
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault()
-    e.stopPropagation()
-    setDragActive(false)
-    
-    if (e.dataTransfer.files) {
-      handleFiles(e.dataTransfer.files)
-    }
+  const setAlt = (fieldId: string, alt: string) => {
+    setPagePictures(prev => prev.map(picture => picture.fieldId === fieldId ? { ...picture, alt } : picture))
   }
 
-  const handleFileSelect = () => {
-    fileInputRef.current?.click()
-  }
+  // Fills empty picture fields with this keyword's unassigned images, in the order they were processed
+  const autoAssign = () => {
+    const unassigned = processedImages.filter(image =>
+      image.keyword === (page.keyword || '') && !page.pictures.some(picture => picture.jobId === image.id))
 
-  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      handleFiles(e.target.files)
+    for (const fieldId of PICTURE_FIELD_IDS) {
+      if (unassigned.length === 0) break
+      if (!page.pictures.some(picture => picture.fieldId === fieldId)) {
+        assign(fieldId, unassigned.shift()!.id)
+      }
     }
   }
 
-  const removeFile = (index: number) => {
-    setUploadedFiles(prev => prev.filter((_, i) => i !== index))
-  }
+  const exportPage = async () => {
+    setExporting(true)
 
-  const processImage = async (file: File, index: number) => {
-    setProcessingIndex(index)
-    
     try {
-      const formData = new FormData()
-      formData.append('image', file)
-      formData.append('instruction', 'I want to apply the frame to the picture. The picture called "done" is an example of the final output. I want the frame to be applied in a natural way around the picture, as if it was literally a framed picture. Resize the frame as needed to fit the picture. The dropshadow under the lower frame should be a pixel-perfect duplication. Don\'t extend any background beyond the image.')
-      formData.append('geotag', 'true')
-
-      const response = await fetch('/api/image/process', {
+      const response = await fetch('/api/page/export', {
         method: 'POST',
-        body: formData
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ page, variants: exportVariants })
       })
-
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Processing failed')
-      }
-
-      const result = await response.json()
-      
-      const processedImage: ProcessedImage = {
-        id: Date.now().toString() + index,
-        originalName: result.original_filename,
-        webp: result.webp,
-        alt: result.alt,
-        geotagApplied: result.geotag_applied,
-        location: result.location,
-        sizeKb: result.size_kb
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Export failed')
       }
 
-      setProcessedImages(prev => [...prev, processedImage])
-      
-      // Remove the processed file from upload list
-      removeFile(index)
-      
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = disposition.match(/filename="([^"]+)"/)?.[1] || 'page.zip'
+      link.click()
+      URL.revokeObjectURL(url)
     } catch (error) {
-      console.error('Image processing failed:', error)
-      alert(`Failed to process ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      console.error('Page export failed:', error)
+      alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
-      setProcessingIndex(null)
+      setExporting(false)
     }
   }
 
-  const copyImageData = (image: ProcessedImage) => {
-    navigator.clipboard.writeText(image.webp)
-      .then(() => alert('Image data copied to clipboard!'))
-      .catch(() => alert('Failed to copy to clipboard'))
-  }
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">
+          Page Assembly <span className="text-sm font-normal text-gray-500">({page.pictures.length} of {PICTURE_FIELD_IDS.length} pictures assigned)</span>
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={autoAssign}
+            disabled={processedImages.length === 0}
+            className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Auto-assign
+          </button>
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={exportVariants}
+              onChange={(e) => setExportVariants(e.target.checked)}
+            />
+            Include variants
+          </label>
+          <button
+            onClick={exportPage}
+            disabled={exporting || Object.keys(page.fields).length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {exporting ? 'Exporting...' : 'Export Page'}
+          </button>
+        </div>
+      </div>
 
-  const downloadImage = (image: ProcessedImage) => {
-    const link = document.createElement('a')
-    link.href = image.webp
-    link.download = `${image.originalName.split('.')[0]}_processed.webp`
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
-  }
+      <p className="text-sm text-gray-600 mb-4">
+        Each picture&apos;s title becomes the image caption and its summary seeds the alt text and media description.
+        Publish Draft and Export Page use these assignments.
+      </p>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {PICTURE_FIELD_IDS.map(fieldId => {
+          const { title, summary } = splitPictureText(page.fields[fieldId])
+          const assigned = page.pictures.find(picture => picture.fieldId === fieldId)
+          const image = processedImages.find(entry => entry.id === assigned?.jobId)
+
+          return (
+            <div key={fieldId} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex gap-3">
+                {image ? (
+                  <img src={image.webp} alt={assigned?.alt || image.alt} className="w-24 h-24 object-cover rounded" />
+                ) : (
+                  <div className="w-24 h-24 flex items-center justify-center bg-gray-100 rounded text-xs text-gray-400">No image</div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium text-gray-500">{getField(fieldId)?.label || fieldId}</p>
+                  <p className="text-sm font-medium text-gray-800 truncate">
+                    {title || <span className="text-gray-400">Not generated yet</span>}
+                  </p>
+                  {summary && <p className="text-xs text-gray-600 line-clamp-2">{summary}</p>}
+                </div>
+              </div>
+
+              <select
+                value={image?.id || ''}
+                onChange={(e) => assign(fieldId, e.target.value)}
+                className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">No image</option>
+                {processedImages.map(entry => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.filename}{entry.keyword !== (page.keyword || '') ? ` (${entry.keyword || 'no keyword'})` : ''}
+                  </option>
+                ))}
+              </select>
+
+              {image && (
+                <div className="mt-2">
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="text-xs font-medium text-gray-700">
+                      Alt text <span className="font-normal text-gray-400">({(assigned?.alt || '').length}/{MAX_ALT_LENGTH})</span>
+                    </label>
+                    <div className="space-x-2 text-xs">
+                      <button
+                        onClick={() => setAlt(fieldId, seedPictureAlt({ title, summary }))}
+                        disabled={!title && !summary}
+                        className="text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        From summary
+                      </button>
+                      <button onClick={() => setAlt(fieldId, image.alt)} className="text-blue-600 hover:underline">
+                        Image alt
+                      </button>
+                    </div>
+                  </div>
+                  <input
+                    type="text"
+                    value={assigned?.alt || ''}
+                    maxLength={MAX_ALT_LENGTH}
+                    onChange={(e) => setAlt(fieldId, e.target.value)}
+                    placeholder={image.alt}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function HistoryPanel({
+  keyword,
+  outputFields,
+  onLoadRecord,
+  onLoadRun
+}: {
+  keyword: string
+  outputFields: Record<string, string>
+  onLoadRecord: (record: GenerationRecord) => void
+  onLoadRun: (records: GenerationRecord[]) => void
+}) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [records, setRecords] = useState<GenerationRecord[]>([])
+  const [diffRecordId, setDiffRecordId] = useState<string | null>(null)
+
+  const loadHistory = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/history?keyword=${encodeURIComponent(keyword)}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load history')
+      }
+
+      setRecords(result.records)
+    } catch (error) {
+      alert(`Failed to load history: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggle = () => {
+    if (!open) loadHistory()
+    setOpen(!open)
+  }
+
+  // Group records by run, keeping the newest run first
+  const runs: Array<{ runId: string; records: GenerationRecord[] }> = []
+  for (const record of records) {
+    const run = runs.find(item => item.runId === record.runId)
+    if (run) {
+      run.records.push(record)
+    } else {
+      runs.push({ runId: record.runId, records: [record] })
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-800">
+          History <span className="text-sm font-normal text-gray-500">for &quot;{keyword}&quot;</span>
+        </h2>
+        <div className="space-x-2">
+          {open && (
+            <button
+              onClick={loadHistory}
+              disabled={loading}
+              className="px-3 py-1 bg-gray-400 text-white rounded text-xs hover:bg-gray-500 disabled:opacity-50"
+            >
+              Refresh
+            </button>
+          )}
+          <button
+            onClick={toggle}
+            className="px-3 py-1 bg-blue-500 text-white rounded text-xs hover:bg-blue-600"
+          >
+            {open ? 'Hide History' : 'Show History'}
+          </button>
+        </div>
+      </div>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          {loading && <p className="text-sm text-gray-500">Loading history...</p>}
+          {!loading && runs.length === 0 && (
+            <p className="text-sm text-gray-500">No generations recorded for this keyword yet.</p>
+          )}
+          {runs.map(run => (
+            <div key={run.runId} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm text-gray-700">
+                  {new Date(run.records[run.records.length - 1].startedAt).toLocaleString()}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {run.records[0].flow} · {run.records.length} field{run.records.length === 1 ? '' : 's'}
+                  </span>
+                </span>
+                <button
+                  onClick={() => onLoadRun(run.records)}
+                  className="px-3 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700"
+                >
+                  Load Run
+                </button>
+              </div>
+              <ul className="space-y-2">
+                {run.records.map(record => (
+                  <li key={record.id} className="text-xs">
+                    <div className="flex items-center justify-between">
+                      <span className={record.status === 'error' ? 'text-red-600' : 'text-gray-700'}>
+                        <strong>{getField(record.fieldId)?.label || record.fieldId}</strong>
+                        <span className="ml-2 text-gray-500">
+                          {record.provider} / {record.model}
+                          {record.temperature !== undefined && ` · temp ${record.temperature}`}
+                        </span>
+                        {record.error && <span className="ml-2">{record.error}</span>}
+                      </span>
+                      {record.status === 'success' && (
+                        <span className="space-x-2">
+                          <button
+                            onClick={() => setDiffRecordId(diffRecordId === record.id ? null : record.id)}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {diffRecordId === record.id ? 'Hide Diff' : 'Diff'}
+                          </button>
+                          <button
+                            onClick={() => onLoadRecord(record)}
+                            className="text-blue-600 hover:underline"
+                          >
+                            Load
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                    {diffRecordId === record.id && (
+                      <div className="mt-2 p-2 bg-gray-50 rounded whitespace-pre-wrap">
+                        <div className="mb-1 text-gray-500">
+                          <span className="bg-red-100 text-red-800 line-through">this run</span>{' '}
+                          vs{' '}
+                          <span className="bg-green-100 text-green-800">current field</span>
+                        </div>
+                        {diffWords(record.output, outputFields[record.fieldId] || '').map((part, index) => (
+                          <span
+                            key={index}
+                            className={
+                              part.type === 'added' ? 'bg-green-100 text-green-800' :
+                              part.type === 'removed' ? 'bg-red-100 text-red-800 line-through' :
+                              ''
+                            }
+                          >
+                            {part.text}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <details className="mt-1 text-gray-500">
+                      <summary className="cursor-pointer">Prompt</summary>
+                      <pre className="mt-1 p-2 bg-gray-50 rounded whitespace-pre-wrap">
+                        {record.system ? `System: ${record.system}\n\n` : ''}{record.prompt}
+                      </pre>
+                    </details>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function PicturesTab({
+  processedImages,
+  setProcessedImages,
+  imageJobs,
+  setImageJobs,
+  keyword,
+  pictureTitles
+}: {
+  processedImages: ProcessedImage[]
+  setProcessedImages: React.Dispatch<React.SetStateAction<ProcessedImage[]>>
+  imageJobs: ImageJobEntry[]
+  setImageJobs: React.Dispatch<React.SetStateAction<ImageJobEntry[]>>
+  keyword: string
+  pictureTitles: string[]
+}) {
+  const [uploadedFiles, setUploadedFiles] = useState<File[]>([])
+  const [dragActive, setDragActive] = useState(false)
+  // Files being sent, matched by identity so the list can change meanwhile
+  const [submittingFiles, setSubmittingFiles] = useState<File[]>([])
+  const [exportVariants, setExportVariants] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [profiles, setProfiles] = useState<LocationProfile[]>([])
+  const [profileId, setProfileId] = useState('')
+  const [city, setCity] = useState('')
+  const [locationMode, setLocationMode] = useState<LocationMode | ''>('')
+  const [jitterMeters, setJitterMeters] = useState('')
+  const [defaultProfile, setDefaultProfile] = useState('')
+  const [frames, setFrames] = useState<FrameTemplate[]>([])
+  const [frameId, setFrameId] = useState('')
+  const [enhance, setEnhance] = useState(true)
+  const [presets, setPresets] = useState<ImagePreset[]>([])
+  const [presetId, setPresetId] = useState('')
+  // Freepik defaults shown for presets that don't override them
+  const [presetDefaults, setPresetDefaults] = useState({ model: '', aspectRatio: '' })
+  const [frameName, setFrameName] = useState('')
+  const [uploadingFrame, setUploadingFrame] = useState(false)
+  const frameInputRef = useRef<HTMLInputElement>(null)
+  const shadowInputRef = useRef<HTMLInputElement>(null)
+
+  const loadFrames = () => {
+    fetch('/api/image/frames')
+      .then(response => response.json())
+      .then(result => setFrames(result.frames || []))
+      .catch(error => console.error('Failed to load frame templates:', error))
+  }
+
+  useEffect(loadFrames, [])
+
+  useEffect(() => {
+    fetch('/api/image/presets')
+      .then(response => response.json())
+      .then(result => {
+        setPresets(result.presets || [])
+        setPresetId(current => current || result.defaultPreset || '')
+        setPresetDefaults({ model: result.model || '', aspectRatio: result.aspectRatio || '' })
+        if (result.error) console.warn('Image presets:', result.error)
+      })
+      .catch(error => console.error('Failed to load image presets:', error))
+  }, [])
+
+  const selectedPreset = presets.find(preset => preset.id === presetId)
+
+  useEffect(() => {
+    fetch('/api/image/locations')
+      .then(response => response.json())
+      .then(result => {
+        setProfiles(result.profiles || [])
+        setDefaultProfile(result.defaultProfile || '')
+        if (result.error) console.warn('Geotag profiles:', result.error)
+      })
+      .catch(error => console.error('Failed to load geotag profiles:', error))
+  }, [])
+
+  // Cities offered for the chosen profile, or the default one while "auto" is selected
+  const cityOptions = (profiles.find(profile => profile.id === (profileId || defaultProfile)) || profiles[0])?.locations || []
+
+  const handleFiles = (files: FileList | File[]) => {
+    const imageFiles = Array.from(files).filter(file => 
+      file.type.startsWith('image/')
+    )
+    setUploadedFiles(prev => [...prev, ...imageFiles])
+  }
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setDragActive(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setDragActive(false)
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setDragActive(false)
+    
+    if (e.dataTransfer.files) {
+      handleFiles(e.dataTransfer.files)
+    }
+  }
+
+  const handleFileSelect = () => {
+    fileInputRef.current?.click()
+  }
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      handleFiles(e.target.files)
+    }
+  }
+
+  const removeFile = (file: File) => {
+    setUploadedFiles(prev => prev.filter(entry => entry !== file))
+  }
+
+  const imageJobsRef = useRef(imageJobs)
+  imageJobsRef.current = imageJobs
+  const hasPendingJobs = imageJobs.some(isPendingJob)
+  const failedJobs = imageJobs.filter(job => job.status === 'failed')
+
+  // Poll unfinished jobs; finished ones are fetched once for their image and move to the processed images
+  useEffect(() => {
+    if (!hasPendingJobs) return
+
+    const updateJob = (job: ImageJobEntry, result: any) => {
+      setImageJobs(prev => prev.map(entry => entry.jobId === job.jobId
+        ? { ...entry, status: result.status, error: result.error }
+        : entry))
+    }
+
+    const checkJob = async (job: ImageJobEntry) => {
+      const response = await fetch(`/api/image/jobs/${job.jobId}`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to check image job')
+
+      if (result.status === 'done' && result.webp) {
+        const processedImage = toProcessedImage(result, job.keyword)
+        setProcessedImages(prev => prev.some(image => image.id === processedImage.id) ? prev : [...prev, processedImage])
+        setImageJobs(prev => prev.filter(entry => entry.jobId !== job.jobId))
+      } else {
+        updateJob(job, result)
+      }
+    }
+
+    const pollJobs = async () => {
+      const pending = imageJobsRef.current.filter(isPendingJob)
+
+      // A batch reports all its images in one request (and restarts its runner after a server restart)
+      const batchIds = pending
+        .map(job => job.batchId)
+        .filter((id, index, all): id is string => !!id && all.indexOf(id) === index)
+
+      for (const batchId of batchIds) {
+        try {
+          const response = await fetch(`/api/image/batch/${batchId}`)
+          const result = await response.json()
+          if (!response.ok) throw new Error(result.error || 'Failed to check image batch')
+
+          for (const jobResult of result.jobs) {
+            const job = pending.find(entry => entry.jobId === jobResult.job_id)
+            if (!job) continue
+            if (jobResult.status === 'done') {
+              await checkJob(job)
+            } else if (jobResult.status !== job.status) {
+              updateJob(job, jobResult)
+            }
+          }
+        } catch (error) {
+          // Keep polling; the jobs may still finish
+          console.error(`Image batch ${batchId} check failed:`, error)
+        }
+      }
+
+      for (const job of pending.filter(entry => !entry.batchId)) {
+        try {
+          await checkJob(job)
+        } catch (error) {
+          console.error(`Image job ${job.jobId} check failed:`, error)
+        }
+      }
+    }
+
+    const timer = setInterval(pollJobs, IMAGE_JOB_POLL_MS)
+    return () => clearInterval(timer)
+  }, [hasPendingJobs, setImageJobs, setProcessedImages])
+
+  // Numbered per keyword (junk-removal-boise-1.webp, -2, ...) and matched to the picture fields in order;
+  // failed jobs keep their number for a retry
+  const nextSequence = () => processedImages.filter(image => image.keyword === keyword).length
+    + imageJobs.filter(job => job.keyword === keyword).length + 1
+
+  const appendImageOptions = (formData: FormData) => {
+    // Frames are composited on the server after the optional AI enhancement
+    if (frameId) formData.append('frame', frameId)
+    formData.append('enhance', String(enhance))
+    if (enhance && presetId) formData.append('preset', presetId)
+    formData.append('geotag', 'true')
+    if (keyword) formData.append('keyword', keyword)
+    if (profileId) formData.append('profile', profileId)
+    if (city) formData.append('location', city)
+    if (locationMode) formData.append('locationMode', locationMode)
+    if (jitterMeters.trim()) formData.append('jitterMeters', jitterMeters.trim())
+  }
+
+  const processImage = async (file: File) => {
+    setSubmittingFiles(prev => [...prev, file])
+
+    try {
+      const formData = new FormData()
+      formData.append('image', file)
+      appendImageOptions(formData)
+      const sequence = nextSequence()
+      formData.append('sequence', String(sequence))
+      if (pictureTitles.length > 0) formData.append('pictureTitle', pictureTitles[(sequence - 1) % pictureTitles.length])
+
+      const response = await fetch('/api/image/process', {
+        method: 'POST',
+        body: formData
+      })
+      const result = await response.json()
+
+      // A job Freepik rejected is listed as failed so it can be retried
+      if (!result.job_id) {
+        throw new Error(result.error || 'Processing failed')
+      }
+
+      // Without the AI enhancement the image is usually done by the time the request returns
+      if (result.status === 'done' && result.webp) {
+        setProcessedImages(prev => [...prev, toProcessedImage(result, keyword)])
+      } else {
+        setImageJobs(prev => [...prev, {
+          jobId: result.job_id,
+          originalName: file.name,
+          keyword,
+          status: result.status,
+          error: result.error,
+          warnings: result.warnings
+        }])
+      }
+      // Its job is shown below
+      removeFile(file)
+
+    } catch (error) {
+      console.error('Image processing failed:', error)
+      alert(`Failed to process ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSubmittingFiles(prev => prev.filter(entry => entry !== file))
+    }
+  }
+
+  // Sends every waiting file as one server-side batch, processed IMAGE_BATCH_CONCURRENCY at a time
+  const processAll = async () => {
+    const files = uploadedFiles.filter(file => submittingFiles.indexOf(file) === -1)
+    if (files.length === 0) return
+    setSubmittingFiles(prev => [...prev, ...files])
+
+    try {
+      const formData = new FormData()
+      files.forEach(file => formData.append('images', file))
+      appendImageOptions(formData)
+      formData.append('startSequence', String(nextSequence()))
+      if (pictureTitles.length > 0) formData.append('pictureTitles', JSON.stringify(pictureTitles))
+
+      const response = await fetch('/api/image/batch', {
+        method: 'POST',
+        body: formData
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Batch processing failed')
+      }
+
+      setImageJobs(prev => [...prev, ...result.jobs.map((job: any) => ({
+        jobId: job.job_id,
+        originalName: job.original_filename,
+        keyword,
+        status: job.status,
+        error: job.error,
+        batchId: result.batch_id,
+        warnings: job.warnings
+      }))])
+      setUploadedFiles(prev => prev.filter(file => files.indexOf(file) === -1))
+
+    } catch (error) {
+      console.error('Batch image processing failed:', error)
+      alert(`Failed to process ${files.length} images: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSubmittingFiles(prev => prev.filter(file => files.indexOf(file) === -1))
+    }
+  }
+
+  const applyRetryResults = (jobs: any[]) => {
+    // Unenhanced jobs outside a batch are finished again by the retry request itself
+    const finished = jobs.filter(job => job.status === 'done' && job.webp)
+    if (finished.length > 0) {
+      setProcessedImages(prev => [...prev, ...finished
+        .filter(job => !prev.some(image => image.id === job.job_id))
+        .map(job => toProcessedImage(job, job.keyword || ''))])
+    }
+
+    setImageJobs(prev => prev
+      .filter(entry => !finished.some(job => job.job_id === entry.jobId))
+      .map(entry => {
+        const retried = jobs.find(job => job.job_id === entry.jobId)
+        return retried ? { ...entry, status: retried.status, error: retried.error } : entry
+      }))
+  }
+
+  const uploadFrame = async () => {
+    const frame = frameInputRef.current?.files?.[0]
+    if (!frame) {
+      alert('Choose a PNG frame first')
+      return
+    }
+    setUploadingFrame(true)
+
+    try {
+      const formData = new FormData()
+      formData.append('frame', frame)
+      const shadow = shadowInputRef.current?.files?.[0]
+      if (shadow) formData.append('shadow', shadow)
+      if (frameName.trim()) formData.append('name', frameName.trim())
+
+      const response = await fetch('/api/image/frames', { method: 'POST', body: formData })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Upload failed')
+
+      setFrames(prev => [...prev, result.frame].sort((a, b) => a.name.localeCompare(b.name)))
+      setFrameId(result.frame.id)
+      setFrameName('')
+      if (frameInputRef.current) frameInputRef.current.value = ''
+      if (shadowInputRef.current) shadowInputRef.current.value = ''
+    } catch (error) {
+      console.error('Frame upload failed:', error)
+      alert(`Frame upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setUploadingFrame(false)
+    }
+  }
+
+  const deleteFrame = async (id: string) => {
+    const frame = frames.find(entry => entry.id === id)
+    if (!frame || !confirm(`Delete the frame "${frame.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/image/frames/${id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Delete failed')
+
+      setFrames(prev => prev.filter(entry => entry.id !== id))
+      setFrameId('')
+    } catch (error) {
+      console.error('Frame delete failed:', error)
+      alert(`Frame delete failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Retried on the server with the same upload, number and city
+  const retryJobs = async (jobs: ImageJobEntry[]) => {
+    const batchIds = jobs
+      .map(job => job.batchId)
+      .filter((id, index, all): id is string => !!id && all.indexOf(id) === index)
+
+    try {
+      for (const batchId of batchIds) {
+        const response = await fetch(`/api/image/batch/${batchId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'retry', jobIds: jobs.filter(job => job.batchId === batchId).map(job => job.jobId) })
+        })
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || 'Retry failed')
+        applyRetryResults(result.jobs)
+      }
+
+      for (const job of jobs.filter(entry => !entry.batchId)) {
+        const response = await fetch(`/api/image/jobs/${job.jobId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'retry' })
+        })
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || 'Retry failed')
+        applyRetryResults([result])
+      }
+    } catch (error) {
+      console.error('Image retry failed:', error)
+      alert(`Retry failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const dismissJob = (job: ImageJobEntry) => {
+    setImageJobs(prev => prev.filter(entry => entry.jobId !== job.jobId))
+  }
+
+  // ZIP of the processed WebPs with manifest.csv/json of filenames, alt text and geotags
+  const exportImages = async () => {
+    setExporting(true)
+
+    try {
+      const ids = processedImages.map(image => image.id).join(',')
+      const response = await fetch(`/api/image/export?jobs=${encodeURIComponent(ids)}${exportVariants ? '&variants=1' : ''}`)
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.error || 'Export failed')
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'images.zip'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      const skipped = Number(response.headers.get('X-Skipped-Images') || 0)
+      if (skipped > 0) alert(`${skipped} images are no longer available and were left out`)
+
+    } catch (error) {
+      console.error('Image export failed:', error)
+      alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const copyImageData = (image: ProcessedImage) => {
+    navigator.clipboard.writeText(image.webp)
+      .then(() => alert('Image data copied to clipboard!'))
+      .catch(() => alert('Failed to copy to clipboard'))
+  }
+
+  const copyPictureHtml = (image: ProcessedImage) => {
+    navigator.clipboard.writeText(image.pictureHtml)
+      .then(() => alert('<picture> snippet copied to clipboard!'))
+      .catch(() => alert('Failed to copy to clipboard'))
+  }
+
+  const downloadImage = (image: ProcessedImage) => {
+    const link = document.createElement('a')
+    link.href = image.webp
+    link.download = image.filename
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
 
   return (
     <div className="space-y-8">
@@ -745,18 +1838,190 @@ function PicturesTab() {
           className="hidden"
         />
 
+        {/* Geotag Settings */}
+        <div className="mt-6 grid md:grid-cols-5 gap-3">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Keyword (from Text Generation)</label>
+            <p className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-sm text-gray-700 truncate">
+              {keyword || <span className="text-gray-400">None loaded - filenames use the original names</span>}
+            </p>
+            {pictureTitles.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">Alt text uses the {pictureTitles.length} generated picture titles in order</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Location profile</label>
+            <select
+              value={profileId}
+              onChange={(e) => {
+                setProfileId(e.target.value)
+                setCity('')
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Auto (match keyword)</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.label || profile.id}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">City</label>
+            <select
+              value={city}
+              onChange={(e) => setCity(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Pick automatically</option>
+              {cityOptions.map(location => (
+                <option key={location.name} value={location.name}>{location.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Order</label>
+              <select
+                value={locationMode}
+                onChange={(e) => setLocationMode(e.target.value as LocationMode | '')}
+                disabled={!!city}
+                className="w-full px-2 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+              >
+                <option value="">Default</option>
+                <option value="random">Random</option>
+                <option value="round-robin">Round-robin</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Jitter (m)</label>
+              <input
+                type="number"
+                min={0}
+                max={5000}
+                value={jitterMeters}
+                onChange={(e) => setJitterMeters(e.target.value)}
+                className="w-full px-2 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="0"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Frame Settings */}
+        <div className="mt-4 grid md:grid-cols-5 gap-3 items-start">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Frame</label>
+            <div className="flex gap-2">
+              <select
+                value={frameId}
+                onChange={(e) => setFrameId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">No frame</option>
+                {frames.map(frame => (
+                  <option key={frame.id} value={frame.id}>{frame.name} ({frame.width}x{frame.height})</option>
+                ))}
+              </select>
+              {frameId && (
+                <button
+                  onClick={() => deleteFrame(frameId)}
+                  className="px-3 py-2 text-xs text-red-600 border border-red-200 rounded-md hover:bg-red-50"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+            {frameId && (
+              <img
+                src={`/api/image/frames/${frameId}`}
+                alt="Selected frame"
+                className="mt-2 h-20 border border-gray-200 rounded bg-[repeating-conic-gradient(#e5e7eb_0_25%,#fff_0_50%)] bg-[length:16px_16px]"
+              />
+            )}
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={enhance}
+                onChange={(e) => setEnhance(e.target.checked)}
+              />
+              AI enhancement (Freepik) before framing
+            </label>
+            {enhance && (
+              <div className="mt-2">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Preset</label>
+                <select
+                  value={presetId}
+                  onChange={(e) => setPresetId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  {presets.map(preset => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.label}{preset.source === 'sheet' ? ' (from sheet)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {selectedPreset && (
+                  <p className="text-xs text-gray-500 mt-1" title={selectedPreset.instruction}>
+                    {selectedPreset.instruction.length > 140 ? `${selectedPreset.instruction.slice(0, 140)}...` : selectedPreset.instruction}
+                    <span className="block text-gray-400">
+                      Aspect ratio: {selectedPreset.aspectRatio || presetDefaults.aspectRatio} · Model: {selectedPreset.model || presetDefaults.model}
+                    </span>
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="md:col-span-3 p-3 border border-dashed border-gray-300 rounded-md">
+            <p className="text-xs font-medium text-gray-700 mb-2">Upload frame template</p>
+            <div className="grid md:grid-cols-3 gap-2">
+              <input
+                type="text"
+                value={frameName}
+                onChange={(e) => setFrameName(e.target.value)}
+                placeholder="Name (default: file name)"
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+              />
+              <label className="text-xs text-gray-600">
+                Frame PNG (transparent window)
+                <input ref={frameInputRef} type="file" accept="image/png" className="block w-full text-xs" />
+              </label>
+              <label className="text-xs text-gray-600">
+                Shadow PNG (optional, same size)
+                <input ref={shadowInputRef} type="file" accept="image/png" className="block w-full text-xs" />
+              </label>
+            </div>
+            <button
+              onClick={uploadFrame}
+              disabled={uploadingFrame}
+              className="mt-2 px-3 py-1 bg-gray-700 text-white rounded text-xs hover:bg-gray-800 disabled:opacity-50"
+            >
+              {uploadingFrame ? 'Uploading...' : 'Upload Frame'}
+            </button>
+          </div>
+        </div>
+
         <div className="mt-4 text-sm text-gray-600">
           <p>• Accepts any image format (JPG, PNG, GIF, etc.)</p>
-          <p>• Images will be converted to WebP automatically</p>
-          <p>• AI processing with Nano Banana (Gemini 2.5 Flash Image)</p>
+          <p>• Images are converted to WebP and AVIF at several widths, within a size budget</p>
+          <p>• Frames and their shadows are composited locally, exactly as uploaded</p>
+          <p>• Optional AI enhancement with Nano Banana (Gemini 2.5 Flash Image)</p>
         </div>
 
         {/* Uploaded Files Preview */}
         {uploadedFiles.length > 0 && (
           <div className="mt-6">
-            <h3 className="text-sm font-medium text-gray-700 mb-3">
-              Uploaded Files ({uploadedFiles.length})
-            </h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-gray-700">
+                Uploaded Files ({uploadedFiles.length})
+              </h3>
+              <button
+                onClick={processAll}
+                disabled={uploadedFiles.every(file => submittingFiles.indexOf(file) !== -1)}
+                className="px-3 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Process All
+              </button>
+            </div>
             <div className="space-y-2">
               {uploadedFiles.map((file, index) => (
                 <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
@@ -773,15 +2038,15 @@ function PicturesTab() {
                   </div>
                   <div className="flex items-center space-x-2">
                     <button 
-                      onClick={() => processImage(file, index)}
-                      disabled={processingIndex === index}
+                      onClick={() => processImage(file)}
+                      disabled={submittingFiles.indexOf(file) !== -1}
                       className="px-3 py-1 bg-green-500 text-white rounded text-xs hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      {processingIndex === index ? 'Processing...' : 'Process'}
+                      {submittingFiles.indexOf(file) !== -1 ? 'Submitting...' : 'Process'}
                     </button>
                     <button 
-                      onClick={() => removeFile(index)}
-                      disabled={processingIndex === index}
+                      onClick={() => removeFile(file)}
+                      disabled={submittingFiles.indexOf(file) !== -1}
                       className="px-3 py-1 bg-red-500 text-white rounded text-xs hover:bg-red-600 disabled:opacity-50"
                     >
                       Remove
@@ -792,13 +2057,95 @@ function PicturesTab() {
             </div>
           </div>
         )}
+
+        {/* Image Jobs */}
+        {imageJobs.length > 0 && (
+          <div className="mt-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-gray-700">
+                Image Jobs ({imageJobs.length})
+                {hasPendingJobs && (
+                  <span className="ml-2 text-xs font-normal text-gray-500">
+                    {imageJobs.filter(job => job.status === 'processing').length} processing, {imageJobs.filter(job => job.status === 'queued').length} queued
+                  </span>
+                )}
+              </h3>
+              {failedJobs.length > 1 && (
+                <button
+                  onClick={() => retryJobs(failedJobs)}
+                  className="px-3 py-1 bg-green-500 text-white rounded text-xs hover:bg-green-600"
+                >
+                  Retry Failed ({failedJobs.length})
+                </button>
+              )}
+            </div>
+            <div className="space-y-2">
+              {imageJobs.map(job => (
+                <div key={job.jobId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-700 truncate">{job.originalName}</p>
+                    {job.error && <p className="text-xs text-red-600">{job.error}</p>}
+                    {job.warnings?.map(warning => <p key={warning} className="text-xs text-orange-600">⚠ {warning}</p>)}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-1 rounded text-xs ${
+                      job.status === 'failed' ? 'bg-red-100 text-red-700'
+                        : job.status === 'processing' ? 'bg-blue-100 text-blue-700'
+                        : 'bg-gray-200 text-gray-700'
+                    }`}>
+                      {job.status === 'queued' ? 'Queued' : job.status === 'processing' ? 'Processing...' : job.status === 'failed' ? 'Failed' : 'Done'}
+                    </span>
+                    {job.status === 'failed' && (
+                      <>
+                        <button
+                          onClick={() => retryJobs([job])}
+                          className="px-3 py-1 bg-green-500 text-white rounded text-xs hover:bg-green-600"
+                        >
+                          Retry
+                        </button>
+                        <button
+                          onClick={() => dismissJob(job)}
+                          className="px-3 py-1 bg-red-500 text-white rounded text-xs hover:bg-red-600"
+                        >
+                          Dismiss
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Processing Results */}
       <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">
-          Processed Images {processedImages.length > 0 && `(${processedImages.length})`}
-        </h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Processed Images {processedImages.length > 0 && `(${processedImages.length})`}
+          </h2>
+          {processedImages.length > 0 && (
+            <div className="flex items-center space-x-3">
+              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={exportVariants}
+                  onChange={(e) => setExportVariants(e.target.checked)}
+                />
+                <span>Include variants</span>
+              </label>
+              <button
+                onClick={exportImages}
+                disabled={exporting}
+                className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:opacity-50"
+                title="ZIP of the WebPs with a CSV/JSON manifest of filenames, alt text and geotags"
+              >
+                {exporting ? 'Exporting...' : 'Download ZIP'}
+              </button>
+            </div>
+          )}
+        </div>
         
         {processedImages.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
@@ -819,7 +2166,7 @@ function PicturesTab() {
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium truncate" title={image.originalName}>
-                      {image.originalName}
+                      {image.filename}
                     </span>
                     <div className="flex space-x-1">
                       <button 
@@ -829,6 +2176,15 @@ function PicturesTab() {
                       >
                         Copy
                       </button>
+                      {image.pictureHtml && (
+                        <button
+                          onClick={() => copyPictureHtml(image)}
+                          className="px-2 py-1 bg-purple-500 text-white rounded text-xs hover:bg-purple-600"
+                          title="Copy <picture> snippet with srcset"
+                        >
+                          HTML
+                        </button>
+                      )}
                       <button 
                         onClick={() => downloadImage(image)}
                         className="px-2 py-1 bg-green-500 text-white rounded text-xs hover:bg-green-600"
@@ -838,18 +2194,40 @@ function PicturesTab() {
                       </button>
                     </div>
                   </div>
+                  {image.warnings.map(warning => (
+                    <p key={warning} className="text-xs text-orange-600">⚠ {warning}</p>
+                  ))}
                   <p className="text-xs text-gray-600" title={image.alt}>
                     Alt: {image.alt.length > 50 ? image.alt.substring(0, 47) + '...' : image.alt}
                   </p>
                   <div className="flex items-center justify-between text-xs text-gray-600">
                     <span>
                       {image.geotagApplied && image.location ? 
-                        `📍 ${image.location.name}, ID` : 
+                        `📍 ${image.location.name}${image.location.region ? `, ${image.location.region}` : ''}` : 
                         '📍 No location'
                       }
                     </span>
-                    <span>{image.sizeKb} KB</span>
+                    <span>
+                      {image.metadataVerified === true && <span className="text-green-600 mr-2" title="EXIF/XMP read back and verified">✓ Metadata</span>}
+                      {image.metadataVerified === false && <span className="text-orange-600 mr-2" title="Embedded metadata did not match">⚠ Metadata</span>}
+                      {image.sizeKb} KB
+                    </span>
                   </div>
+                  {image.variants.length > 0 && (
+                    <div className="flex flex-wrap gap-1 text-xs">
+                      {image.variants.map(variant => (
+                        <a
+                          key={variant.filename}
+                          href={variant.url}
+                          download={variant.filename}
+                          className={`px-1.5 py-0.5 rounded border hover:bg-gray-50 ${variant.overBudget ? 'border-orange-300 text-orange-700' : 'border-gray-200 text-gray-600'}`}
+                          title={variant.overBudget ? `${variant.filename} is over the size budget` : variant.filename}
+                        >
+                          {variant.width}w {variant.format.toUpperCase()} {(variant.bytes / 1024).toFixed(1)} KB
+                        </a>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -858,4 +2236,340 @@ function PicturesTab() {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+interface BatchRow {
+  rowNumber: number
+  keyword: string
+  competitorUrls: string[]
+  hasOutput: boolean
+}
+
+function BatchTab() {
+  const [authenticated, setAuthenticated] = useState(false)
+  const [rows, setRows] = useState<BatchRow[]>([])
+  const [loadingRows, setLoadingRows] = useState(false)
+  const [selectedRows, setSelectedRows] = useState<Record<number, boolean>>({})
+  const [concurrency, setConcurrency] = useState(2)
+  const [starting, setStarting] = useState(false)
+  const [jobs, setJobs] = useState<BatchJobSummary[]>([])
+  const [activeJob, setActiveJob] = useState<BatchJob | null>(null)
+
+  useEffect(() => {
+    fetch('/api/auth/google/session')
+      .then(response => response.json())
+      .then(session => setAuthenticated(!!session.authenticated))
+      .catch(() => setAuthenticated(false))
+    loadJobs()
+  }, [])
+
+  // Poll while a job is running so progress updates without a refresh
+  const anyRunning = jobs.some(job => job.status === 'running' || job.status === 'queued')
+  useEffect(() => {
+    if (!anyRunning) return
+    const timer = setInterval(() => {
+      loadJobs()
+      if (activeJob) loadJob(activeJob.id)
+    }, 3000)
+    return () => clearInterval(timer)
+  }, [anyRunning, activeJob?.id])
+
+  const loadJobs = async () => {
+    try {
+      const response = await fetch('/api/batch')
+      const result = await response.json()
+      if (response.ok) setJobs(result.jobs)
+    } catch (error) {
+      console.error('Failed to load batch jobs:', error)
+    }
+  }
+
+  const loadJob = async (id: string) => {
+    try {
+      const response = await fetch(`/api/batch/${id}`)
+      const result = await response.json()
+      if (response.ok) setActiveJob(result.job)
+    } catch (error) {
+      console.error('Failed to load batch job:', error)
+    }
+  }
+
+  const loadRows = async () => {
+    setLoadingRows(true)
+    try {
+      const response = await fetch('/api/batch/rows', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load keyword rows')
+      }
+
+      setRows(result.rows)
+      setSelectedRows({})
+    } catch (error) {
+      alert(`Failed to load keyword rows: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setLoadingRows(false)
+    }
+  }
+
+  const startBatch = async (pendingOnly: boolean) => {
+    const rowNumbers = rows.filter(row => selectedRows[row.rowNumber]).map(row => row.rowNumber)
+    if (!pendingOnly && rowNumbers.length === 0) {
+      alert('Select at least one keyword')
+      return
+    }
+
+    setStarting(true)
+    try {
+      const response = await fetch('/api/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rowNumbers: pendingOnly ? undefined : rowNumbers,
+          pendingOnly,
+          concurrency
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start batch')
+      }
+
+      setActiveJob(result.job)
+      setSelectedRows({})
+      await loadJobs()
+    } catch (error) {
+      alert(`Failed to start batch: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const updateJob = async (id: string, action: 'pause' | 'resume' | 'cancel', retryFailed: boolean = false) => {
+    try {
+      const response = await fetch(`/api/batch/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, retryFailed })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} batch`)
+      }
+
+      setActiveJob(result.job)
+      await loadJobs()
+    } catch (error) {
+      alert(`Failed to ${action} batch: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const selectedCount = rows.filter(row => selectedRows[row.rowNumber]).length
+
+  return (
+    <div className="space-y-8">
+      {!authenticated && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+          <strong>Authentication Required:</strong> Authenticate with Google on the Text Generation tab before running batches.
+        </div>
+      )}
+
+      {/* Keyword Selection */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">Keywords</h2>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">
+              Concurrency
+              <input
+                type="number"
+                min={1}
+                max={5}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 5))}
+                className="ml-2 w-16 px-2 py-1 border border-gray-300 rounded-md"
+              />
+            </label>
+            <button
+              onClick={loadRows}
+              disabled={!authenticated || loadingRows}
+              className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loadingRows ? 'Loading...' : 'Load Sheet Rows'}
+            </button>
+            <button
+              onClick={() => startBatch(false)}
+              disabled={!authenticated || starting || selectedCount === 0}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Run Selected ({selectedCount})
+            </button>
+            <button
+              onClick={() => startBatch(true)}
+              disabled={!authenticated || starting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Run All Without Output
+            </button>
+          </div>
+        </div>
+
+        {rows.length > 0 && (
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="p-2 text-left">
+                    <input
+                      type="checkbox"
+                      checked={selectedCount === rows.length}
+                      onChange={(e) => {
+                        const next: Record<number, boolean> = {}
+                        rows.forEach(row => { next[row.rowNumber] = e.target.checked })
+                        setSelectedRows(next)
+                      }}
+                    />
+                  </th>
+                  <th className="p-2 text-left">Row</th>
+                  <th className="p-2 text-left">Keyword</th>
+                  <th className="p-2 text-left">Competitors</th>
+                  <th className="p-2 text-left">Output</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.rowNumber} className="border-t border-gray-100">
+                    <td className="p-2">
+                      <input
+                        type="checkbox"
+                        checked={!!selectedRows[row.rowNumber]}
+                        onChange={(e) => setSelectedRows(prev => ({ ...prev, [row.rowNumber]: e.target.checked }))}
+                      />
+                    </td>
+                    <td className="p-2 text-gray-500">{row.rowNumber}</td>
+                    <td className="p-2">{row.keyword}</td>
+                    <td className="p-2 text-gray-500">{row.competitorUrls.length}</td>
+                    <td className="p-2">
+                      {row.hasOutput
+                        ? <span className="text-green-600">Generated</span>
+                        : <span className="text-gray-400">None</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Jobs */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">Batch Jobs</h2>
+        {jobs.length === 0 && <p className="text-sm text-gray-500">No batch jobs yet.</p>}
+        <div className="space-y-3">
+          {jobs.map(job => {
+            const done = job.counts.completed + job.counts.failed + job.counts.skipped
+            return (
+              <div key={job.id} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-800">{new Date(job.createdAt).toLocaleString()}</span>
+                    <span className="ml-2 text-gray-500">
+                      {job.status} · {done}/{job.total} done · {job.counts.failed} failed
+                    </span>
+                    {job.note && <span className="ml-2 text-orange-600">{job.note}</span>}
+                  </div>
+                  <div className="space-x-2">
+                    <button onClick={() => loadJob(job.id)} className="text-xs text-blue-600 hover:underline">
+                      Details
+                    </button>
+                    {job.status === 'running' && (
+                      <button onClick={() => updateJob(job.id, 'pause')} className="text-xs text-blue-600 hover:underline">
+                        Pause
+                      </button>
+                    )}
+                    {job.status === 'paused' && (
+                      <button onClick={() => updateJob(job.id, 'resume')} disabled={!authenticated} className="text-xs text-blue-600 hover:underline">
+                        Resume
+                      </button>
+                    )}
+                    {job.counts.failed > 0 && job.status !== 'running' && (
+                      <button onClick={() => updateJob(job.id, 'resume', true)} disabled={!authenticated} className="text-xs text-blue-600 hover:underline">
+                        Retry Failed
+                      </button>
+                    )}
+                    {(job.status === 'running' || job.status === 'paused' || job.status === 'queued') && (
+                      <button onClick={() => updateJob(job.id, 'cancel')} className="text-xs text-red-600 hover:underline">
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="mt-2 h-2 bg-gray-100 rounded">
+                  <div
+                    className="h-2 bg-green-500 rounded"
+                    style={{ width: `${job.total > 0 ? Math.round((done / job.total) * 100) : 0}%` }}
+                  />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Per-keyword Summary */}
+      {activeJob && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">
+            Job Results <span className="text-sm font-normal text-gray-500">({activeJob.status})</span>
+          </h2>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-2 text-left">Keyword</th>
+                <th className="p-2 text-left">Status</th>
+                <th className="p-2 text-left">Flow</th>
+                <th className="p-2 text-left">Fields</th>
+                <th className="p-2 text-left">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {activeJob.items.map((item, index) => (
+                <tr key={`${item.keyword}-${index}`} className="border-t border-gray-100 align-top">
+                  <td className="p-2">{item.keyword}</td>
+                  <td className={`p-2 ${
+                    item.status === 'completed' ? 'text-green-600' :
+                    item.status === 'failed' ? 'text-red-600' :
+                    item.status === 'running' ? 'text-blue-600' :
+                    'text-gray-500'
+                  }`}>
+                    {item.status}{item.status === 'running' && item.stage ? ` (${item.stage})` : ''}
+                  </td>
+                  <td className="p-2 text-gray-500">{item.flow || '-'}</td>
+                  <td className="p-2 text-gray-500">
+                    {item.fieldCount !== undefined ? `${item.successCount}/${item.fieldCount}` : '-'}
+                  </td>
+                  <td className="p-2 text-xs text-gray-500">
+                    {item.error && <div className="text-red-600">{item.error}</div>}
+                    {item.writtenBack && <div className="text-green-600">Written to sheet</div>}
+                    {item.writebackError && <div className="text-red-600">Sheet write-back: {item.writebackError}</div>}
+                    {item.fieldErrors && Object.entries(item.fieldErrors).map(([fieldId, error]) => (
+                      <div key={fieldId}>{fieldId}: {error}</div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,8 @@
+export async function register() {
+  // The checks use Node APIs, so they only run in the Node.js server runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { runStartupChecks } = await import('./lib/startupValidation');
+    // Not awaited: slow probes shouldn't delay the server accepting requests
+    void runStartupChecks();
+  }
+}
@@ -1,8 +1,10 @@
 /**
  * Global API Keys Configuration
- * Centralized management of all API keys and environment variables
+ * Kept for existing callers; values come from the typed config in lib/config.ts
  */
 
+import { ENV_VAR_NAMES, EnvVarName, getConfig, validateConfig } from './config';
+
 export interface ApiKeys {
   anthropic: {
     apiKey: string;
@@ -26,57 +28,38 @@ export interface ApiKeys {
 
 /**
  * Validates and returns all API keys from environment variables
- * Throws an error if any required keys are missing
+ * Throws an error if the configuration is invalid (see validateConfig)
  */
 export function getApiKeys(): ApiKeys {
-  const requiredKeys = {
+  const validation = validateConfig();
+  if (!validation.isValid) {
+    throw new Error(
+      `Invalid configuration:\n${validation.errors.join('\n')}\n` +
+      'Please check your .env.local file and ensure all required keys are set.'
+    );
+  }
+
+  const config = getConfig();
+  return {
     anthropic: {
-      apiKey: process.env.ANTHROPIC_API_KEY || '',
-      model: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
+      apiKey: config.llm.anthropicApiKey || '',
+      model: config.llm.anthropicModel,
     },
     freepik: {
-      apiKey: process.env.FREEPIK_API_KEY || '',
-      webhookSecret: process.env.FREEPIK_WEBHOOK_SECRET || '',
-      imageModel: process.env.FREEPIK_IMAGE_MODEL || 'imagen nano banana',
-      aspectRatio: process.env.FREEPIK_ASPECT_RATIO || 'original',
+      apiKey: config.freepik.apiKey || '',
+      webhookSecret: config.freepik.webhookSecret || '',
+      imageModel: config.freepik.imageModel,
+      aspectRatio: config.freepik.aspectRatio,
     },
     google: {
-      docUrl: process.env.GOOGLE_DOC_URL || '',
+      docUrl: config.google.docUrl || '',
     },
     app: {
-      password: process.env.APP_PASSWORD,
-      originAllowlist: process.env.ORIGIN_ALLOWLIST,
-      publicUrl: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+      password: config.access.appPassword,
+      originAllowlist: config.access.originAllowlist.join(',') || undefined,
+      publicUrl: config.access.publicUrl,
     },
   };
-
-  // Validate required keys
-  const missingKeys: string[] = [];
-  
-  if (!requiredKeys.anthropic.apiKey) {
-    missingKeys.push('ANTHROPIC_API_KEY');
-  }
-  
-  if (!requiredKeys.freepik.apiKey) {
-    missingKeys.push('FREEPIK_API_KEY');
-  }
-  
-  if (!requiredKeys.freepik.webhookSecret) {
-    missingKeys.push('FREEPIK_WEBHOOK_SECRET');
-  }
-  
-  if (!requiredKeys.google.docUrl) {
-    missingKeys.push('GOOGLE_DOC_URL');
-  }
-
-  if (missingKeys.length > 0) {
-    throw new Error(
-      `Missing required environment variables: ${missingKeys.join(', ')}\n` +
-      'Please check your .env.local file and ensure all required keys are set.'
-    );
-  }
-
-  return requiredKeys;
 }
 
 /**
@@ -115,19 +98,9 @@ export function getApiKey(keyName: keyof ApiKeys, subKey?: string): string | und
 }
 
 /**
- * Environment variable names for reference
+ * Environment variable names for reference, generated from the config schema
  */
-export const ENV_VARS = {
-  ANTHROPIC_API_KEY: 'ANTHROPIC_API_KEY',
-  ANTHROPIC_MODEL: 'ANTHROPIC_MODEL',
-  FREEPIK_API_KEY: 'FREEPIK_API_KEY',
-  FREEPIK_WEBHOOK_SECRET: 'FREEPIK_WEBHOOK_SECRET',
-  FREEPIK_IMAGE_MODEL: 'FREEPIK_IMAGE_MODEL',
-  FREEPIK_ASPECT_RATIO: 'FREEPIK_ASPECT_RATIO',
-  GOOGLE_DOC_URL: 'GOOGLE_DOC_URL',
-  APP_PASSWORD: 'APP_PASSWORD',
-  ORIGIN_ALLOWLIST: 'ORIGIN_ALLOWLIST',
-  NEXT_PUBLIC_APP_URL: 'NEXT_PUBLIC_APP_URL',
-} as const;
-
-
+export const ENV_VARS = ENV_VAR_NAMES.reduce((names, name) => {
+  names[name] = name;
+  return names;
+}, {} as Record<EnvVarName, string>) as { readonly [K in EnvVarName]: K };
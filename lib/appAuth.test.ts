@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { isOriginAllowed, isOriginListed } from './appAuth';
+
+const saved = process.env.ORIGIN_ALLOWLIST;
+
+afterEach(() => {
+  if (saved === undefined) delete process.env.ORIGIN_ALLOWLIST;
+  else process.env.ORIGIN_ALLOWLIST = saved;
+});
+
+describe('origin checks', () => {
+  it('lets any origin through an empty allowlist without listing it for CORS', () => {
+    delete process.env.ORIGIN_ALLOWLIST;
+    expect(isOriginAllowed('https://evil.example', 'app.example.com')).toBe(true);
+    expect(isOriginListed('https://evil.example')).toBe(false);
+  });
+
+  it('allows and lists only the hosts in the allowlist', () => {
+    process.env.ORIGIN_ALLOWLIST = 'localhost:3000,https://partner.example.com';
+    expect(isOriginListed('https://partner.example.com')).toBe(true);
+    expect(isOriginListed('http://localhost:3000')).toBe(true);
+    expect(isOriginAllowed('https://evil.example', 'app.example.com')).toBe(false);
+    expect(isOriginListed('https://evil.example')).toBe(false);
+    expect(isOriginAllowed('https://app.example.com', 'app.example.com')).toBe(true);
+    expect(isOriginListed('not a url')).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * App-level access control: APP_PASSWORD login and ORIGIN_ALLOWLIST checks
+ * Used by middleware.ts, so this module must stay Edge-compatible (Web Crypto only, no Node APIs).
+ */
+
+import { getConfig } from './config';
+
+export const APP_AUTH_COOKIE = 'wa_app';
+
+// Logins last 7 days; changing APP_PASSWORD invalidates every existing login
+export const APP_AUTH_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+export interface AccessError {
+  error: string;
+  code: 'unauthorized' | 'forbidden_origin' | 'forbidden_role';
+}
+
+export function getAppPassword(): string | undefined {
+  return getConfig().access.appPassword;
+}
+
+export function isPasswordProtected(): boolean {
+  return !!getAppPassword();
+}
+
+/**
+ * Parses ORIGIN_ALLOWLIST into lowercase hosts
+ * Entries may be bare hosts ("localhost:3000") or full origins ("https://example.com")
+ */
+export function getOriginAllowlist(): string[] {
+  return getConfig().access.originAllowlist
+    .map(entry => entry.replace(/^[a-z]+:\/\//, '').replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+function originHost(origin: string): string | null {
+  try {
+    return new URL(origin).host.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Same-origin requests are always allowed; cross-origin ones need a listed host
+ * An empty allowlist leaves origins unrestricted
+ */
+export function isOriginAllowed(origin: string, requestHost: string): boolean {
+  const host = originHost(origin);
+  if (!host) return false;
+  if (host === requestHost.toLowerCase()) return true;
+
+  const allowlist = getOriginAllowlist();
+  return allowlist.length === 0 || allowlist.indexOf(host) !== -1;
+}
+
+/**
+ * Whether the origin's host is named in ORIGIN_ALLOWLIST
+ * Only listed origins get CORS headers; an empty allowlist lets requests through but shares no responses.
+ */
+export function isOriginListed(origin: string): boolean {
+  const host = originHost(origin);
+  return !!host && getOriginAllowlist().indexOf(host) !== -1;
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = '';
+  const view = new Uint8Array(bytes);
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function sign(payload: string, password: string): Promise<string> {
+  const encoder = new TextEncoder();
+  // SESSION_SECRET is mixed in when set so a leaked cookie can't be used to brute-force the password offline
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(`${getConfig().session.secret || ''}:${password}`),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+// Compares every character so the time taken doesn't reveal how much of the value matched
+function safeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+export function checkAppPassword(input: unknown): boolean {
+  const password = getAppPassword();
+  return !!password && typeof input === 'string' && safeEqual(input, password);
+}
+
+/**
+ * Creates the signed login cookie value: "<expiry>.<hmac>"
+ */
+export async function createAppSessionToken(): Promise<string> {
+  const password = getAppPassword();
+  if (!password) {
+    throw new Error('APP_PASSWORD is not configured');
+  }
+
+  const expiresAt = String(Date.now() + APP_AUTH_MAX_AGE_SECONDS * 1000);
+  return `${expiresAt}.${await sign(expiresAt, password)}`;
+}
+
+export async function verifyAppSessionToken(token: string | undefined): Promise<boolean> {
+  const password = getAppPassword();
+  if (!password || !token) return false;
+
+  const [expiresAt, signature] = token.split('.');
+  if (!expiresAt || !signature || Number(expiresAt) < Date.now()) return false;
+
+  return safeEqual(signature, await sign(expiresAt, password));
+}
@@ -0,0 +1,119 @@
+/**
+ * Per-user audit trail
+ * Records who classified, generated, processed images, ran batches, wrote back or published
+ * which keyword. Entries are appended to a JSON lines file (AUDIT_FILE).
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { getCurrentUser } from './auth/user';
+import { Role } from './auth/roles';
+import { getConfig } from './config';
+
+export type AuditAction = 'classify' | 'generate' | 'process_images' | 'batch' | 'writeback' | 'publish';
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  // Email of the signed-in user, or "anonymous" when accounts are off
+  actor: string;
+  role?: Role;
+  action: AuditAction;
+  keyword?: string;
+  // Short free-form context, e.g. the field generated or the post created
+  detail?: string;
+  ok: boolean;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  keyword?: string;
+  action?: AuditAction;
+  limit?: number;
+}
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+function auditFile(): string {
+  return path.resolve(process.cwd(), getConfig().accounts.auditFile);
+}
+
+/**
+ * Appends an entry without letting storage errors fail the request
+ */
+export async function recordAudit(entry: Omit<AuditEntry, 'id' | 'at'>): Promise<void> {
+  const line = `${JSON.stringify({ id: randomUUID(), at: new Date().toISOString(), ...entry })}\n`;
+
+  writeQueue = writeQueue
+    .then(async () => {
+      const file = auditFile();
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, line, 'utf8');
+    })
+    .catch(error => console.error('Audit: Failed to record entry:', error));
+
+  await writeQueue;
+}
+
+/**
+ * Records an action for the user making the request
+ */
+export async function auditRequest(
+  req: NextRequest,
+  action: AuditAction,
+  details: { keyword?: string; detail?: string; ok?: boolean } = {}
+): Promise<void> {
+  let user = null;
+  try {
+    user = await getCurrentUser(req);
+  } catch (error) {
+    console.error('Audit: Failed to resolve user:', error);
+  }
+
+  await recordAudit({
+    actor: user ? user.email : 'anonymous',
+    role: user?.role,
+    action,
+    keyword: details.keyword,
+    detail: details.detail,
+    ok: details.ok !== false
+  });
+}
+
+/**
+ * Entries matching the query, newest first
+ */
+export async function listAuditEntries(query: AuditQuery = {}): Promise<AuditEntry[]> {
+  await writeQueue;
+
+  let text: string;
+  try {
+    text = await fs.readFile(auditFile(), 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const actor = query.actor?.toLowerCase().trim();
+  const keyword = query.keyword?.toLowerCase().trim();
+  const entries: AuditEntry[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.warn('Audit: Skipping unreadable entry');
+    }
+  }
+
+  const matches = entries
+    .filter(entry => !actor || entry.actor.toLowerCase() === actor)
+    .filter(entry => !keyword || entry.keyword?.toLowerCase().trim() === keyword)
+    .filter(entry => !query.action || entry.action === query.action)
+    .sort((a, b) => b.at.localeCompare(a.at));
+
+  return query.limit && query.limit > 0 ? matches.slice(0, query.limit) : matches;
+}
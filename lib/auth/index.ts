@@ -0,0 +1,3 @@
+export * from './roles';
+export * from './types';
+export { getCurrentUser } from './user';
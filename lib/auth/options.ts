@@ -0,0 +1,51 @@
+import type { NextAuthOptions } from 'next-auth';
+import GoogleProvider from 'next-auth/providers/google';
+import { getConfig } from '../config';
+import { getRoleForEmail, isAllowedEmail } from './roles';
+import './types';
+
+/**
+ * NextAuth configuration for team sign-in with Google
+ * This only identifies the user; access to the Sheet and Doc still goes through
+ * the Google data session in lib/googleClient.ts.
+ */
+export const authOptions: NextAuthOptions = {
+  secret: getConfig().accounts.nextAuthSecret,
+  session: { strategy: 'jwt' },
+  providers: [
+    GoogleProvider({
+      clientId: getConfig().google.clientId || '',
+      clientSecret: getConfig().google.clientSecret || ''
+    })
+  ],
+  pages: {
+    signIn: '/login',
+    error: '/login'
+  },
+  callbacks: {
+    async signIn({ user, profile }) {
+      // Google marks unverified addresses; those can't prove they belong to an allowed domain
+      const verified = (profile as { email_verified?: boolean } | undefined)?.email_verified !== false;
+      if (!verified || !isAllowedEmail(user.email)) {
+        console.warn(`Auth: Rejected sign-in for ${user.email || 'unknown email'}`);
+        return false;
+      }
+      return true;
+    },
+    async jwt({ token }) {
+      // Stored for the client; middleware and routes recompute it from the email via getCurrentUser
+      if (token.email) {
+        token.role = getRoleForEmail(token.email);
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      session.user = {
+        email: token.email || '',
+        name: token.name || undefined,
+        role: token.role || 'editor'
+      };
+      return session;
+    }
+  }
+};
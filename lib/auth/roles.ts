@@ -0,0 +1,95 @@
+/**
+ * Team accounts: who may sign in and what each role can do
+ * Imported by middleware.ts, so this module must stay Edge-compatible.
+ *
+ *   AUTH_ALLOWED_DOMAINS=example.com        Google accounts on these domains may sign in
+ *   AUTH_ALLOWED_EMAILS=a@x.com,b@y.com     plus these individual addresses
+ *   AUTH_ADMIN_EMAILS / AUTH_REVIEWER_EMAILS role assignments; everyone else gets AUTH_DEFAULT_ROLE
+ *
+ * Accounts are turned on by setting either allowlist; otherwise APP_PASSWORD (if any) still applies.
+ */
+
+import { getConfig } from '../config';
+
+export type Role = 'editor' | 'reviewer' | 'admin';
+
+export type Permission = 'view' | 'generate' | 'publish' | 'admin';
+
+export const ROLES: Role[] = ['editor', 'reviewer', 'admin'];
+
+// Editors produce content, reviewers publish it, admins do both and manage the tool
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  editor: ['view', 'generate'],
+  reviewer: ['view', 'publish'],
+  admin: ['view', 'generate', 'publish', 'admin']
+};
+
+interface RouteRule {
+  prefix: string;
+  methods?: string[];
+  permission: Permission;
+}
+
+// First match wins; API routes not listed only need 'view'
+const ROUTE_RULES: RouteRule[] = [
+  { prefix: '/api/audit', permission: 'admin' },
+  { prefix: '/api/debug', permission: 'admin' },
+  { prefix: '/api/history', methods: ['DELETE'], permission: 'admin' },
+  { prefix: '/api/publish', permission: 'publish' },
+  { prefix: '/api/batch', methods: ['POST'], permission: 'generate' },
+  { prefix: '/api/classify', permission: 'generate' },
+  { prefix: '/api/competitors', permission: 'generate' },
+  { prefix: '/api/prompts', permission: 'generate' },
+  { prefix: '/api/generate', permission: 'generate' },
+  { prefix: '/api/schema', permission: 'generate' },
+  { prefix: '/api/image', permission: 'generate' },
+  { prefix: '/api/page', permission: 'generate' },
+  { prefix: '/api/sheets/writeback', methods: ['POST'], permission: 'generate' }
+];
+
+export function isAccountsEnabled(): boolean {
+  const { allowedDomains, allowedEmails } = getConfig().accounts;
+  return allowedDomains.length > 0 || allowedEmails.length > 0;
+}
+
+export function isAllowedEmail(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const normalized = email.trim().toLowerCase();
+  const domain = normalized.split('@')[1];
+  const { allowedDomains, allowedEmails } = getConfig().accounts;
+
+  return allowedEmails.indexOf(normalized) !== -1
+    || (!!domain && allowedDomains.indexOf(domain) !== -1);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && ROLES.indexOf(value as Role) !== -1;
+}
+
+/**
+ * Role for an allowed email; admin assignments win over reviewer ones
+ */
+export function getRoleForEmail(email: string): Role {
+  const normalized = email.trim().toLowerCase();
+  const { adminEmails, reviewerEmails, defaultRole } = getConfig().accounts;
+
+  if (adminEmails.indexOf(normalized) !== -1) return 'admin';
+  if (reviewerEmails.indexOf(normalized) !== -1) return 'reviewer';
+
+  return defaultRole;
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].indexOf(permission) !== -1;
+}
+
+/**
+ * Permission needed to call an API route
+ */
+export function getRequiredPermission(pathname: string, method: string): Permission {
+  const rule = ROUTE_RULES.find(candidate =>
+    pathname.startsWith(candidate.prefix)
+    && (!candidate.methods || candidate.methods.indexOf(method.toUpperCase()) !== -1)
+  );
+  return rule ? rule.permission : 'view';
+}
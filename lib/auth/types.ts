@@ -0,0 +1,20 @@
+import { Role } from './roles';
+
+export interface AppUser {
+  email: string;
+  name?: string;
+  role: Role;
+}
+
+// Adds the role to NextAuth's session and JWT types
+declare module 'next-auth' {
+  interface Session {
+    user: AppUser;
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    role?: Role;
+  }
+}
@@ -0,0 +1,24 @@
+import { getToken } from 'next-auth/jwt';
+import { NextRequest } from 'next/server';
+import { getConfig } from '../config';
+import { getRoleForEmail, isAccountsEnabled, isAllowedEmail } from './roles';
+import { AppUser } from './types';
+
+/**
+ * Signed-in team member for a request, or null when accounts are off or nobody is signed in
+ * The role is recomputed from the allowlists so removing someone takes effect immediately.
+ * Edge-compatible, so middleware.ts uses it too.
+ */
+export async function getCurrentUser(req: NextRequest): Promise<AppUser | null> {
+  if (!isAccountsEnabled()) return null;
+
+  const token = await getToken({ req, secret: getConfig().accounts.nextAuthSecret });
+  if (!token?.email || !isAllowedEmail(token.email)) return null;
+
+  return {
+    email: token.email,
+    name: token.name || undefined,
+    role: getRoleForEmail(token.email)
+  };
+}
+
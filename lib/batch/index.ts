@@ -0,0 +1,21 @@
+/**
+ * Batch keyword runs
+ *
+ * Keywords selected from the competitor sheet are classified, matched with their
+ * competitor URLs and fully generated in a background queue. Jobs are saved to
+ * BATCH_DIR after every step so they can be resumed after a restart.
+ */
+
+export * from './types';
+export {
+  cancelBatchJob,
+  createBatchJob,
+  getJob,
+  listJobs,
+  pauseBatchJob,
+  resumeBatchJob,
+  summarizeJob,
+  DEFAULT_CONCURRENCY,
+  MAX_CONCURRENCY
+} from './runner';
+export type { BatchKeywordInput } from './runner';
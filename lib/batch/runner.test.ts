@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getSessionAccessToken } from '../googleClient';
+import { getJob, resumeBatchJob } from './runner';
+import { BatchJob } from './types';
+
+// Jobs live in memory, and every keyword fails at the token check so no Google or LLM call is made
+const saved = new Map<string, string>();
+vi.mock('./store', () => ({
+  saveJob: vi.fn(async (job: BatchJob) => { saved.set(job.id, JSON.stringify(job)); }),
+  loadJob: vi.fn(async (id: string) => (saved.has(id) ? JSON.parse(saved.get(id)!) : null)),
+  loadAllJobs: vi.fn(async () => Array.from(saved.values()).map(job => JSON.parse(job)))
+}));
+vi.mock('../googleClient', () => ({
+  getSessionAccessToken: vi.fn(async () => {
+    await new Promise(resolve => setTimeout(resolve, 10));
+    return null;
+  })
+}));
+vi.mock('../audit', () => ({ recordAudit: vi.fn(async () => undefined) }));
+
+function pausedJob(keywords: string[]): BatchJob {
+  const now = new Date().toISOString();
+  return {
+    id: 'job-1',
+    status: 'paused',
+    concurrency: 1,
+    createdAt: now,
+    updatedAt: now,
+    items: keywords.map(keyword => ({ keyword, status: 'pending' }))
+  };
+}
+
+describe('resumeBatchJob', () => {
+  it('starts one set of workers when two resumes arrive together', async () => {
+    saved.set('job-1', JSON.stringify(pausedJob(['junk removal', 'junk removal boise', 'dumpster rental'])));
+
+    const [first, second] = await Promise.all([
+      resumeBatchJob('job-1', 'session'),
+      resumeBatchJob('job-1', 'session')
+    ]);
+    expect(second).toBe(first);
+
+    for (let attempt = 0; attempt < 100 && (await getJob('job-1'))?.status === 'running'; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    const job = await getJob('job-1');
+    expect(job?.status).toBe('completed');
+    expect(job?.items.map(item => item.status)).toEqual(['failed', 'failed', 'failed']);
+    expect(getSessionAccessToken).toHaveBeenCalledTimes(3);
+  });
+});
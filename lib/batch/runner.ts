@@ -0,0 +1,343 @@
+import { randomUUID } from 'crypto';
+import { recordAudit } from '../audit';
+import { getConfig } from '../config';
+import { isFlow } from '../fields';
+import { generatePage } from '../generation';
+import { detectCategoryFromDoc } from '../googleDoc';
+import { getCompetitorUrlsFromSheets } from '../googleSheets';
+import { isWritebackEnabled, writeGeneratedContent } from '../googleSheetsWriteback';
+import { getSessionAccessToken } from '../googleClient';
+import { createRunId } from '../history';
+import { loadAllJobs, loadJob, saveJob } from './store';
+import { BatchItem, BatchItemStatus, BatchJob, BatchJobSummary } from './types';
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 5;
+
+export interface BatchKeywordInput {
+  keyword: string;
+  rowNumber?: number;
+  competitorUrls?: string[];
+}
+
+// Jobs being processed by this server process; saved copies are only a snapshot
+const activeJobs = new Map<string, BatchJob>();
+
+// Session ids are kept in memory only, never written to job files; tokens are
+// resolved per keyword so long jobs pick up refreshed tokens
+const jobSessions = new Map<string, string>();
+
+// Saves for the same job are chained so an older snapshot never overwrites a newer one
+const saveQueues = new Map<string, Promise<void>>();
+
+// Resume requests for the same job run one after the other, so only one of them starts workers
+const resumeLocks = new Map<string, Promise<unknown>>();
+
+let recovered = false;
+
+function persist(job: BatchJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  const snapshot: BatchJob = JSON.parse(JSON.stringify(job));
+  const previous = saveQueues.get(job.id) || Promise.resolve();
+  const next = previous
+    .then(() => saveJob(snapshot))
+    .catch(error => console.error(`Batch: Failed to save job ${job.id}:`, error));
+  saveQueues.set(job.id, next);
+  return next;
+}
+
+function withResumeLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = resumeLocks.get(id) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  resumeLocks.set(id, next);
+  next.finally(() => {
+    if (resumeLocks.get(id) === next) resumeLocks.delete(id);
+  }).catch(() => undefined);
+  return next;
+}
+
+function clampConcurrency(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value || getConfig().batch.concurrency), 10);
+  if (isNaN(parsed)) return DEFAULT_CONCURRENCY;
+  return Math.min(Math.max(Math.floor(parsed), 1), MAX_CONCURRENCY);
+}
+
+export function summarizeJob(job: BatchJob): BatchJobSummary {
+  const counts: Record<BatchItemStatus, number> = { pending: 0, running: 0, completed: 0, failed: 0, skipped: 0 };
+  for (const item of job.items) {
+    counts[item.status]++;
+  }
+
+  return {
+    id: job.id,
+    status: job.status,
+    note: job.note,
+    createdBy: job.createdBy,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    total: job.items.length,
+    counts
+  };
+}
+
+/**
+ * Marks jobs left "running" by a previous process as paused so they can be resumed
+ * Runs once per process, before jobs are listed or started
+ */
+async function recoverInterruptedJobs(): Promise<void> {
+  if (recovered) return;
+  recovered = true;
+
+  for (const job of await loadAllJobs()) {
+    if ((job.status !== 'running' && job.status !== 'queued') || activeJobs.has(job.id)) continue;
+
+    // Work in flight when the process stopped is redone from the start of that keyword
+    for (const item of job.items) {
+      if (item.status === 'running') {
+        item.status = 'pending';
+        item.stage = undefined;
+      }
+    }
+    job.status = 'paused';
+    job.note = 'Interrupted by a server restart. Resume to continue.';
+    await persist(job);
+    console.log(`Batch: Recovered interrupted job ${job.id}`);
+  }
+}
+
+export async function listJobs(): Promise<BatchJobSummary[]> {
+  await recoverInterruptedJobs();
+  const jobs = await loadAllJobs();
+  return jobs.map(job => summarizeJob(activeJobs.get(job.id) || job));
+}
+
+export async function getJob(id: string): Promise<BatchJob | null> {
+  await recoverInterruptedJobs();
+  return activeJobs.get(id) || loadJob(id);
+}
+
+async function processItem(item: BatchItem, sessionId: string): Promise<void> {
+  const accessToken = await getSessionAccessToken(sessionId);
+  if (!accessToken) {
+    throw new Error('Google session expired. Please authenticate with Google again.');
+  }
+
+  // 1. Classify against the Google Doc, the same way /api/classify does
+  item.stage = 'classify';
+  const { docUrl, docId } = getConfig().google;
+  if (!docUrl && !docId) {
+    throw new Error('Google Doc URL not configured');
+  }
+  const classification = await detectCategoryFromDoc(docUrl || '', item.keyword, accessToken);
+  if (!isFlow(classification.category)) {
+    throw new Error(`Classification failed: ${classification.reason}`);
+  }
+  item.flow = classification.category;
+
+  // 2. Competitor URLs from column H, unless they came with the selected row
+  item.stage = 'competitors';
+  if (!item.competitorUrls) {
+    const competitors = await getCompetitorUrlsFromSheets(item.keyword, accessToken);
+    item.competitorUrls = competitors.found ? competitors.competitorUrls : [];
+  }
+
+  // 3. Every field for the flow; outputs are recorded in history under the run id
+  item.stage = 'generate';
+  item.runId = createRunId();
+  const page = await generatePage({
+    keyword: item.keyword,
+    flow: classification.category,
+    accessToken,
+    competitorUrls: item.competitorUrls,
+    subtopics: classification.subtopics,
+    runId: item.runId
+  });
+
+  item.fieldCount = Object.keys(page.fields).length + Object.keys(page.errors).length;
+  item.successCount = Object.keys(page.fields).length;
+  item.fieldErrors = Object.keys(page.errors).length > 0 ? page.errors : undefined;
+
+  if (item.successCount === 0) {
+    throw new Error('No fields were generated');
+  }
+
+  // 4. Optional write-back so the content team can review in the sheet
+  if (isWritebackEnabled()) {
+    const errorCount = Object.keys(page.errors).length;
+    const writeback = await writeGeneratedContent(
+      item.keyword,
+      page.fields,
+      accessToken,
+      errorCount > 0 ? `Partial (${errorCount} failed)` : 'Generated',
+      item.rowNumber
+    );
+    item.writtenBack = writeback.ok;
+    item.writebackError = writeback.error;
+  }
+}
+
+// Status is changed by pause/cancel requests while workers run, so it is re-read through a function
+function isPaused(job: BatchJob): boolean {
+  return job.status === 'paused';
+}
+
+async function runJob(job: BatchJob): Promise<void> {
+  activeJobs.set(job.id, job);
+  job.status = 'running';
+  job.note = undefined;
+  await persist(job);
+  console.log(`Batch: Starting job ${job.id} (${job.items.length} keywords, concurrency ${job.concurrency})`);
+
+  const worker = async () => {
+    while (job.status === 'running') {
+      const item = job.items.find(candidate => candidate.status === 'pending');
+      if (!item) return;
+
+      item.status = 'running';
+      item.startedAt = new Date().toISOString();
+      item.error = undefined;
+      await persist(job);
+
+      try {
+        await processItem(item, jobSessions.get(job.id) || '');
+        item.status = 'completed';
+      } catch (error) {
+        console.error(`Batch: "${item.keyword}" failed:`, error);
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+      item.completedAt = new Date().toISOString();
+      await persist(job);
+      await recordAudit({
+        actor: job.createdBy || 'anonymous',
+        action: 'generate',
+        keyword: item.keyword,
+        detail: `batch ${job.id}`,
+        ok: item.status === 'completed'
+      });
+    }
+  };
+
+  try {
+    // Loop in case the job was paused and resumed while its last workers were finishing
+    do {
+      await Promise.all(Array.from({ length: job.concurrency }, () => worker()));
+    } while (job.status === 'running' && job.items.some(item => item.status === 'pending'));
+
+    if (job.status === 'running') {
+      job.status = 'completed';
+    }
+  } finally {
+    activeJobs.delete(job.id);
+    // Paused jobs keep their session so they can be resumed without signing in again
+    if (!isPaused(job)) {
+      jobSessions.delete(job.id);
+    }
+    await persist(job);
+    console.log(`Batch: Job ${job.id} ${job.status}`);
+  }
+}
+
+/**
+ * Creates a job for the given keywords and starts it in the background
+ */
+export async function createBatchJob(
+  keywords: BatchKeywordInput[],
+  sessionId: string,
+  concurrency?: number,
+  createdBy?: string
+): Promise<BatchJob> {
+  await recoverInterruptedJobs();
+
+  const now = new Date().toISOString();
+  const job: BatchJob = {
+    id: randomUUID(),
+    status: 'queued',
+    concurrency: clampConcurrency(concurrency),
+    items: keywords.map(input => ({
+      keyword: input.keyword,
+      rowNumber: input.rowNumber,
+      competitorUrls: input.competitorUrls,
+      status: 'pending'
+    })),
+    createdBy,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await persist(job);
+  jobSessions.set(job.id, sessionId);
+  runJob(job).catch(error => console.error(`Batch: Job ${job.id} crashed:`, error));
+
+  return job;
+}
+
+/**
+ * Resumes a paused job; failed keywords are retried when retryFailed is set
+ * runJob marks the job active before its first await, so a resume queued behind this one
+ * finds the running copy instead of starting a second set of workers.
+ */
+export function resumeBatchJob(
+  id: string,
+  sessionId: string,
+  retryFailed: boolean = false
+): Promise<BatchJob | null> {
+  return withResumeLock(id, async () => {
+    const job = await getJob(id);
+    if (!job) return null;
+    if (activeJobs.has(id) && job.status === 'running') return job;
+
+    for (const item of job.items) {
+      if (retryFailed && item.status === 'failed') {
+        item.status = 'pending';
+      }
+    }
+
+    jobSessions.set(id, sessionId);
+    // A paused job may still be finishing its in-flight keywords; flipping it back keeps its workers going
+    if (activeJobs.has(id)) {
+      job.status = 'running';
+      await persist(job);
+      return job;
+    }
+
+    runJob(job).catch(error => console.error(`Batch: Job ${job.id} crashed:`, error));
+    return job;
+  });
+}
+
+/**
+ * Stops picking up new keywords; keywords already running are allowed to finish
+ */
+export async function pauseBatchJob(id: string): Promise<BatchJob | null> {
+  const job = await getJob(id);
+  if (!job) return null;
+
+  if (job.status === 'running' || job.status === 'queued') {
+    job.status = 'paused';
+    job.note = 'Paused';
+    await persist(job);
+  }
+  return job;
+}
+
+/**
+ * Skips every keyword that hasn't started
+ */
+export async function cancelBatchJob(id: string): Promise<BatchJob | null> {
+  const job = await getJob(id);
+  if (!job) return null;
+
+  if (job.status !== 'completed' && job.status !== 'cancelled') {
+    for (const item of job.items) {
+      if (item.status === 'pending') {
+        item.status = 'skipped';
+      }
+    }
+    job.status = 'cancelled';
+    job.note = undefined;
+    jobSessions.delete(id);
+    await persist(job);
+  }
+  return job;
+}
@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getConfig } from '../config';
+import { BatchJob } from './types';
+
+function batchDir(): string {
+  return path.resolve(process.cwd(), getConfig().batch.dir);
+}
+
+function jobPath(id: string): string {
+  // Job ids are generated UUIDs; reject anything that could escape the directory
+  if (!/^[a-zA-Z0-9-]+$/.test(id)) {
+    throw new Error(`Invalid batch job id "${id}"`);
+  }
+  return path.join(batchDir(), `${id}.json`);
+}
+
+/**
+ * Writes a job to disk
+ * The file is replaced atomically so a crash mid-write never leaves a truncated job
+ */
+export async function saveJob(job: BatchJob): Promise<void> {
+  const file = jobPath(job.id);
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(job, null, 2), 'utf8');
+  await fs.rename(temp, file);
+}
+
+export async function loadJob(id: string): Promise<BatchJob | null> {
+  try {
+    return JSON.parse(await fs.readFile(jobPath(id), 'utf8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Loads every saved job, newest first
+ */
+export async function loadAllJobs(): Promise<BatchJob[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(batchDir());
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const jobs: BatchJob[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      jobs.push(JSON.parse(await fs.readFile(path.join(batchDir(), file), 'utf8')));
+    } catch (error) {
+      console.warn(`Batch: Skipping unreadable job file ${file}`);
+    }
+  }
+
+  return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
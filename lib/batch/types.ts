@@ -0,0 +1,55 @@
+/**
+ * Shared types for batch keyword runs
+ */
+
+export type BatchJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'cancelled';
+
+export type BatchItemStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export type BatchStage = 'classify' | 'competitors' | 'generate';
+
+export interface BatchItem {
+  keyword: string;
+  // Row in the competitor sheet the keyword came from
+  rowNumber?: number;
+  status: BatchItemStatus;
+  stage?: BatchStage;
+  flow?: string;
+  // Taken from column H when the row was selected; looked up again if missing
+  competitorUrls?: string[];
+  // History run id for the generated fields
+  runId?: string;
+  fieldCount?: number;
+  successCount?: number;
+  fieldErrors?: Record<string, string>;
+  // Set when sheet write-back is enabled
+  writtenBack?: boolean;
+  writebackError?: string;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  concurrency: number;
+  items: BatchItem[];
+  // Why the job stopped, e.g. interrupted by a restart
+  note?: string;
+  // Email of the user who started the job, when team accounts are on
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BatchJobSummary {
+  id: string;
+  status: BatchJobStatus;
+  note?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  total: number;
+  counts: Record<BatchItemStatus, number>;
+}
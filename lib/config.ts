@@ -0,0 +1,715 @@
+/**
+ * Application configuration
+ *
+ * Every environment variable the app reads is declared once in ENV_SCHEMA with its
+ * type, default and the feature it belongs to. Modules read typed values through
+ * getConfig() instead of process.env; validateConfig() applies the per-feature
+ * requirements, and the startup check and debug page are generated from the same schema.
+ *
+ * Edge-compatible (middleware.ts reads access settings), so no Node APIs here.
+ */
+
+export type ConfigValueType = 'string' | 'secret' | 'url' | 'number' | 'list' | 'enum';
+
+export type ConfigFeature =
+  | 'llm'
+  | 'classification'
+  | 'google'
+  | 'images'
+  | 'wordpress'
+  | 'schema'
+  | 'history'
+  | 'batch'
+  | 'writeback'
+  | 'sessions'
+  | 'access'
+  | 'accounts'
+  | 'health';
+
+export interface EnvVarSpec {
+  type: ConfigValueType;
+  feature: ConfigFeature;
+  description: string;
+  default?: string;
+  // Older spellings still accepted, e.g. GOOGLE-DOC-ID
+  aliases?: string[];
+  // Allowed values for enums and for each entry of a list
+  values?: string[];
+  // Bounds for numbers and for each entry of a numeric list
+  min?: number;
+  max?: number;
+  // Logged at startup when the variable is unset
+  unsetWarning?: string;
+}
+
+const DEFAULT_SHEET_ID = '1iFmNPkM4OuxZDpP43Z45-Fs-imENfxz-t0EaNfPbFsc';
+
+export const ENV_SCHEMA = {
+  // LLM providers
+  OPENAI_API_KEY: { type: 'secret', feature: 'llm', description: 'OpenAI API key' },
+  OPENAI_MODEL: { type: 'string', feature: 'llm', description: 'Default OpenAI model', default: 'gpt-4o' },
+  ANTHROPIC_API_KEY: { type: 'secret', feature: 'llm', description: 'Anthropic API key' },
+  ANTHROPIC_MODEL: {
+    type: 'string',
+    feature: 'llm',
+    description: 'Default Anthropic model',
+    default: 'claude-3-5-sonnet-20241022',
+    unsetWarning: 'ANTHROPIC_MODEL not set - using default model'
+  },
+  LLM_PROVIDER: { type: 'string', feature: 'llm', description: 'Default provider, provider:model, or alternatives joined with "|"', default: 'openai' },
+  LLM_FIELD_PROVIDERS: { type: 'string', feature: 'llm', description: 'Per-field overrides, e.g. faq=anthropic,title=openai:gpt-4o-mini' },
+
+  // Keyword classification
+  GOOGLE_DOC_URL: { type: 'url', feature: 'classification', description: 'Published URL of the classification Google Doc' },
+  GOOGLE_DOC_ID: { type: 'string', feature: 'classification', description: 'Classification Doc ID, read through the Docs API', aliases: ['GOOGLE-DOC-ID'] },
+
+  // Google Sheets and OAuth
+  GOOGLE_CLIENT_ID: { type: 'string', feature: 'google', description: 'OAuth client ID' },
+  GOOGLE_CLIENT_SECRET: { type: 'secret', feature: 'google', description: 'OAuth client secret' },
+  GOOGLE_SHEET_ID: { type: 'string', feature: 'google', description: 'Spreadsheet with keywords, competitors and prompts', default: DEFAULT_SHEET_ID },
+  GOOGLE_SHEETS_API_KEY: { type: 'secret', feature: 'google', description: 'API key for reading public sheets without OAuth' },
+  GOOGLE_ACCESS_TOKEN: { type: 'secret', feature: 'google', description: 'Pre-authenticated access token (development)' },
+  GOOGLE_REFRESH_TOKEN: { type: 'secret', feature: 'google', description: 'Pre-authenticated refresh token (development)' },
+  DEFAULT_LOGIN_EMAIL: { type: 'string', feature: 'google', description: 'Account suggested on the Google consent screen', default: 'allusers@topshelfpros.com' },
+
+  // Image processing
+  FREEPIK_API_KEY: { type: 'secret', feature: 'images', description: 'Freepik API key' },
+  FREEPIK_WEBHOOK_SECRET: { type: 'secret', feature: 'images', description: 'Secret for verifying Freepik webhooks' },
+  FREEPIK_API_URL: { type: 'url', feature: 'images', description: 'Freepik API base URL; point at scripts/freepik-stub.js locally', default: 'https://api.freepik.com' },
+  FREEPIK_WEBHOOK_URL: { type: 'url', feature: 'images', description: 'URL Freepik posts results to (default: NEXT_PUBLIC_APP_URL/api/webhooks/freepik)' },
+  IMAGE_JOBS_DIR: { type: 'string', feature: 'images', description: 'Directory for image job files', default: 'data/image-jobs' },
+  IMAGE_BATCH_CONCURRENCY: { type: 'number', feature: 'images', description: 'Images of a "Process all" batch at Freepik at once', default: '2', min: 1, max: 10 },
+  IMAGE_JOB_TIMEOUT_MS: { type: 'number', feature: 'images', description: 'How long a Freepik job may run before it is marked failed', default: '600000', min: 60000, max: 3600000 },
+  FREEPIK_IMAGE_MODEL: {
+    type: 'string',
+    feature: 'images',
+    description: 'Freepik image model',
+    default: 'imagen nano banana',
+    unsetWarning: 'FREEPIK_IMAGE_MODEL not set - using default model'
+  },
+  FREEPIK_ASPECT_RATIO: {
+    type: 'string',
+    feature: 'images',
+    description: 'Aspect ratio requested from Freepik',
+    default: 'auto',
+    unsetWarning: 'FREEPIK_ASPECT_RATIO not set - using default aspect ratio'
+  },
+
+  // Image metadata
+  IMAGE_ALT_TEXT: { type: 'enum', feature: 'images', description: 'Alt text from a vision model, or keyword/location/title only', values: ['ai', 'fallback'], default: 'ai' },
+  IMAGE_ARTIST: { type: 'string', feature: 'images', description: 'EXIF/XMP artist (creator) of processed images' },
+  IMAGE_COPYRIGHT: { type: 'string', feature: 'images', description: 'EXIF/XMP copyright notice (default: © year BUSINESS_NAME)' },
+
+  // Responsive variants
+  IMAGE_WIDTHS: { type: 'list', feature: 'images', description: 'Widths of the responsive variants, in pixels', default: '400,800,1200,1600', min: 100, max: 4000 },
+  IMAGE_FORMATS: { type: 'list', feature: 'images', description: 'Variant formats; WebP is always produced', values: ['webp', 'avif'], default: 'webp,avif' },
+  IMAGE_MAX_KB: { type: 'number', feature: 'images', description: 'Size budget per variant; quality is lowered until it fits', default: '200', min: 10, max: 5000 },
+  IMAGE_WEBP_QUALITY: { type: 'number', feature: 'images', description: 'Starting WebP quality', default: '85', min: 1, max: 100 },
+  IMAGE_AVIF_QUALITY: { type: 'number', feature: 'images', description: 'Starting AVIF quality', default: '60', min: 1, max: 100 },
+  IMAGE_MIN_QUALITY: { type: 'number', feature: 'images', description: 'Lowest quality tried to meet IMAGE_MAX_KB', default: '40', min: 1, max: 100 },
+  IMAGE_BASE_URL: { type: 'url', feature: 'images', description: 'Prefix for srcset URLs in the <picture> snippet, e.g. the uploads folder' },
+
+  // Upload checks
+  IMAGE_MIN_SIZE: { type: 'number', feature: 'images', description: 'Shortest side an upload needs, in pixels (0 turns the check off)', default: '600', min: 0, max: 4000 },
+  IMAGE_BLUR_THRESHOLD: { type: 'number', feature: 'images', description: 'Sharpness (Laplacian variance) below which an upload counts as blurry (0 turns the check off)', default: '50', min: 0, max: 5000 },
+  IMAGE_DUPLICATE_DISTANCE: { type: 'number', feature: 'images', description: 'Most of the 64 perceptual hash bits two uploads may differ in and still count as duplicates', default: '6', min: 0, max: 20 },
+  IMAGE_REJECT: { type: 'list', feature: 'images', description: 'Upload checks that reject the image instead of warning; "none" only warns', values: ['low-resolution', 'blurry', 'duplicate', 'none'], default: 'low-resolution' },
+
+  // Frame compositing
+  IMAGE_FRAMES_DIR: { type: 'string', feature: 'images', description: 'Directory for uploaded frame templates', default: 'data/frames' },
+
+  // Geotagging
+  GEOTAG_PROFILES_FILE: { type: 'string', feature: 'images', description: 'JSON file of geotag location profiles' },
+  GEOTAG_SHEET_TAB: { type: 'string', feature: 'images', description: 'Sheet tab with geotag location profiles, e.g. Locations' },
+  GEOTAG_DEFAULT_PROFILE: { type: 'string', feature: 'images', description: 'Profile used when no keyword matches', default: 'treasure-valley' },
+  GEOTAG_MODE: { type: 'enum', feature: 'images', description: 'How a city is picked from a profile', values: ['random', 'round-robin'], default: 'random' },
+  GEOTAG_JITTER_METERS: { type: 'number', feature: 'images', description: 'Random offset applied to geotag coordinates', default: '0', min: 0, max: 5000 },
+
+  // WordPress publishing
+  WORDPRESS_URL: { type: 'url', feature: 'wordpress', description: 'WordPress site URL' },
+  WORDPRESS_USERNAME: { type: 'string', feature: 'wordpress', description: 'WordPress user for the application password' },
+  WORDPRESS_APP_PASSWORD: { type: 'secret', feature: 'wordpress', description: 'WordPress application password' },
+  WORDPRESS_POST_TYPE: { type: 'enum', feature: 'wordpress', description: 'Create drafts as pages or posts', values: ['pages', 'posts'], default: 'pages' },
+
+  // Schema markup
+  BUSINESS_NAME: { type: 'string', feature: 'schema', description: 'LocalBusiness name' },
+  BUSINESS_URL: { type: 'url', feature: 'schema', description: 'LocalBusiness URL' },
+  BUSINESS_PHONE: { type: 'string', feature: 'schema', description: 'LocalBusiness telephone' },
+  BUSINESS_PRICE_RANGE: { type: 'string', feature: 'schema', description: 'LocalBusiness price range, e.g. $$' },
+  BUSINESS_STREET: { type: 'string', feature: 'schema', description: 'Street address' },
+  BUSINESS_CITY: { type: 'string', feature: 'schema', description: 'City' },
+  BUSINESS_REGION: { type: 'string', feature: 'schema', description: 'State or region' },
+  BUSINESS_POSTAL_CODE: { type: 'string', feature: 'schema', description: 'Postal code' },
+  BUSINESS_COUNTRY: { type: 'string', feature: 'schema', description: 'Country code', default: 'US' },
+  SERVICE_AREAS: { type: 'list', feature: 'schema', description: 'Default areaServed cities' },
+
+  // Generation history
+  HISTORY_STORE: { type: 'enum', feature: 'history', description: 'History backend', values: ['file', 'memory'], default: 'file' },
+  HISTORY_FILE: { type: 'string', feature: 'history', description: 'History JSON lines file', default: 'data/history.jsonl' },
+
+  // Batch runs
+  BATCH_DIR: { type: 'string', feature: 'batch', description: 'Directory for batch job files', default: 'data/batch' },
+  BATCH_CONCURRENCY: { type: 'number', feature: 'batch', description: 'Keywords processed at once', default: '2', min: 1, max: 5 },
+
+  // Sheet write-back
+  SHEET_WRITEBACK: { type: 'enum', feature: 'writeback', description: 'Write generated content to the sheet', values: ['off', 'columns', 'tab'], default: 'off' },
+  SHEET_OUTPUT_START_COLUMN: { type: 'string', feature: 'writeback', description: 'First output column (default I, or B in tab mode)' },
+  SHEET_OUTPUT_COLUMNS: { type: 'string', feature: 'writeback', description: 'Per-field column overrides, e.g. title=K,faq=S' },
+  SHEET_OUTPUT_TAB: { type: 'string', feature: 'writeback', description: 'Tab used in tab mode', default: 'Outputs' },
+
+  // Google sessions
+  SESSION_SECRET: {
+    type: 'secret',
+    feature: 'sessions',
+    description: 'Encrypts session cookies and stored tokens',
+    unsetWarning: 'SESSION_SECRET not set - Google sessions will not survive a server restart'
+  },
+  SESSION_FILE: { type: 'string', feature: 'sessions', description: 'Server-side session store', default: 'data/sessions.json' },
+
+  // Access control
+  APP_PASSWORD: { type: 'secret', feature: 'access', description: 'Shared password for the UI and API', unsetWarning: 'APP_PASSWORD not set - authentication disabled' },
+  ORIGIN_ALLOWLIST: { type: 'list', feature: 'access', description: 'Hosts allowed to call the API cross-origin', unsetWarning: 'ORIGIN_ALLOWLIST not set - origins are not checked and no CORS headers are sent' },
+  NEXT_PUBLIC_APP_URL: { type: 'url', feature: 'access', description: 'Public URL of the app', default: 'http://localhost:3000' },
+
+  // Team accounts
+  NEXTAUTH_SECRET: { type: 'secret', feature: 'accounts', description: 'Signs NextAuth session tokens' },
+  NEXTAUTH_URL: { type: 'url', feature: 'accounts', description: 'Canonical URL NextAuth uses for callbacks' },
+  AUTH_ALLOWED_DOMAINS: { type: 'list', feature: 'accounts', description: 'Google Workspace domains allowed to sign in' },
+  AUTH_ALLOWED_EMAILS: { type: 'list', feature: 'accounts', description: 'Individual addresses allowed to sign in' },
+  AUTH_ADMIN_EMAILS: { type: 'list', feature: 'accounts', description: 'Users with the admin role' },
+  AUTH_REVIEWER_EMAILS: { type: 'list', feature: 'accounts', description: 'Users with the reviewer role' },
+  AUTH_DEFAULT_ROLE: { type: 'enum', feature: 'accounts', description: 'Role for everyone else', values: ['editor', 'reviewer', 'admin'], default: 'editor' },
+  AUDIT_FILE: { type: 'string', feature: 'accounts', description: 'Audit log JSON lines file', default: 'data/audit.jsonl' },
+
+  // Health checks
+  HEALTH_PROBE_TIMEOUT_MS: { type: 'number', feature: 'health', description: 'Timeout for each connectivity probe in /api/health', default: '5000', min: 500, max: 30000 }
+} satisfies Record<string, EnvVarSpec>;
+
+export type EnvVarName = keyof typeof ENV_SCHEMA;
+
+export const ENV_VAR_NAMES = Object.keys(ENV_SCHEMA) as EnvVarName[];
+
+function getSpec(name: EnvVarName): EnvVarSpec {
+  return ENV_SCHEMA[name];
+}
+
+export interface AppConfig {
+  llm: {
+    provider: string;
+    fieldProviders?: string;
+    openaiApiKey?: string;
+    openaiModel: string;
+    anthropicApiKey?: string;
+    anthropicModel: string;
+  };
+  google: {
+    clientId?: string;
+    clientSecret?: string;
+    sheetId: string;
+    docUrl?: string;
+    docId?: string;
+    sheetsApiKey?: string;
+    accessToken?: string;
+    refreshToken?: string;
+    defaultLoginEmail: string;
+  };
+  freepik: {
+    apiKey?: string;
+    webhookSecret?: string;
+    apiUrl: string;
+    webhookUrl?: string;
+    imageModel: string;
+    aspectRatio: string;
+  };
+  imageJobs: {
+    dir: string;
+    timeoutMs: number;
+    batchConcurrency: number;
+  };
+  imageMetadata: {
+    altText: 'ai' | 'fallback';
+    artist?: string;
+    copyright?: string;
+  };
+  imageVariants: {
+    widths: number[];
+    formats: Array<'webp' | 'avif'>;
+    maxKb: number;
+    webpQuality: number;
+    avifQuality: number;
+    minQuality: number;
+    baseUrl?: string;
+  };
+  imageChecks: {
+    minSize: number;
+    blurThreshold: number;
+    duplicateDistance: number;
+    reject: Array<'low-resolution' | 'blurry' | 'duplicate' | 'none'>;
+  };
+  imageFrames: {
+    dir: string;
+  };
+  geotag: {
+    profilesFile?: string;
+    sheetTab?: string;
+    defaultProfile: string;
+    mode: 'random' | 'round-robin';
+    jitterMeters: number;
+  };
+  wordpress: {
+    url?: string;
+    username?: string;
+    appPassword?: string;
+    postType: 'pages' | 'posts';
+  };
+  business: {
+    name?: string;
+    url?: string;
+    phone?: string;
+    priceRange?: string;
+    street?: string;
+    city?: string;
+    region?: string;
+    postalCode?: string;
+    country: string;
+    serviceAreas: string[];
+  };
+  history: {
+    store: 'file' | 'memory';
+    file: string;
+  };
+  batch: {
+    dir: string;
+    concurrency: number;
+  };
+  writeback: {
+    mode: 'off' | 'columns' | 'tab';
+    startColumn?: string;
+    columns?: string;
+    tab: string;
+  };
+  session: {
+    secret?: string;
+    file: string;
+  };
+  access: {
+    appPassword?: string;
+    originAllowlist: string[];
+    publicUrl: string;
+  };
+  accounts: {
+    nextAuthSecret?: string;
+    nextAuthUrl?: string;
+    allowedDomains: string[];
+    allowedEmails: string[];
+    adminEmails: string[];
+    reviewerEmails: string[];
+    defaultRole: 'editor' | 'reviewer' | 'admin';
+    auditFile: string;
+  };
+  health: {
+    probeTimeoutMs: number;
+  };
+}
+
+interface ParsedEnv {
+  values: Partial<Record<EnvVarName, string | number | string[]>>;
+  // Variables that were set but had to fall back to their default
+  invalid: string[];
+}
+
+function readRaw(name: EnvVarName): string | undefined {
+  const spec = getSpec(name);
+  for (const key of ([name] as string[]).concat(spec.aliases || [])) {
+    const value = process.env[key]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function parseValue(name: EnvVarName, raw: string): { value?: string | number | string[]; error?: string } {
+  const spec = getSpec(name);
+
+  switch (spec.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) return { error: `${name} must be a number (got "${raw}")` };
+      if (spec.min !== undefined && value < spec.min) return { error: `${name} must be at least ${spec.min}` };
+      if (spec.max !== undefined && value > spec.max) return { error: `${name} must be at most ${spec.max}` };
+      return { value };
+    }
+    case 'url':
+      if (!/^https?:\/\/[^\s/]+/i.test(raw)) return { error: `${name} must be an http(s) URL` };
+      return { value: raw.replace(/\/+$/, '') };
+    case 'enum': {
+      const value = raw.toLowerCase();
+      if ((spec.values || []).indexOf(value) === -1) {
+        return { error: `${name} must be one of ${(spec.values || []).join(', ')} (got "${raw}")` };
+      }
+      return { value };
+    }
+    case 'list': {
+      const value = raw.split(',').map(entry => entry.trim()).filter(Boolean);
+      for (const entry of value) {
+        if (spec.values && spec.values.indexOf(entry.toLowerCase()) === -1) {
+          return { error: `${name} entries must be among ${spec.values.join(', ')} (got "${entry}")` };
+        }
+        if (spec.min !== undefined || spec.max !== undefined) {
+          const number = Number(entry);
+          if (!Number.isFinite(number)) return { error: `${name} entries must be numbers (got "${entry}")` };
+          if (spec.min !== undefined && number < spec.min) return { error: `${name} entries must be at least ${spec.min}` };
+          if (spec.max !== undefined && number > spec.max) return { error: `${name} entries must be at most ${spec.max}` };
+        }
+      }
+      return { value };
+    }
+    default:
+      return { value: raw };
+  }
+}
+
+function parseEnv(): ParsedEnv {
+  const values: ParsedEnv['values'] = {};
+  const invalid: string[] = [];
+
+  for (const name of ENV_VAR_NAMES) {
+    const spec = getSpec(name);
+    const raw = readRaw(name);
+    const parsed = raw !== undefined ? parseValue(name, raw) : {};
+
+    if (parsed.error) {
+      invalid.push(parsed.error);
+    }
+    if (parsed.value !== undefined) {
+      values[name] = parsed.value;
+    } else if (spec.default !== undefined) {
+      values[name] = parseValue(name, spec.default).value;
+    }
+  }
+
+  return { values, invalid };
+}
+
+function buildConfig(values: ParsedEnv['values']): AppConfig {
+  const str = (name: EnvVarName) => values[name] as string | undefined;
+  const list = (name: EnvVarName) => ((values[name] as string[] | undefined) || []).map(entry => entry.toLowerCase());
+
+  return {
+    llm: {
+      provider: str('LLM_PROVIDER')!,
+      fieldProviders: str('LLM_FIELD_PROVIDERS'),
+      openaiApiKey: str('OPENAI_API_KEY'),
+      openaiModel: str('OPENAI_MODEL')!,
+      anthropicApiKey: str('ANTHROPIC_API_KEY'),
+      anthropicModel: str('ANTHROPIC_MODEL')!
+    },
+    google: {
+      clientId: str('GOOGLE_CLIENT_ID'),
+      clientSecret: str('GOOGLE_CLIENT_SECRET'),
+      sheetId: str('GOOGLE_SHEET_ID')!,
+      docUrl: str('GOOGLE_DOC_URL'),
+      docId: str('GOOGLE_DOC_ID'),
+      sheetsApiKey: str('GOOGLE_SHEETS_API_KEY'),
+      accessToken: str('GOOGLE_ACCESS_TOKEN'),
+      refreshToken: str('GOOGLE_REFRESH_TOKEN'),
+      defaultLoginEmail: str('DEFAULT_LOGIN_EMAIL')!
+    },
+    freepik: {
+      apiKey: str('FREEPIK_API_KEY'),
+      webhookSecret: str('FREEPIK_WEBHOOK_SECRET'),
+      apiUrl: str('FREEPIK_API_URL')!,
+      webhookUrl: str('FREEPIK_WEBHOOK_URL'),
+      imageModel: str('FREEPIK_IMAGE_MODEL')!,
+      aspectRatio: str('FREEPIK_ASPECT_RATIO')!
+    },
+    imageJobs: {
+      dir: str('IMAGE_JOBS_DIR')!,
+      timeoutMs: values.IMAGE_JOB_TIMEOUT_MS as number,
+      batchConcurrency: values.IMAGE_BATCH_CONCURRENCY as number
+    },
+    imageMetadata: {
+      altText: str('IMAGE_ALT_TEXT') as AppConfig['imageMetadata']['altText'],
+      artist: str('IMAGE_ARTIST'),
+      copyright: str('IMAGE_COPYRIGHT')
+    },
+    imageVariants: {
+      widths: list('IMAGE_WIDTHS').map(Number),
+      formats: list('IMAGE_FORMATS') as AppConfig['imageVariants']['formats'],
+      maxKb: values.IMAGE_MAX_KB as number,
+      webpQuality: values.IMAGE_WEBP_QUALITY as number,
+      avifQuality: values.IMAGE_AVIF_QUALITY as number,
+      minQuality: values.IMAGE_MIN_QUALITY as number,
+      baseUrl: str('IMAGE_BASE_URL')
+    },
+    imageChecks: {
+      minSize: values.IMAGE_MIN_SIZE as number,
+      blurThreshold: values.IMAGE_BLUR_THRESHOLD as number,
+      duplicateDistance: values.IMAGE_DUPLICATE_DISTANCE as number,
+      reject: list('IMAGE_REJECT') as AppConfig['imageChecks']['reject']
+    },
+    imageFrames: {
+      dir: str('IMAGE_FRAMES_DIR')!
+    },
+    geotag: {
+      profilesFile: str('GEOTAG_PROFILES_FILE'),
+      sheetTab: str('GEOTAG_SHEET_TAB'),
+      defaultProfile: str('GEOTAG_DEFAULT_PROFILE')!,
+      mode: str('GEOTAG_MODE') as AppConfig['geotag']['mode'],
+      jitterMeters: values.GEOTAG_JITTER_METERS as number
+    },
+    wordpress: {
+      url: str('WORDPRESS_URL'),
+      username: str('WORDPRESS_USERNAME'),
+      appPassword: str('WORDPRESS_APP_PASSWORD'),
+      postType: str('WORDPRESS_POST_TYPE') as AppConfig['wordpress']['postType']
+    },
+    business: {
+      name: str('BUSINESS_NAME'),
+      url: str('BUSINESS_URL'),
+      phone: str('BUSINESS_PHONE'),
+      priceRange: str('BUSINESS_PRICE_RANGE'),
+      street: str('BUSINESS_STREET'),
+      city: str('BUSINESS_CITY'),
+      region: str('BUSINESS_REGION'),
+      postalCode: str('BUSINESS_POSTAL_CODE'),
+      country: str('BUSINESS_COUNTRY')!,
+      serviceAreas: (values.SERVICE_AREAS as string[] | undefined) || []
+    },
+    history: {
+      store: str('HISTORY_STORE') as AppConfig['history']['store'],
+      file: str('HISTORY_FILE')!
+    },
+    batch: {
+      dir: str('BATCH_DIR')!,
+      concurrency: values.BATCH_CONCURRENCY as number
+    },
+    writeback: {
+      mode: str('SHEET_WRITEBACK') as AppConfig['writeback']['mode'],
+      startColumn: str('SHEET_OUTPUT_START_COLUMN'),
+      columns: str('SHEET_OUTPUT_COLUMNS'),
+      tab: str('SHEET_OUTPUT_TAB')!
+    },
+    session: {
+      secret: str('SESSION_SECRET'),
+      file: str('SESSION_FILE')!
+    },
+    access: {
+      appPassword: str('APP_PASSWORD'),
+      originAllowlist: list('ORIGIN_ALLOWLIST'),
+      publicUrl: str('NEXT_PUBLIC_APP_URL')!
+    },
+    accounts: {
+      nextAuthSecret: str('NEXTAUTH_SECRET'),
+      nextAuthUrl: str('NEXTAUTH_URL'),
+      allowedDomains: list('AUTH_ALLOWED_DOMAINS'),
+      allowedEmails: list('AUTH_ALLOWED_EMAILS'),
+      adminEmails: list('AUTH_ADMIN_EMAILS'),
+      reviewerEmails: list('AUTH_REVIEWER_EMAILS'),
+      defaultRole: str('AUTH_DEFAULT_ROLE') as AppConfig['accounts']['defaultRole'],
+      auditFile: str('AUDIT_FILE')!
+    },
+    health: {
+      probeTimeoutMs: values.HEALTH_PROBE_TIMEOUT_MS as number
+    }
+  };
+}
+
+/**
+ * Typed configuration read from the environment
+ * Parsed on each call so it always reflects process.env; invalid values fall back to their defaults.
+ */
+export function getConfig(): AppConfig {
+  return buildConfig(parseEnv().values);
+}
+
+export function isConfigured(name: EnvVarName): boolean {
+  return readRaw(name) !== undefined;
+}
+
+// Provider names used by LLM_PROVIDER and LLM_FIELD_PROVIDERS, e.g. "openai|anthropic:claude-x"
+export function getLlmProviderNames(config: AppConfig): string[] {
+  const specs = [config.llm.provider].concat(
+    (config.llm.fieldProviders || '').split(',').map(entry => entry.split('=')[1] || '')
+  );
+  const names: string[] = [];
+  for (const spec of specs) {
+    for (const option of spec.split('|')) {
+      const name = option.split(':')[0].trim().toLowerCase();
+      if (name && names.indexOf(name) === -1) names.push(name);
+    }
+  }
+  return names;
+}
+
+interface FeatureRule {
+  feature: ConfigFeature;
+  label: string;
+  // Required features (what the text tab needs) make the configuration invalid when unmet;
+  // optional ones only warn and are reported as not ready by /api/health
+  required: boolean;
+  enabled?: (config: AppConfig) => boolean;
+  // Every entry must be configured; an array entry means any one of them
+  requires: (config: AppConfig) => Array<EnvVarName | EnvVarName[]>;
+}
+
+export const FEATURE_RULES: FeatureRule[] = [
+  {
+    feature: 'llm',
+    label: 'Text generation',
+    required: true,
+    requires: config => getLlmProviderNames(config)
+      .filter(name => name === 'openai' || name === 'anthropic')
+      .map(name => (name === 'openai' ? 'OPENAI_API_KEY' : 'ANTHROPIC_API_KEY') as EnvVarName)
+  },
+  {
+    feature: 'classification',
+    label: 'Keyword classification',
+    required: false,
+    requires: () => [['GOOGLE_DOC_URL', 'GOOGLE_DOC_ID']]
+  },
+  {
+    feature: 'google',
+    label: 'Google Sheets access',
+    required: true,
+    requires: () => ['GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET']
+  },
+  {
+    feature: 'images',
+    label: 'Image processing',
+    required: false,
+    requires: () => ['FREEPIK_API_KEY', 'FREEPIK_WEBHOOK_SECRET']
+  },
+  {
+    feature: 'wordpress',
+    label: 'WordPress publishing',
+    required: false,
+    requires: () => ['WORDPRESS_URL', 'WORDPRESS_USERNAME', 'WORDPRESS_APP_PASSWORD']
+  },
+  {
+    feature: 'schema',
+    label: 'LocalBusiness schema markup',
+    required: false,
+    requires: () => ['BUSINESS_NAME', 'BUSINESS_CITY', 'BUSINESS_REGION']
+  },
+  {
+    feature: 'accounts',
+    label: 'Team accounts',
+    required: false,
+    enabled: config => config.accounts.allowedDomains.length > 0 || config.accounts.allowedEmails.length > 0,
+    requires: () => ['NEXTAUTH_SECRET', 'GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET', 'AUTH_ADMIN_EMAILS']
+  }
+];
+
+function describeRequirement(requirement: EnvVarName | EnvVarName[]): string {
+  return Array.isArray(requirement) ? requirement.join(' or ') : requirement;
+}
+
+function isMet(requirement: EnvVarName | EnvVarName[]): boolean {
+  return Array.isArray(requirement) ? requirement.some(isConfigured) : isConfigured(requirement);
+}
+
+export interface FeatureStatus {
+  feature: ConfigFeature;
+  label: string;
+  required: boolean;
+  // False for opt-in features (team accounts) that are switched off
+  enabled: boolean;
+  ready: boolean;
+  missing: string[];
+}
+
+/**
+ * Whether each feature rule is satisfied by the current environment
+ */
+export function getFeatureStatus(): FeatureStatus[] {
+  const config = buildConfig(parseEnv().values);
+
+  return FEATURE_RULES.map(rule => {
+    const enabled = !rule.enabled || rule.enabled(config);
+    const missing = enabled
+      ? rule.requires(config).filter(requirement => !isMet(requirement)).map(describeRequirement)
+      : [];
+    return {
+      feature: rule.feature,
+      label: rule.label,
+      required: rule.required,
+      enabled,
+      ready: enabled && missing.length === 0,
+      missing
+    };
+  });
+}
+
+export interface ConfigValidation {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Checks value types and per-feature requirements
+ * Invalid values and unmet required features are errors; unmet optional features are warnings.
+ */
+export function validateConfig(): ConfigValidation {
+  const errors = parseEnv().invalid;
+  const warnings: string[] = [];
+
+  for (const status of getFeatureStatus()) {
+    if (!status.enabled || status.ready) continue;
+
+    const message = `${status.label} not fully configured - missing ${status.missing.join(', ')}`;
+    (status.required ? errors : warnings).push(message);
+  }
+
+  for (const name of ENV_VAR_NAMES) {
+    const spec = getSpec(name);
+    if (spec.unsetWarning && !isConfigured(name)) {
+      warnings.push(spec.unsetWarning);
+    }
+  }
+
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+export interface EnvVarStatus {
+  configured: boolean;
+  type: 'required' | 'optional';
+  feature: ConfigFeature;
+  description: string;
+  // True when unset and a default is used instead
+  usingDefault: boolean;
+  error?: string;
+}
+
+/**
+ * Status of every variable in the schema, without exposing values
+ * A variable counts as required when a required (or enabled) feature needs it under the current configuration.
+ */
+export function getEnvStatus(): Record<EnvVarName, EnvVarStatus> {
+  const { values, invalid } = parseEnv();
+  const config = buildConfig(values);
+
+  const requiredNames: string[] = [];
+  for (const rule of FEATURE_RULES) {
+    const applies = rule.enabled ? rule.enabled(config) : rule.required;
+    if (!applies) continue;
+    for (const requirement of rule.requires(config)) {
+      requiredNames.push(...(Array.isArray(requirement) ? requirement : [requirement]));
+    }
+  }
+
+  const status = {} as Record<EnvVarName, EnvVarStatus>;
+  for (const name of ENV_VAR_NAMES) {
+    const spec = getSpec(name);
+    const configured = isConfigured(name);
+    status[name] = {
+      configured,
+      type: requiredNames.indexOf(name) !== -1 ? 'required' : 'optional',
+      feature: spec.feature,
+      description: spec.description,
+      usingDefault: !configured && spec.default !== undefined,
+      error: invalid.find(message => message.indexOf(`${name} `) === 0)
+    };
+  }
+  return status;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { mapSheetTitleToFieldId } from './fields';
+
+describe('mapSheetTitleToFieldId', () => {
+  it('maps exact names and aliases', () => {
+    expect(mapSheetTitleToFieldId('Title')).toBe('title');
+    expect(mapSheetTitleToFieldId('Introduction')).toBe('intro');
+    expect(mapSheetTitleToFieldId('wpic3')).toBe('pic3');
+    expect(mapSheetTitleToFieldId('Subtopics')).toBe('subtopics');
+    expect(mapSheetTitleToFieldId('sub')).toBe('subtopics');
+  });
+
+  it('ignores the flow qualifier in titles', () => {
+    expect(mapSheetTitleToFieldId('Cost (with subtopics)')).toBe('cost');
+    expect(mapSheetTitleToFieldId('Why (with subtopics)')).toBe('why');
+    expect(mapSheetTitleToFieldId('FAQ with subtopics')).toBe('faq');
+    expect(mapSheetTitleToFieldId('FAQ (no subtopics)')).toBe('faq');
+    expect(mapSheetTitleToFieldId('Title (with subtopics)')).toBe('title');
+    expect(mapSheetTitleToFieldId('Introduction (no subtopics)')).toBe('intro');
+    expect(mapSheetTitleToFieldId('Picture 2 (with subtopics)')).toBe('pic2');
+    expect(mapSheetTitleToFieldId('Subtopics (with subtopics)')).toBe('subtopics');
+  });
+
+  it('falls back to partial matches', () => {
+    expect(mapSheetTitleToFieldId('Why Choose Us section')).toBe('why');
+    expect(mapSheetTitleToFieldId('Cost Information')).toBe('cost');
+  });
+
+  it('returns null for unknown or empty titles', () => {
+    expect(mapSheetTitleToFieldId('Testimonials')).toBeNull();
+    expect(mapSheetTitleToFieldId('  ')).toBeNull();
+    expect(mapSheetTitleToFieldId('(with subtopics)')).toBeNull();
+  });
+});
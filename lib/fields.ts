@@ -0,0 +1,203 @@
+/**
+ * Central field registry
+ * Every page section is defined here once; routes, the Sheets prompt lookups,
+ * WordPress publishing and the UI all read from this list.
+ *
+ * This module is imported by client components, so it must not use Node APIs.
+ */
+
+export type Flow = 'with subtopics' | 'no subtopics';
+
+export const FLOWS: Flow[] = ['with subtopics', 'no subtopics'];
+
+// 'faq' fields are generated as structured question/answer JSON;
+// 'jsonld' fields hold schema.org markup built from other fields
+export type FieldOutputType = 'text' | 'picture' | 'faq' | 'jsonld';
+
+export interface PostProcessRules {
+  stripMarkdown: boolean;
+  titleCase?: boolean;
+}
+
+export interface FieldDefinition {
+  id: string;
+  label: string;
+  flows: Flow[];
+  // Field name in column B of the Prompts tab
+  sheetName: string;
+  // Other names this field has gone by in the sheet and older API calls
+  aliases: string[];
+  postProcess: PostProcessRules;
+  outputType: FieldOutputType;
+  // Fields in a group are generated together from the group's prompt
+  group?: PromptGroupId;
+  usesCompetitorUrls?: boolean;
+  usesSubtopics?: boolean;
+  // Built locally from other fields instead of from a Prompts tab prompt
+  derived?: boolean;
+  // Heading used when the section is published; omitted for untitled sections
+  publishHeading?: string;
+}
+
+export type PromptGroupId = 'pictures';
+
+export interface PromptGroup {
+  id: PromptGroupId;
+  sheetName: string;
+}
+
+const BOTH_FLOWS: Flow[] = ['with subtopics', 'no subtopics'];
+
+const TEXT: PostProcessRules = { stripMarkdown: true };
+
+// Listed in page order
+export const FIELDS: FieldDefinition[] = [
+  {
+    id: 'title',
+    label: 'Title',
+    flows: BOTH_FLOWS,
+    sheetName: 'Title',
+    aliases: ['wtitle'],
+    postProcess: { stripMarkdown: true, titleCase: true },
+    outputType: 'text'
+  },
+  {
+    id: 'intro',
+    label: 'Introduction',
+    flows: BOTH_FLOWS,
+    sheetName: 'Intro',
+    aliases: ['introduction', 'entro', 'wentro'],
+    postProcess: TEXT,
+    outputType: 'text'
+  },
+  ...[1, 2, 3, 4].map((n): FieldDefinition => ({
+    id: `pic${n}`,
+    label: `Picture ${n} Description`,
+    flows: BOTH_FLOWS,
+    sheetName: `Pic${n}`,
+    aliases: [`picture ${n}`, `wpic${n}`],
+    postProcess: TEXT,
+    outputType: 'picture',
+    group: 'pictures'
+  })),
+  {
+    id: 'subtopics',
+    label: 'Subtopics',
+    flows: ['with subtopics'],
+    sheetName: 'Subtopics',
+    aliases: ['sub'],
+    postProcess: TEXT,
+    outputType: 'text',
+    usesSubtopics: true,
+    publishHeading: 'Subtopics'
+  },
+  {
+    id: 'cost',
+    label: 'Cost Information',
+    flows: BOTH_FLOWS,
+    sheetName: 'Cost',
+    aliases: ['cost information', 'wcost'],
+    postProcess: TEXT,
+    outputType: 'text',
+    publishHeading: 'Cost Information'
+  },
+  {
+    id: 'why',
+    label: 'Why Choose Us',
+    flows: BOTH_FLOWS,
+    sheetName: 'Why',
+    aliases: ['why choose us', 'wwhy'],
+    postProcess: TEXT,
+    outputType: 'text',
+    publishHeading: 'Why Choose Us'
+  },
+  {
+    id: 'faq',
+    label: 'FAQs',
+    flows: BOTH_FLOWS,
+    sheetName: 'FAQ',
+    aliases: ['faqs', 'wfaq'],
+    postProcess: TEXT,
+    outputType: 'faq',
+    usesCompetitorUrls: true,
+    publishHeading: 'FAQs'
+  },
+  {
+    id: 'schema',
+    label: 'Schema Markup (JSON-LD)',
+    flows: BOTH_FLOWS,
+    sheetName: 'Schema',
+    aliases: ['json-ld', 'jsonld', 'structured data'],
+    postProcess: { stripMarkdown: false },
+    outputType: 'jsonld',
+    derived: true
+  }
+];
+
+export const PROMPT_GROUPS: Record<PromptGroupId, PromptGroup> = {
+  // Combined prompt (C13) that produces title + summary pairs for every picture field
+  pictures: { id: 'pictures', sheetName: 'Pictures' }
+};
+
+export const FIELD_IDS = FIELDS.map(field => field.id);
+
+export const PICTURE_FIELD_IDS = FIELDS.filter(field => field.group === 'pictures').map(field => field.id);
+
+export function isFlow(value: unknown): value is Flow {
+  return FLOWS.includes(value as Flow);
+}
+
+export function getField(fieldId: string): FieldDefinition | undefined {
+  return FIELDS.find(field => field.id === fieldId);
+}
+
+/**
+ * Finds a field by id or any of its legacy aliases (case-insensitive)
+ */
+export function findField(idOrAlias: string): FieldDefinition | undefined {
+  const key = idOrAlias.toLowerCase().trim();
+  return FIELDS.find(field =>
+    field.id === key ||
+    field.sheetName.toLowerCase() === key ||
+    field.aliases.includes(key)
+  );
+}
+
+export function getFieldsForFlow(flow: Flow): FieldDefinition[] {
+  return FIELDS.filter(field => field.flows.includes(flow));
+}
+
+/**
+ * Name of the Prompts tab row for a field id, alias or prompt group
+ */
+export function getSheetName(idOrGroup: string): string {
+  if (Object.prototype.hasOwnProperty.call(PROMPT_GROUPS, idOrGroup)) {
+    return PROMPT_GROUPS[idOrGroup as PromptGroupId].sheetName;
+  }
+  return findField(idOrGroup)?.sheetName || idOrGroup;
+}
+
+// Flow qualifiers in sheet titles, e.g. "Cost (with subtopics)"; not part of the field name
+const FLOW_QUALIFIER = /\(?\b(?:with|no) subtopics\b\)?/g;
+
+/**
+ * Maps a Prompts tab field title to a field id
+ * Tries exact names and aliases first, then partial matches. The flow qualifier is dropped
+ * first so "FAQ with subtopics" is the FAQ field, not Subtopics.
+ */
+export function mapSheetTitleToFieldId(title: string): string | null {
+  const key = title.toLowerCase().replace(FLOW_QUALIFIER, ' ').replace(/\s+/g, ' ').trim();
+  if (!key) return null;
+
+  const exact = findField(key);
+  if (exact) return exact.id;
+
+  for (const field of FIELDS) {
+    const names = [field.id, field.sheetName.toLowerCase(), field.label.toLowerCase(), ...field.aliases];
+    if (names.some(name => key.includes(name) || name.includes(key))) {
+      return field.id;
+    }
+  }
+
+  return null;
+}
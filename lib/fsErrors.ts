@@ -0,0 +1,10 @@
+/**
+ * Narrowing for errors thrown by fs
+ */
+
+/**
+ * True when the file or directory doesn't exist (ENOENT)
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
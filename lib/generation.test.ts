@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PreparedField, runPreparedField } from './generation';
+import { createMemoryHistoryStore, setHistoryStore } from './history';
+import { createFakeProvider } from './llm';
+
+let history: ReturnType<typeof createMemoryHistoryStore>;
+
+function prepared(fieldId: string, text: string): PreparedField {
+  return {
+    ok: true,
+    fieldId,
+    context: { keyword: 'junk removal', flow: 'no subtopics', accessToken: 'token' },
+    llm: { provider: createFakeProvider(() => text), model: 'fake-1' },
+    request: { prompt: 'Write it', model: 'fake-1' }
+  };
+}
+
+beforeEach(() => {
+  history = createMemoryHistoryStore();
+  setHistoryStore(history);
+});
+
+describe('runPreparedField', () => {
+  it('streams text fields and post-processes the result', async () => {
+    const deltas: string[] = [];
+    const result = await runPreparedField(prepared('intro', 'We **haul** KEYWORD away.'), delta => deltas.push(delta));
+
+    expect(deltas.join('')).toBe('We **haul** KEYWORD away.');
+    expect(result).toMatchObject({ ok: true, output: 'We haul junk removal away.' });
+  });
+
+  it('stops streaming and reports a cancelled run once the signal is aborted', async () => {
+    const abort = new AbortController();
+    const deltas: string[] = [];
+    const result = await runPreparedField(prepared('intro', 'one two three four'), delta => {
+      deltas.push(delta);
+      abort.abort();
+    }, abort.signal);
+
+    expect(deltas).toEqual(['one ']);
+    expect(result).toEqual({ ok: false, error: 'Generation was cancelled', status: 499 });
+    expect((await history.list())[0]).toMatchObject({ fieldId: 'intro', status: 'error', error: 'Generation was cancelled' });
+  });
+
+  it('streams FAQs as question and answer text while the JSON arrives', async () => {
+    const faqs = [
+      { question: 'How fast is KEYWORD?', answer: 'Same day in most cases.' },
+      { question: 'What do you take?', answer: 'Furniture, appliances and yard waste.' },
+      { question: 'Do you recycle?', answer: 'Yes, whatever we can.' }
+    ];
+    const deltas: string[] = [];
+    const result = await runPreparedField(prepared('faq', JSON.stringify({ faqs })), delta => deltas.push(delta));
+
+    expect(deltas.length).toBeGreaterThan(3);
+    expect(deltas.join('')).toBe(faqs.map(item => `${item.question}\n${item.answer}`).join('\n\n'));
+    expect(result).toMatchObject({ ok: true, structured: [{ question: 'How fast is junk removal?' }, {}, {}] });
+  });
+});
@@ -0,0 +1,636 @@
+/**
+ * In-process content generation service
+ * Shared by the single-field, pictures and bulk generate routes so they all use
+ * the same field list, prompts and post-processing
+ */
+
+import { Flow, getField, getFieldsForFlow, isFlow, PICTURE_FIELD_IDS } from './fields';
+import { getPromptFromSheets } from './googleSheetsPrompts';
+import { createRunId, recordGeneration } from './history';
+import { completeStructured, CompletionRequest, DeltaHandler, parsePartialJson, resolveLLM, ResolvedLLM } from './llm';
+import { buildSchemaField } from './schemaOrg';
+import {
+  FAQ_SCHEMA,
+  FaqItem,
+  PictureCombination,
+  PICTURES_SCHEMA,
+  renderFaqText,
+  renderPictureText
+} from './structuredOutputs';
+
+export type { Flow } from './fields';
+export type { FaqItem, PictureCombination } from './structuredOutputs';
+
+export interface GenerationContext {
+  keyword: string;
+  flow: Flow;
+  accessToken: string;
+  competitorUrls?: string[];
+  subtopics?: string[];
+  previousPictures?: Record<string, string>;
+  // Groups history records for fields generated together
+  runId?: string;
+}
+
+export interface GenerationError {
+  ok: false;
+  error: string;
+  status: number;
+}
+
+export interface FieldGenerationResult {
+  ok: true;
+  fieldId: string;
+  output: string;
+  // Typed items for structured fields (e.g. FAQ question/answer pairs)
+  structured?: FaqItem[];
+  provider: string;
+  model: string;
+}
+
+export interface PreparedField {
+  ok: true;
+  fieldId: string;
+  context: GenerationContext;
+  llm: ResolvedLLM;
+  request: CompletionRequest;
+}
+
+export interface PicturesGenerationResult {
+  ok: true;
+  outputs: Record<string, string>;
+  pictures: Array<PictureCombination & { fieldId: string }>;
+  totalCombinations: number;
+  selectedIndices: number[];
+  provider: string;
+  model: string;
+}
+
+export interface GeneratedPage {
+  keyword: string;
+  flow: Flow;
+  fields: Record<string, string>;
+  pictures: Array<PictureCombination & { fieldId: string }>;
+  faqs?: FaqItem[];
+  errors: Record<string, string>;
+  generatedAt: string;
+}
+
+interface PromptData {
+  prompt: string;
+  example?: string;
+}
+
+/**
+ * Validates the keyword/flow pair shared by every generate route
+ * Returns an error result, or null if the request is valid
+ */
+export function validateGenerationRequest(keyword: unknown, flow: unknown): GenerationError | null {
+  if (!keyword || typeof keyword !== 'string' || keyword.trim().length === 0) {
+    return { ok: false, error: 'Keyword is required and must be a non-empty string', status: 400 };
+  }
+
+  if (!isFlow(flow)) {
+    return { ok: false, error: 'Invalid flow. Must be "with subtopics" or "no subtopics"', status: 400 };
+  }
+
+  return null;
+}
+
+/**
+ * Returns the text fields generated individually for a flow
+ * Picture fields are produced together by generatePictures; derived fields
+ * are built afterwards from the generated content
+ */
+export function getTextFieldsForFlow(flow: Flow): string[] {
+  return getFieldsForFlow(flow)
+    .filter(field => !field.group && !field.derived)
+    .map(field => field.id);
+}
+
+function replaceKeyword(text: string, keyword: string): string {
+  return text
+    .replace(/{{keyword}}/gi, keyword)
+    .replace(/{{KEYWORD}}/g, keyword)
+    .replace(/\bKEYWORD\b/g, keyword);
+}
+
+export function toTitleCase(text: string): string {
+  const smallWords = ['a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by'];
+  const titled = text.split(' ').map((word, index) => {
+    // Keep small words lowercase unless they're the first word
+    if (smallWords.includes(word.toLowerCase()) && index > 0) {
+      return word.toLowerCase();
+    }
+    // Capitalize first letter of each word
+    return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+  }).join(' ');
+
+  // Ensure first letter is always capitalized
+  return titled.length > 0 ? titled.charAt(0).toUpperCase() + titled.slice(1) : titled;
+}
+
+async function fetchPrompt(fieldId: string, accessToken: string): Promise<PromptData | GenerationError> {
+  if (!accessToken) {
+    return { ok: false, error: 'Authentication required. Please authenticate with Google to access prompts.', status: 401 };
+  }
+
+  console.log('Calling getPromptFromSheets for field:', fieldId);
+  const promptResult = await getPromptFromSheets(fieldId, accessToken);
+
+  if (!promptResult.found || !promptResult.prompt) {
+    return {
+      ok: false,
+      error: promptResult.error || `No prompt found for field "${fieldId}". Please ensure this field has a prompt in the Prompts tab.`,
+      status: 404
+    };
+  }
+
+  return {
+    prompt: promptResult.prompt,
+    example: promptResult.example || undefined
+  };
+}
+
+/**
+ * Builds the system and user prompts for a single field
+ */
+export function buildFieldPrompt(
+  fieldId: string,
+  context: GenerationContext,
+  promptData: PromptData
+): { system: string; prompt: string } {
+  const { keyword, competitorUrls, subtopics, previousPictures } = context;
+  const field = getField(fieldId);
+
+  // Build context about competitors if provided (only for fields that use them)
+  const usesCompetitors = !!field?.usesCompetitorUrls;
+  const competitorContext = (usesCompetitors && competitorUrls && competitorUrls.length > 0)
+    ? `\n\nCompetitor URLs to reference for inspiration (but create original content): ${competitorUrls.join(', ')}`
+    : '';
+  
+  // For subtopics field, include the list in the prompt but still generate content
+  // The prompt should use these subtopics to generate the appropriate content
+  
+  // Replace keyword placeholders with actual keyword
+  // Support multiple placeholder formats: {{keyword}}, {{KEYWORD}}, KEYWORD, etc.
+  let prompt = replaceKeyword(promptData.prompt, keyword);
+  
+  // For subtopics field, include the actual subtopics from Google Doc
+  if (field?.usesSubtopics && subtopics && subtopics.length > 0) {
+    // Add the actual subtopics list to the prompt
+    const subtopicsList = subtopics.map(item => `• ${item.replace(/^[•\-*\s]+/, '').trim()}`).join('\n');
+    prompt = prompt.replace(/{{subtopics}}/gi, subtopicsList);
+    
+    // Also add them as context if the prompt doesn't have a placeholder
+    if (!prompt.includes(subtopicsList)) {
+      prompt += `\n\nThe following subtopics were found for ${keyword}:\n${subtopicsList}\n\nUse these subtopics to generate the content as specified above.`;
+    }
+  }
+  
+  // Also replace in example if provided
+  let example = promptData.example;
+  if (example) {
+    example = replaceKeyword(example, keyword);
+    
+    // Also replace subtopics in example if present
+    if (field?.usesSubtopics && subtopics && subtopics.length > 0) {
+      const subtopicsList = subtopics.map(item => `• ${item.replace(/^[•\-*\s]+/, '').trim()}`).join('\n');
+      example = example.replace(/{{subtopics}}/gi, subtopicsList);
+    }
+    
+    prompt += `\n\nExample format:\n${example}`;
+  }
+  
+  // Add competitor context only for fields that use it
+  if (usesCompetitors && competitorContext) {
+    prompt += competitorContext;
+  }
+
+  // Add context about previous pictures to ensure uniqueness
+  const isPictureField = field?.outputType === 'picture';
+  if (isPictureField && previousPictures) {
+    const previousDescriptions = Object.entries(previousPictures)
+      .filter(([key, value]) => key !== fieldId && value) // Exclude current field and empty values
+      .map(([key, value]) => `[${key}]: ${value}`)
+      .join('\n');
+    
+    if (previousDescriptions) {
+      // Extract key themes/words from previous descriptions for stronger uniqueness
+      const usedThemes: string[] = [];
+      const usedPhrases: string[] = [];
+      Object.entries(previousPictures).forEach(([key, value]) => {
+        if (key !== fieldId && value) {
+          // Extract the first line/title if it exists
+          const firstLine = value.split('\n')[0];
+          if (firstLine) {
+            usedPhrases.push(firstLine.toLowerCase());
+          }
+          
+          // Extract main themes/keywords from the entire description
+          const words = value.toLowerCase().split(/\s+/);
+          const keyThemes = ['stress', 'free', 'eco', 'friendly', 'safe', 'damage', 'fast', 'efficient', 
+                             'professional', 'affordable', 'reliable', 'convenient', 'simplified', 
+                             'streamlined', 'worry', 'seamless', 'easy', 'quick', 'disposal', 'recycling'];
+          
+          words.forEach(word => {
+            keyThemes.forEach(theme => {
+              if (word.includes(theme)) {
+                usedThemes.push(theme);
+              }
+            });
+          });
+        }
+      });
+      
+      const uniqueThemes = Array.from(new Set(usedThemes));
+      
+      prompt += `\n\nCRITICAL UNIQUENESS REQUIREMENT: You MUST create a completely different description.\n\n`;
+      
+      if (usedPhrases.length > 0) {
+        prompt += `ALREADY USED TITLES/PHRASES (DO NOT REPEAT SIMILAR CONCEPTS):\n${usedPhrases.join('\n')}\n\n`;
+      }
+      
+      if (uniqueThemes.length > 0) {
+        prompt += `AVOID ALL THESE THEMES/WORDS: ${uniqueThemes.join(', ')}\n\n`;
+      }
+      
+      prompt += `Previous descriptions for reference (DO NOT COPY OR REPEAT):\n${previousDescriptions}\n\n`;
+      prompt += `Generate a COMPLETELY UNIQUE description with DIFFERENT themes, benefits, and focus areas. Do not use "stress-free", "worry-free", "seamless" or similar concepts if they've been used. Be creative and explore entirely new angles.`;
+    }
+  }
+
+  return {
+    system: `You are a professional content writer. The keyword for this content is "${keyword}". Never output the word "KEYWORD" in uppercase - always replace it with the actual keyword: "${keyword}".${isPictureField ? ` CRITICAL UNIQUENESS RULES:
+1. NEVER use "stress-free", "stress free", "worry-free", "hassle-free" or similar phrases if ANY other picture uses them
+2. NEVER use "seamless", "smooth", "easy" if already used
+3. NEVER use "eco-friendly", "environmentally" if already used  
+4. Each picture MUST focus on a COMPLETELY DIFFERENT benefit or aspect
+5. DO NOT repeat ANY key phrases or themes from other pictures
+6. Be creative - use unique angles like: speed, local expertise, family-owned, licensed/insured, scheduling flexibility, transparent pricing, equipment quality, team experience, service areas, guarantees, etc.
+7. NEVER start multiple descriptions with the same structure or phrase` : ''}`,
+    prompt
+  };
+}
+
+/**
+ * Cleans up raw model output for a field
+ */
+export function postProcessOutput(fieldId: string, text: string, keyword: string): string {
+  const rules = getField(fieldId)?.postProcess || { stripMarkdown: true };
+  let content = (text || 'Content generation failed').trim();
+
+  // Remove any markdown formatting symbols like ###, **, etc.
+  if (rules.stripMarkdown) {
+    content = content
+      .replace(/^#{1,6}\s+/gm, '') // Remove markdown headers
+      .replace(/\*\*/g, '') // Remove bold markers
+      .replace(/^\*\s+/gm, '') // Remove bullet points
+      .trim();
+  }
+  
+  // Post-process to ensure no KEYWORD placeholders remain
+  content = replaceKeyword(content, keyword);
+
+  // Apply proper case to title fields
+  if (rules.titleCase) {
+    content = toTitleCase(content);
+  }
+
+  return content;
+}
+
+/**
+ * Validates a field request and builds its prompt without calling the model
+ * Lets streaming callers report errors before the response starts
+ */
+export async function prepareField(fieldId: string, context: GenerationContext): Promise<PreparedField | GenerationError> {
+  const field = getField(fieldId);
+  if (!field) {
+    return { ok: false, error: `Invalid field "${fieldId}"`, status: 400 };
+  }
+
+  // Some fields (e.g. subtopics) only exist in one flow
+  if (!field.flows.includes(context.flow)) {
+    return {
+      ok: false,
+      error: `${field.label} field is only available for ${field.flows.map(flow => `"${flow}"`).join(' or ')} classification`,
+      status: 400
+    };
+  }
+
+  if (field.derived) {
+    return { ok: false, error: `${field.label} is built from other fields; use /api/${field.id} instead`, status: 400 };
+  }
+
+  // Pick the configured LLM provider for this field
+  const { llm, error: llmError } = resolveLLM(fieldId);
+  if (!llm) {
+    return { ok: false, error: llmError || 'LLM provider not configured', status: 500 };
+  }
+
+  const promptData = await fetchPrompt(fieldId, context.accessToken);
+  if ('ok' in promptData) {
+    return promptData;
+  }
+
+  const { system, prompt } = buildFieldPrompt(fieldId, context, promptData);
+
+  return {
+    ok: true,
+    fieldId,
+    context,
+    llm,
+    request: {
+      model: llm.model,
+      system,
+      prompt,
+      maxTokens: 1000,
+      temperature: 0.7
+    }
+  };
+}
+
+/**
+ * Calls the model for a prepared field
+ * When onDelta is given the completion is streamed; post-processing runs once it finishes.
+ * Aborting signal cancels the provider request.
+ */
+export async function runPreparedField(
+  prepared: PreparedField,
+  onDelta?: DeltaHandler,
+  signal?: AbortSignal
+): Promise<FieldGenerationResult | GenerationError> {
+  const startedAt = new Date().toISOString();
+  const run = signal ? { ...prepared, request: { ...prepared.request, signal } } : prepared;
+
+  const result = getField(prepared.fieldId)?.outputType === 'faq'
+    ? await runFaqField(run, onDelta)
+    : await runTextField(run, onDelta);
+
+  await recordGeneration({
+    ...historyFields(prepared.context, prepared.llm, prepared.request),
+    fieldId: prepared.fieldId,
+    status: result.ok ? 'success' : 'error',
+    output: result.ok ? result.output : '',
+    error: result.ok ? undefined : result.error,
+    startedAt,
+    completedAt: new Date().toISOString()
+  });
+
+  return result;
+}
+
+// Shared history columns for a model call
+function historyFields(context: GenerationContext, llm: ResolvedLLM, request: CompletionRequest) {
+  return {
+    runId: context.runId || createRunId(),
+    keyword: context.keyword,
+    flow: context.flow,
+    system: request.system,
+    prompt: request.prompt,
+    provider: llm.provider.name,
+    model: llm.model,
+    temperature: request.temperature,
+    competitorUrls: context.competitorUrls,
+    subtopics: context.subtopics
+  };
+}
+
+// Result of a run whose client went away; 499 is the conventional "client closed request"
+const CANCELLED: GenerationError = { ok: false, error: 'Generation was cancelled', status: 499 };
+
+async function runTextField(
+  prepared: PreparedField,
+  onDelta?: DeltaHandler
+): Promise<FieldGenerationResult | GenerationError> {
+  const { fieldId, context, llm, request } = prepared;
+
+  try {
+    const response = onDelta
+      ? await llm.provider.stream(request, onDelta)
+      : await llm.provider.complete(request);
+
+    return {
+      ok: true,
+      fieldId,
+      output: postProcessOutput(fieldId, response.text, context.keyword),
+      provider: llm.provider.name,
+      model: llm.model
+    };
+  } catch (error) {
+    if (request.signal?.aborted) return CANCELLED;
+    console.error(`${llm.provider.name} API error:`, error);
+    return { ok: false, error: `Failed to generate content with ${llm.provider.name} (${llm.model})`, status: 502 };
+  }
+}
+
+/**
+ * Turns the raw JSON a streaming FAQ arrives as into deltas of its "question / answer" text
+ * Only text that extends what was already sent is passed on; the done event replaces the
+ * preview with the post-processed FAQ either way.
+ */
+function streamFaqPreview(onDelta: DeltaHandler): DeltaHandler {
+  let raw = '';
+  let shown = '';
+
+  return (delta) => {
+    raw += delta;
+    const parsed = parsePartialJson(raw.replace(/^\s*```(?:json)?/, ''));
+    const items = parsed && typeof parsed === 'object' && 'faqs' in parsed && Array.isArray(parsed.faqs) ? parsed.faqs : [];
+
+    const preview = items
+      .filter((item): item is { question: string; answer?: unknown } => !!item && typeof item.question === 'string')
+      .map(item => typeof item.answer === 'string' ? `${item.question}\n${item.answer}` : item.question)
+      .join('\n\n');
+
+    if (preview.length > shown.length && preview.startsWith(shown)) {
+      onDelta(preview.slice(shown.length));
+      shown = preview;
+    }
+  };
+}
+
+async function runFaqField(prepared: PreparedField, onDelta?: DeltaHandler): Promise<FieldGenerationResult | GenerationError> {
+  const { fieldId, context, llm, request } = prepared;
+
+  try {
+    const result = await completeStructured<{ faqs: FaqItem[] }>(llm, request, 'faq', FAQ_SCHEMA, {
+      onDelta: onDelta ? streamFaqPreview(onDelta) : undefined
+    });
+    if (!result.ok) {
+      return { ok: false, error: `FAQ output did not match the expected format after ${result.attempts} attempts. ${result.error}`, status: 502 };
+    }
+
+    const faqs = result.value.faqs.map(item => ({
+      question: postProcessOutput(fieldId, item.question, context.keyword),
+      answer: postProcessOutput(fieldId, item.answer, context.keyword)
+    }));
+
+    return {
+      ok: true,
+      fieldId,
+      output: renderFaqText(faqs),
+      structured: faqs,
+      provider: llm.provider.name,
+      model: llm.model
+    };
+  } catch (error) {
+    if (request.signal?.aborted) return CANCELLED;
+    console.error(`${llm.provider.name} API error:`, error);
+    return { ok: false, error: `Failed to generate content with ${llm.provider.name} (${llm.model})`, status: 502 };
+  }
+}
+
+/**
+ * Generates a single field
+ */
+export async function generateField(fieldId: string, context: GenerationContext): Promise<FieldGenerationResult | GenerationError> {
+  const prepared = await prepareField(fieldId, context);
+  if (!prepared.ok) {
+    return prepared;
+  }
+  return runPreparedField(prepared);
+}
+
+/**
+ * Runs the combined pictures prompt once and picks 4 unique combinations
+ */
+export async function generatePictures(context: GenerationContext): Promise<PicturesGenerationResult | GenerationError> {
+  const { keyword } = context;
+
+  // Pick the configured LLM provider for the combined pictures prompt
+  const { llm, error: llmError } = resolveLLM('pictures');
+  if (!llm) {
+    return { ok: false, error: llmError || 'LLM provider not configured', status: 500 };
+  }
+
+  // Fetch the single prompt from C13 for all pictures
+  console.log('Fetching combined pictures prompt from C13');
+  const promptData = await fetchPrompt('pictures', context.accessToken);
+  if ('ok' in promptData) {
+    return promptData;
+  }
+
+  let prompt = replaceKeyword(promptData.prompt, keyword);
+  if (promptData.example) {
+    prompt += `\n\nExample format:\n${replaceKeyword(promptData.example, keyword)}`;
+  }
+
+  const request: CompletionRequest = {
+    model: llm.model,
+    system: `You are a professional content writer. The keyword for this content is "${keyword}". Generate exactly 13 unique title and summary combinations for ${keyword} services. Each combination should focus on a different aspect or benefit. Never repeat themes or key phrases between combinations.`,
+    prompt,
+    maxTokens: 2000,
+    temperature: 0.8
+  };
+  const startedAt = new Date().toISOString();
+  const history = { ...historyFields(context, llm, request), startedAt };
+
+  let combinations: PictureCombination[];
+  try {
+    const result = await completeStructured<{ combinations: PictureCombination[] }>(llm, request, 'picture_combinations', PICTURES_SCHEMA);
+
+    if (!result.ok) {
+      const error = `Pictures output did not match the expected format after ${result.attempts} attempts. ${result.error}`;
+      await recordGeneration({ ...history, fieldId: 'pictures', status: 'error', output: '', error, completedAt: new Date().toISOString() });
+      return { ok: false, error, status: 502 };
+    }
+    combinations = result.value.combinations;
+  } catch (error) {
+    console.error(`${llm.provider.name} API error:`, error);
+    const message = `Failed to generate pictures with ${llm.provider.name} (${llm.model})`;
+    await recordGeneration({ ...history, fieldId: 'pictures', status: 'error', output: '', error: message, completedAt: new Date().toISOString() });
+    return { ok: false, error: message, status: 502 };
+  }
+
+  console.log(`Received ${combinations.length} picture combinations`);
+
+  // Randomly select 4 unique combinations
+  const selectedIndices = new Set<number>();
+  while (selectedIndices.size < PICTURE_FIELD_IDS.length && selectedIndices.size < combinations.length) {
+    const randomIndex = Math.floor(Math.random() * Math.min(combinations.length, 13));
+    selectedIndices.add(randomIndex);
+  }
+
+  // Titles get proper case; each picture box shows "title / summary"
+  const pictures = Array.from(selectedIndices).map((combinationIndex, index) => ({
+    fieldId: PICTURE_FIELD_IDS[index],
+    title: toTitleCase(combinations[combinationIndex].title.trim()),
+    summary: combinations[combinationIndex].summary.trim()
+  }));
+
+  const outputs: Record<string, string> = {};
+  for (const picture of pictures) {
+    outputs[picture.fieldId] = renderPictureText(picture);
+  }
+
+  // One record per picture box so each can be reloaded on its own
+  const completedAt = new Date().toISOString();
+  for (const picture of pictures) {
+    await recordGeneration({ ...history, fieldId: picture.fieldId, status: 'success', output: outputs[picture.fieldId], completedAt });
+  }
+
+  return {
+    ok: true,
+    outputs,
+    pictures,
+    totalCombinations: combinations.length,
+    selectedIndices: Array.from(selectedIndices),
+    provider: llm.provider.name,
+    model: llm.model
+  };
+}
+
+/**
+ * Generates every field for a flow and returns a single page object
+ * Text fields run in parallel; the pictures prompt runs once for all four picture boxes
+ */
+export async function generatePage(input: GenerationContext): Promise<GeneratedPage> {
+  const context = { ...input, runId: input.runId || createRunId() };
+  const fields: Record<string, string> = {};
+  const errors: Record<string, string> = {};
+  const textFields = getTextFieldsForFlow(context.flow);
+
+  const [textResults, picturesResult] = await Promise.all([
+    Promise.all(textFields.map(fieldId => generateField(fieldId, context))),
+    generatePictures(context)
+  ]);
+
+  let faqs: FaqItem[] | undefined;
+  textResults.forEach((result, index) => {
+    const fieldId = textFields[index];
+    if (result.ok) {
+      fields[fieldId] = result.output;
+      if (result.structured) faqs = result.structured;
+    } else {
+      errors[fieldId] = result.error;
+    }
+  });
+
+  let pictures: GeneratedPage['pictures'] = [];
+  if (picturesResult.ok) {
+    pictures = picturesResult.pictures;
+    Object.assign(fields, picturesResult.outputs);
+  } else {
+    errors.pictures = picturesResult.error;
+  }
+
+  // JSON-LD is only included once it passes validation
+  const schema = buildSchemaField({ keyword: context.keyword, faqs, fields });
+  if (schema.valid) {
+    fields.schema = schema.output;
+  } else {
+    errors.schema = schema.errors.join('; ');
+  }
+
+  return {
+    keyword: context.keyword,
+    flow: context.flow,
+    fields,
+    pictures,
+    faqs,
+    errors,
+    generatedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Shared Google client factory
+ * Routes resolve the caller's session to a valid access token here; tokens are
+ * refreshed through tokenManager and never accepted from the client.
+ */
+
+import { google } from 'googleapis';
+import { NextRequest } from 'next/server';
+import { getSessionId } from './session';
+import { deleteSessionRecord, getSessionRecord, saveSessionRecord } from './sessionStore';
+import { getValidAccessToken } from './tokenManager';
+import { getConfig } from './config';
+
+const { clientId: GOOGLE_CLIENT_ID, clientSecret: GOOGLE_CLIENT_SECRET } = getConfig().google;
+
+export interface GoogleAccess {
+  ok: true;
+  sessionId: string;
+  accessToken: string;
+}
+
+export interface GoogleAccessError {
+  ok: false;
+  error: string;
+  status: number;
+}
+
+/**
+ * OAuth2 client for Google API calls made with an access token
+ */
+export function createGoogleAuth(accessToken: string) {
+  const auth = new google.auth.OAuth2(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET);
+  auth.setCredentials({ access_token: accessToken });
+  return auth;
+}
+
+/**
+ * Returns a valid access token for a stored session, refreshing and saving it if expired
+ * Usable outside a request (e.g. batch jobs) since it only needs the session id
+ */
+export async function getSessionAccessToken(sessionId: string): Promise<string | null> {
+  const record = await getSessionRecord(sessionId);
+  if (!record) return null;
+
+  return getValidAccessToken(record.accessToken, JSON.stringify(record), async (refreshed) => {
+    await saveSessionRecord(sessionId, { ...record, ...refreshed });
+  });
+}
+
+/**
+ * Resolves the request's session cookie to a Google access token
+ */
+export async function getGoogleAccess(req: NextRequest): Promise<GoogleAccess | GoogleAccessError> {
+  const sessionId = getSessionId(req);
+  if (!sessionId) {
+    return { ok: false, error: 'Authentication required. Please authenticate with Google.', status: 401 };
+  }
+
+  const accessToken = await getSessionAccessToken(sessionId);
+  if (!accessToken) {
+    return { ok: false, error: 'Google session expired. Please authenticate with Google again.', status: 401 };
+  }
+
+  return { ok: true, sessionId, accessToken };
+}
+
+export async function endSession(req: NextRequest): Promise<void> {
+  const sessionId = getSessionId(req);
+  if (sessionId) {
+    await deleteSessionRecord(sessionId);
+  }
+}
@@ -1,4 +1,5 @@
 import { google } from 'googleapis'
+import { getConfig } from './config'
 
 export interface ClassificationResult {
   category: 'with subtopics' | 'no subtopics' | null;
@@ -46,7 +47,8 @@ export async function detectCategoryFromDoc(docUrl: string, keyword: string, acc
     console.log('Google Doc Debug - Document URL:', docUrl);
     
     // Use the direct document ID from environment variable if available
-    let documentId: string | null = process.env.GOOGLE_DOC_ID?.trim() || process.env['GOOGLE-DOC-ID']?.trim() || null;
+    const config = getConfig().google;
+    let documentId: string | null = config.docId || null;
     if (!documentId) {
       documentId = extractDocumentId(docUrl);
     }
@@ -62,11 +64,10 @@ export async function detectCategoryFromDoc(docUrl: string, keyword: string, acc
     documentId = documentId.replace(/['"]/g, '').trim();
     
     console.log('Google Doc Debug - Document ID:', documentId);
-    console.log('Google Doc Debug - Using direct document ID from env:', !!process.env.GOOGLE_DOC_ID);
+    console.log('Google Doc Debug - Using direct document ID from env:', !!config.docId);
     
     // Check if we have OAuth credentials
-    const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID?.trim();
-    const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET?.trim();
+    const { clientId: GOOGLE_CLIENT_ID, clientSecret: GOOGLE_CLIENT_SECRET } = config;
     
     if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
       return {
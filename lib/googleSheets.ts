@@ -1,9 +1,8 @@
 import { google } from 'googleapis'
+import { getConfig } from './config'
 
 // Google Sheets configuration
-const GOOGLE_SHEET_ID = process.env.GOOGLE_SHEET_ID?.trim()
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID?.trim()
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET?.trim()
+const { sheetId: GOOGLE_SHEET_ID, clientId: GOOGLE_CLIENT_ID, clientSecret: GOOGLE_CLIENT_SECRET } = getConfig().google
 
 export interface CompetitorResult {
   competitorUrls: string[];
@@ -25,6 +24,63 @@ interface GoogleSheetsResult {
   accessMethod: string
 }
 
+export interface SheetKeywordRow {
+  rowNumber: number
+  keyword: string
+  competitorUrls: string[]
+}
+
+// Split a column H cell into URLs by common separators
+function parseCompetitorUrls(cell: string): string[] {
+  return cell.split(/[\n\r,;]+/)
+    .map((url: string) => url.trim())
+    .filter((url: string) => url.length > 0 && (url.startsWith('http') || url.includes('.')))
+}
+
+/**
+ * Lists every keyword row (column D) with its competitor URLs (column H)
+ * Used by batch runs to pick keywords from the same sheet the UI looks up
+ */
+export async function getKeywordRowsFromSheets(accessToken: string): Promise<{ rows: SheetKeywordRow[]; error?: string }> {
+  if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
+    return { rows: [], error: 'Google OAuth credentials not configured. Need GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET in environment variables.' }
+  }
+
+  if (!GOOGLE_SHEET_ID) {
+    return { rows: [], error: 'GOOGLE_SHEET_ID not configured in environment variables.' }
+  }
+
+  try {
+    const auth = new google.auth.OAuth2(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET)
+    auth.setCredentials({ access_token: accessToken })
+    const sheets = google.sheets({ version: 'v4', auth })
+
+    const response = await sheets.spreadsheets.values.get({
+      spreadsheetId: GOOGLE_SHEET_ID,
+      range: 'D:H',
+    })
+
+    const rows: SheetKeywordRow[] = []
+    const values = response.data.values || []
+    for (let i = 0; i < values.length; i++) {
+      const keyword = (values[i][0] || '').trim()
+      if (!keyword) continue
+      rows.push({
+        rowNumber: i + 1,
+        keyword,
+        competitorUrls: parseCompetitorUrls(values[i][4] || '')
+      })
+    }
+
+    console.log(`Google Sheets API: Listed ${rows.length} keyword rows`)
+    return { rows }
+
+  } catch (error) {
+    console.error('Google Sheets API error:', error)
+    return { rows: [], error: `API Error: ${error instanceof Error ? error.message : 'Unknown error'}` }
+  }
+}
+
 export async function getCompetitorUrlsFromSheets(keyword: string, accessToken?: string): Promise<GoogleSheetsResult> {
   console.log(`Google Sheets API: Looking for keyword "${keyword}"`)
   
@@ -117,10 +173,7 @@ export async function getCompetitorUrlsFromSheets(keyword: string, accessToken?:
         const cellH = row[4] || '' // Column H
         
         if (cellH.trim()) {
-          // Split URLs by common separators
-          const urls = cellH.split(/[\n\r,;]+/)
-            .map((url: string) => url.trim())
-            .filter((url: string) => url.length > 0 && (url.startsWith('http') || url.includes('.')))
+          const urls = parseCompetitorUrls(cellH)
           
           competitorUrls = urls
           console.log(`Google Sheets API: Found ${urls.length} competitor URLs in column H: ${JSON.stringify(urls)}`)
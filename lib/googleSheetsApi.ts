@@ -1,4 +1,5 @@
 import { google } from 'googleapis';
+import { getConfig } from './config';
 
 export interface CompetitorResult {
   competitorUrls: string[];
@@ -30,7 +31,7 @@ export async function fetchCompetitorUrlsFromSheetsApi(
     console.log('Sheets API Debug - Sheet ID:', sheetId);
     
     // Use API key for public sheet access
-    const apiKey = process.env.GOOGLE_SHEETS_API_KEY;
+    const apiKey = getConfig().google.sheetsApiKey;
     
     if (!apiKey) {
       console.log('Sheets API Debug - API key not found in environment variables');
@@ -1,9 +1,9 @@
 import { google } from 'googleapis'
+import { getConfig } from './config'
+import { getSheetName } from './fields'
 
 // Google Sheets configuration
-const GOOGLE_SHEET_ID = process.env.GOOGLE_SHEET_ID?.trim()
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID?.trim()
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET?.trim()
+const { sheetId: GOOGLE_SHEET_ID, clientId: GOOGLE_CLIENT_ID, clientSecret: GOOGLE_CLIENT_SECRET } = getConfig().google
 
 export interface PromptResult {
   prompt: string | null
@@ -12,26 +12,6 @@ export interface PromptResult {
   error?: string
 }
 
-// Map internal field IDs to spreadsheet field names
-// Now using simplified field names - the same for both flows
-function mapFieldId(fieldId: string): string {
-  const mappings: Record<string, string> = {
-    'title': 'Title',
-    'intro': 'Intro',
-    'pic1': 'Pic1',
-    'pic2': 'Pic2',
-    'pic3': 'Pic3',
-    'pic4': 'Pic4',
-    'pictures': 'Pictures',  // Combined prompt for all pictures in C13
-    'subtopics': 'Subtopics',
-    'cost': 'Cost',
-    'why': 'Why',
-    'faq': 'FAQ'
-  }
-  
-  return mappings[fieldId] || fieldId
-}
-
 export async function getPromptFromSheets(fieldId: string, accessToken: string): Promise<PromptResult> {
   console.log(`Google Sheets Prompts API: Looking for field "${fieldId}"`)
   
@@ -98,7 +78,7 @@ export async function getPromptFromSheets(fieldId: string, accessToken: string):
     }
 
     // Map the field ID to match spreadsheet naming
-    const mappedFieldId = mapFieldId(fieldId)
+    const mappedFieldId = getSheetName(fieldId)
     console.log(`Google Sheets Prompts API: Looking for "${mappedFieldId}" (mapped from "${fieldId}")`)
 
     // Search for the field in column B (index 0)
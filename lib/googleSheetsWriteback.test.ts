@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { findKeywordRow } from './googleSheetsWriteback';
+
+const rows = [
+  { rowNumber: 2, keyword: 'Junk Removal Boise', competitorUrls: [] },
+  { rowNumber: 3, keyword: ' junk removal ', competitorUrls: [] }
+];
+
+describe('findKeywordRow', () => {
+  it('matches column D exactly, ignoring case and surrounding spaces', () => {
+    expect(findKeywordRow(rows, 'Junk removal')?.rowNumber).toBe(3);
+    expect(findKeywordRow(rows, 'junk removal boise ')?.rowNumber).toBe(2);
+  });
+
+  it("doesn't take a row that merely contains the keyword", () => {
+    expect(findKeywordRow(rows, 'removal')).toBeNull();
+    expect(findKeywordRow(rows.slice(0, 1), 'junk removal')).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+import { google } from 'googleapis'
+import { getConfig } from './config'
+import { FIELDS } from './fields'
+import { getKeywordRowsFromSheets, SheetKeywordRow } from './googleSheets'
+
+// Google Sheets configuration
+const { sheetId: GOOGLE_SHEET_ID, clientId: GOOGLE_CLIENT_ID, clientSecret: GOOGLE_CLIENT_SECRET } = getConfig().google
+
+// Google Sheets rejects cells longer than this
+const MAX_CELL_LENGTH = 50000
+
+export type WritebackMode = 'off' | 'columns' | 'tab'
+
+export interface WritebackConfig {
+  mode: WritebackMode
+  // Column letter for each field id plus the "status" and "updated" columns
+  columns: Record<string, string>
+  // Tab used in "tab" mode; rows line up with the keyword rows of the main sheet
+  tabName: string
+}
+
+export interface WritebackResult {
+  ok: boolean
+  rowNumber?: number
+  // Tab written to; empty for the keyword sheet itself
+  tabName?: string
+  updatedCells?: number
+  error?: string
+}
+
+export function columnToIndex(column: string): number {
+  let index = 0
+  for (const char of column.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+export function indexToColumn(index: number): string {
+  let column = ''
+  let n = index + 1
+  while (n > 0) {
+    const remainder = (n - 1) % 26
+    column = String.fromCharCode(65 + remainder) + column
+    n = Math.floor((n - 1) / 26)
+  }
+  return column
+}
+
+/**
+ * Reads write-back settings from the environment
+ *   SHEET_WRITEBACK=columns|tab        opt-in; anything else leaves the sheet untouched
+ *   SHEET_OUTPUT_START_COLUMN=I        status, updated, then every field in registry order
+ *   SHEET_OUTPUT_COLUMNS=title=K,faq=Q  per-column overrides
+ *   SHEET_OUTPUT_TAB=Outputs           tab name for "tab" mode
+ */
+export function getWritebackConfig(): WritebackConfig {
+  const { mode, tab: tabName, startColumn, columns: overrides } = getConfig().writeback
+
+  // The Outputs tab keeps the keyword in column A, so its outputs start at B
+  const defaultStart = mode === 'tab' ? 'B' : 'I'
+  const start = columnToIndex(startColumn || defaultStart)
+  const columns: Record<string, string> = {}
+  const keys = ['status', 'updated', ...FIELDS.map(field => field.id)]
+  keys.forEach((key, offset) => {
+    columns[key] = indexToColumn(start + offset)
+  })
+
+  for (const entry of (overrides || '').split(',')) {
+    const [key, column] = entry.split('=')
+    if (key?.trim() && column?.trim() && /^[A-Za-z]+$/.test(column.trim())) {
+      columns[key.trim()] = column.trim().toUpperCase()
+    }
+  }
+
+  return { mode, columns, tabName }
+}
+
+export function isWritebackEnabled(): boolean {
+  return getWritebackConfig().mode !== 'off'
+}
+
+function headerFor(key: string): string {
+  if (key === 'status') return 'Status'
+  if (key === 'updated') return 'Updated'
+  return FIELDS.find(field => field.id === key)?.label || key
+}
+
+/**
+ * The row whose column D is exactly the keyword, ignoring case and surrounding spaces
+ * A partial match could be another keyword's row ("junk removal" in "junk removal boise").
+ */
+export function findKeywordRow(rows: SheetKeywordRow[], keyword: string): SheetKeywordRow | null {
+  const wanted = keyword.trim().toLowerCase()
+  return rows.find(row => row.keyword.trim().toLowerCase() === wanted) || null
+}
+
+/**
+ * Writes generated fields, a status and a timestamp onto the keyword's row
+ * Callers that already know the row (batch runs) pass rowNumber; otherwise the row whose
+ * column D matches the keyword is used, so outputs line up with its competitor URLs
+ */
+export async function writeGeneratedContent(
+  keyword: string,
+  fields: Record<string, string>,
+  accessToken: string,
+  status: string = 'Generated',
+  rowNumber?: number
+): Promise<WritebackResult> {
+  const config = getWritebackConfig()
+
+  if (config.mode === 'off') {
+    return { ok: false, error: 'Sheet write-back is disabled. Set SHEET_WRITEBACK to "columns" or "tab".' }
+  }
+
+  if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET || !GOOGLE_SHEET_ID) {
+    return { ok: false, error: 'Google Sheets not configured. Need GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET and GOOGLE_SHEET_ID.' }
+  }
+
+  if (!accessToken) {
+    return { ok: false, error: 'No access token provided. User needs to authenticate with Google.' }
+  }
+
+  if (!rowNumber) {
+    const { rows, error } = await getKeywordRowsFromSheets(accessToken)
+    const row = findKeywordRow(rows, keyword)
+    if (!row) {
+      return { ok: false, error: error || `Keyword "${keyword}" not found in column D` }
+    }
+    rowNumber = row.rowNumber
+  }
+
+  try {
+    const auth = new google.auth.OAuth2(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET)
+    auth.setCredentials({ access_token: accessToken })
+    const sheets = google.sheets({ version: 'v4', auth })
+
+    const values: Record<string, string> = {
+      ...fields,
+      status,
+      updated: new Date().toISOString()
+    }
+
+    // Only write the fields that were generated so earlier outputs aren't blanked
+    const keys = Object.keys(config.columns).filter(key => typeof values[key] === 'string')
+    const prefix = config.mode === 'tab' ? `'${config.tabName.replace(/'/g, "''")}'!` : ''
+
+    const data = keys.map(key => ({
+      range: `${prefix}${config.columns[key]}${rowNumber}`,
+      values: [[values[key].slice(0, MAX_CELL_LENGTH)]]
+    }))
+
+    if (config.mode === 'tab') {
+      data.push({ range: `${prefix}A${rowNumber}`, values: [[keyword]] })
+      // Header row so the tab is readable on its own
+      if (rowNumber !== 1) {
+        data.push({ range: `${prefix}A1`, values: [['Keyword']] })
+        for (const key of Object.keys(config.columns)) {
+          data.push({ range: `${prefix}${config.columns[key]}1`, values: [[headerFor(key)]] })
+        }
+      }
+    }
+
+    console.log(`Google Sheets Write-back: Writing ${keys.length} cells to row ${rowNumber} (${config.mode} mode)`)
+
+    const response = await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: GOOGLE_SHEET_ID,
+      requestBody: {
+        valueInputOption: 'RAW',
+        data
+      }
+    })
+
+    return {
+      ok: true,
+      rowNumber,
+      tabName: config.mode === 'tab' ? config.tabName : undefined,
+      updatedCells: response.data.totalUpdatedCells || 0
+    }
+
+  } catch (error) {
+    console.error('Google Sheets Write-back error:', error)
+    return {
+      ok: false,
+      rowNumber,
+      error: `API Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Per-feature readiness for /api/health and the startup check
+ * Each feature is ready when its configuration rules are met and, when probed,
+ * the services it depends on answer within HEALTH_PROBE_TIMEOUT_MS.
+ */
+
+import { AppConfig, ConfigFeature, getConfig, getFeatureStatus, getLlmProviderNames, validateConfig } from './config';
+import { getWordPressConfig } from './wordpress';
+
+export type HealthFeature = 'text' | 'classification' | 'competitors' | 'images' | 'publishing';
+
+export type FeatureHealth = 'ready' | 'unconfigured' | 'unreachable';
+
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface ProbeResult {
+  name: string;
+  ok: boolean;
+  httpStatus?: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface FeatureReport {
+  label: string;
+  status: FeatureHealth;
+  missing: string[];
+  probes: ProbeResult[];
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checkedAt: string;
+  config: {
+    isValid: boolean;
+    errors: string[];
+  };
+  features: Record<HealthFeature, FeatureReport>;
+}
+
+interface Probe {
+  name: string;
+  url: string;
+  headers?: Record<string, string>;
+  // Any HTTP response proves the service is reachable; some probes also check the key
+  accept: (status: number) => boolean;
+}
+
+interface FeatureCheck {
+  feature: HealthFeature;
+  label: string;
+  rules: ConfigFeature[];
+  probes: (config: AppConfig) => Probe[];
+}
+
+// /api/health is public, so probe results are reused briefly rather than hitting every service per request
+const PROBE_CACHE_MS = 30 * 1000;
+
+let probeCache: { at: number; results: Record<string, Promise<ProbeResult>> } | null = null;
+
+const authenticated = (status: number) => status >= 200 && status < 300;
+const reachable = (status: number) => status > 0;
+
+function llmProbes(config: AppConfig): Probe[] {
+  const providers = getLlmProviderNames(config);
+  const probes: Probe[] = [];
+
+  if (providers.indexOf('openai') !== -1 && config.llm.openaiApiKey) {
+    probes.push({
+      name: 'openai',
+      url: 'https://api.openai.com/v1/models',
+      headers: { Authorization: `Bearer ${config.llm.openaiApiKey}` },
+      accept: authenticated
+    });
+  }
+  if (providers.indexOf('anthropic') !== -1 && config.llm.anthropicApiKey) {
+    probes.push({
+      name: 'anthropic',
+      url: 'https://api.anthropic.com/v1/models',
+      headers: { 'x-api-key': config.llm.anthropicApiKey, 'anthropic-version': '2023-06-01' },
+      accept: authenticated
+    });
+  }
+  return probes;
+}
+
+function sheetsProbe(config: AppConfig): Probe {
+  // Without a server-side key the sheet itself needs a user's token, so only reachability is checked
+  if (config.google.sheetsApiKey) {
+    return {
+      name: 'google-sheets',
+      url: `https://sheets.googleapis.com/v4/spreadsheets/${config.google.sheetId}?fields=spreadsheetId&key=${encodeURIComponent(config.google.sheetsApiKey)}`,
+      accept: authenticated
+    };
+  }
+  return { name: 'google-sheets', url: 'https://sheets.googleapis.com/$discovery/rest?version=v4', accept: reachable };
+}
+
+const FEATURE_CHECKS: FeatureCheck[] = [
+  {
+    feature: 'text',
+    label: 'Text generation',
+    rules: ['llm', 'google'],
+    probes: config => llmProbes(config).concat(sheetsProbe(config))
+  },
+  {
+    feature: 'classification',
+    label: 'Keyword classification',
+    rules: ['classification'],
+    probes: config => [config.google.docUrl
+      ? { name: 'google-doc', url: config.google.docUrl, accept: authenticated }
+      : { name: 'google-docs', url: 'https://docs.googleapis.com/$discovery/rest?version=v1', accept: reachable }]
+  },
+  {
+    feature: 'competitors',
+    label: 'Competitor lookup',
+    rules: ['google'],
+    probes: config => [sheetsProbe(config)]
+  },
+  {
+    feature: 'images',
+    label: 'Image processing',
+    rules: ['images'],
+    probes: config => [{
+      name: 'freepik',
+      url: `${config.freepik.apiUrl}/v1/resources?limit=1`,
+      headers: { 'x-freepik-api-key': config.freepik.apiKey || '' },
+      accept: authenticated
+    }]
+  },
+  {
+    feature: 'publishing',
+    label: 'WordPress publishing',
+    rules: ['wordpress'],
+    probes: () => {
+      const wordpress = getWordPressConfig();
+      if (!wordpress) return [];
+      const credentials = `${wordpress.username}:${wordpress.appPassword.replace(/\s+/g, '')}`;
+      return [{
+        name: 'wordpress',
+        url: `${wordpress.baseUrl}/wp-json/wp/v2/users/me?context=edit`,
+        headers: { Authorization: `Basic ${Buffer.from(credentials).toString('base64')}` },
+        accept: authenticated
+      }];
+    }
+  }
+];
+
+async function runProbe(probe: Probe, timeoutMs: number): Promise<ProbeResult> {
+  const started = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(probe.url, {
+      headers: probe.headers,
+      signal: controller.signal,
+      cache: 'no-store'
+    });
+    const ok = probe.accept(response.status);
+    return {
+      name: probe.name,
+      ok,
+      httpStatus: response.status,
+      latencyMs: Date.now() - started,
+      error: ok ? undefined : `Unexpected response ${response.status}`
+    };
+  } catch (error) {
+    return {
+      name: probe.name,
+      ok: false,
+      latencyMs: Date.now() - started,
+      error: controller.signal.aborted
+        ? `Timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : 'Request failed'
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Features sharing a service (text and competitors both use Sheets) share one probe
+function cachedProbe(probe: Probe, timeoutMs: number): Promise<ProbeResult> {
+  if (!probeCache || Date.now() - probeCache.at > PROBE_CACHE_MS) {
+    probeCache = { at: Date.now(), results: {} };
+  }
+  const key = `${probe.name} ${probe.url}`;
+  if (!probeCache.results[key]) {
+    probeCache.results[key] = runProbe(probe, timeoutMs);
+  }
+  return probeCache.results[key];
+}
+
+/**
+ * Builds the health report; pass probe: false to check configuration only
+ * The status is "down" when the configuration is invalid or text generation is not ready,
+ * "degraded" when any other feature is not ready, and "ok" otherwise.
+ */
+export async function getHealthReport(options: { probe?: boolean } = {}): Promise<HealthReport> {
+  const config = getConfig();
+  const validation = validateConfig();
+  const ruleStatus = getFeatureStatus();
+  const features = {} as Record<HealthFeature, FeatureReport>;
+
+  await Promise.all(FEATURE_CHECKS.map(async check => {
+    const missing: string[] = [];
+    for (const status of ruleStatus) {
+      if (check.rules.indexOf(status.feature) !== -1) missing.push(...status.missing);
+    }
+
+    const probes = missing.length === 0 && options.probe !== false
+      ? await Promise.all(check.probes(config).map(probe => cachedProbe(probe, config.health.probeTimeoutMs)))
+      : [];
+
+    features[check.feature] = {
+      label: check.label,
+      status: missing.length > 0 ? 'unconfigured' : probes.every(result => result.ok) ? 'ready' : 'unreachable',
+      missing,
+      probes
+    };
+  }));
+
+  const allReady = FEATURE_CHECKS.every(check => features[check.feature].status === 'ready');
+  const status: HealthStatus = !validation.isValid || features.text.status !== 'ready'
+    ? 'down'
+    : allReady ? 'ok' : 'degraded';
+
+  return {
+    status,
+    checkedAt: new Date().toISOString(),
+    config: { isValid: validation.isValid, errors: validation.errors },
+    features
+  };
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { queryRecords } from './memory';
+import { GenerationRecord, HistoryStore } from './types';
+
+export const DEFAULT_HISTORY_FILE = 'data/history.jsonl';
+
+/**
+ * Stores history as one JSON record per line
+ * Appends are cheap; deletes rewrite the file. Writes are queued so
+ * concurrent generations (e.g. Generate All) don't interleave.
+ */
+export function createFileHistoryStore(filePath: string = DEFAULT_HISTORY_FILE): HistoryStore {
+  const resolved = path.resolve(process.cwd(), filePath);
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = writeQueue.then(task);
+    writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  };
+
+  const readAll = async (): Promise<GenerationRecord[]> => {
+    let text: string;
+    try {
+      text = await fs.readFile(resolved, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: GenerationRecord[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip a partially written line rather than losing the whole history
+        console.warn('History: Skipping unreadable record');
+      }
+    }
+    return records;
+  };
+
+  return {
+    name: 'file',
+
+    add(record) {
+      return enqueue(async () => {
+        await fs.mkdir(path.dirname(resolved), { recursive: true });
+        await fs.appendFile(resolved, `${JSON.stringify(record)}\n`, 'utf8');
+      });
+    },
+
+    async list(query) {
+      await writeQueue;
+      return queryRecords(await readAll(), query);
+    },
+
+    async get(id) {
+      await writeQueue;
+      return (await readAll()).find(record => record.id === id) || null;
+    },
+
+    remove(id) {
+      return enqueue(async () => {
+        const records = await readAll();
+        const remaining = records.filter(record => record.id !== id);
+        if (remaining.length === records.length) return false;
+
+        await fs.writeFile(resolved, remaining.map(record => `${JSON.stringify(record)}\n`).join(''), 'utf8');
+        return true;
+      });
+    },
+  };
+}
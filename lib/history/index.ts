@@ -0,0 +1,69 @@
+/**
+ * Generation history
+ *
+ * Every field generation is recorded with the prompt that produced it:
+ *   HISTORY_STORE=file          JSON lines file (default), path from HISTORY_FILE
+ *   HISTORY_STORE=memory        in-process only, for tests and read-only hosts
+ */
+
+import { randomUUID } from 'crypto';
+import { getConfig } from '../config';
+import { createFileHistoryStore } from './file';
+import { createMemoryHistoryStore } from './memory';
+import { GenerationRecord, HistoryStore } from './types';
+
+export * from './types';
+export { createFileHistoryStore } from './file';
+export { createMemoryHistoryStore } from './memory';
+
+let store: HistoryStore | null = null;
+
+/**
+ * Returns the configured history store, creating it on first use
+ */
+export function getHistoryStore(): HistoryStore {
+  if (store) return store;
+
+  // Unknown HISTORY_STORE values are reported by validateConfig and fall back to the file store
+  const { store: configured, file } = getConfig().history;
+
+  store = configured === 'memory'
+    ? createMemoryHistoryStore()
+    : createFileHistoryStore(file);
+
+  return store;
+}
+
+/**
+ * Replaces the store (tests and custom adapters)
+ */
+export function setHistoryStore(custom: HistoryStore | null): void {
+  store = custom;
+}
+
+/**
+ * Lowercased keywords with at least one successfully generated field
+ */
+export async function getGeneratedKeywords(): Promise<Set<string>> {
+  const records = await getHistoryStore().list();
+  return new Set(
+    records
+      .filter(record => record.status === 'success')
+      .map(record => record.keyword.toLowerCase().trim())
+  );
+}
+
+export function createRunId(): string {
+  return randomUUID();
+}
+
+/**
+ * Records a generation without letting storage errors fail the request
+ */
+export async function recordGeneration(record: Omit<GenerationRecord, 'id'>): Promise<void> {
+  try {
+    await getHistoryStore().add({ id: randomUUID(), ...record });
+  } catch (error) {
+    console.error('History: Failed to record generation:', error);
+  }
+}
@@ -0,0 +1,48 @@
+import { GenerationRecord, HistoryQuery, HistoryStore } from './types';
+
+/**
+ * Filters and orders records for a query (newest first)
+ * Shared by the adapters that keep records in memory
+ */
+export function queryRecords(records: GenerationRecord[], query: HistoryQuery = {}): GenerationRecord[] {
+  const keyword = query.keyword?.toLowerCase().trim();
+
+  const matches = records
+    .filter(record => !keyword || record.keyword.toLowerCase().trim() === keyword)
+    .filter(record => !query.fieldId || record.fieldId === query.fieldId)
+    .filter(record => !query.runId || record.runId === query.runId)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  return query.limit && query.limit > 0 ? matches.slice(0, query.limit) : matches;
+}
+
+/**
+ * Keeps history in process memory; lost on restart
+ * Used for tests, local development and read-only deployments
+ */
+export function createMemoryHistoryStore(): HistoryStore {
+  const records: GenerationRecord[] = [];
+
+  return {
+    name: 'memory',
+
+    async add(record) {
+      records.push(record);
+    },
+
+    async list(query) {
+      return queryRecords(records, query);
+    },
+
+    async get(id) {
+      return records.find(record => record.id === id) || null;
+    },
+
+    async remove(id) {
+      const index = records.findIndex(record => record.id === id);
+      if (index === -1) return false;
+      records.splice(index, 1);
+      return true;
+    },
+  };
+}
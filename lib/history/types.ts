@@ -0,0 +1,44 @@
+/**
+ * Shared types for generation history storage
+ */
+
+export type HistoryStoreName = 'file' | 'memory';
+
+export interface GenerationRecord {
+  id: string;
+  // Fields generated together (e.g. one "Generate All" click) share a run id
+  runId: string;
+  keyword: string;
+  flow: string;
+  fieldId: string;
+  // Prompt text sent to the model, after placeholder substitution
+  system?: string;
+  prompt: string;
+  provider: string;
+  model: string;
+  temperature?: number;
+  status: 'success' | 'error';
+  output: string;
+  error?: string;
+  // Inputs needed to restore the Text tab when a run is reloaded
+  competitorUrls?: string[];
+  subtopics?: string[];
+  startedAt: string;
+  completedAt: string;
+}
+
+export interface HistoryQuery {
+  keyword?: string;
+  fieldId?: string;
+  runId?: string;
+  limit?: number;
+}
+
+export interface HistoryStore {
+  name: HistoryStoreName;
+  add(record: GenerationRecord): Promise<void>;
+  // Newest first
+  list(query?: HistoryQuery): Promise<GenerationRecord[]>;
+  get(id: string): Promise<GenerationRecord | null>;
+  remove(id: string): Promise<boolean>;
+}
@@ -0,0 +1,19 @@
+/**
+ * Alt text length limit
+ * Kept apart from altText.ts, which needs sharp and the LLM providers, so client components
+ * can clamp alt text too.
+ */
+
+export const MAX_ALT_LENGTH = 125;
+
+/**
+ * Cuts at a word boundary so the result fits in max characters
+ */
+export function clampAltText(text: string, max: number = MAX_ALT_LENGTH): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= max) return clean;
+
+  const cut = clean.slice(0, max + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > max / 2 ? cut.slice(0, lastSpace) : clean.slice(0, max)).replace(/[\s,;:.-]+$/, '');
+}
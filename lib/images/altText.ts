@@ -0,0 +1,119 @@
+/**
+ * Alt text for processed images
+ * A vision-capable model describes the photo (provider chosen like any field, under the
+ * "alt_text" id in LLM_FIELD_PROVIDERS); if that is disabled or fails, the text is built
+ * from the keyword, the picture field title and the geotag location.
+ */
+
+import sharp from 'sharp';
+import { getConfig } from '../config';
+import { toTitleCase } from '../generation';
+import { resolveLLM } from '../llm';
+import { clampAltText, MAX_ALT_LENGTH } from './altLength';
+import { formatLocation, GeoLocation } from './geotag';
+
+export interface AltTextInput {
+  image: Buffer;
+  keyword?: string;
+  // Title of the Picture field this image illustrates
+  pictureTitle?: string;
+  location?: GeoLocation | null;
+}
+
+export interface AltTextResult {
+  alt: string;
+  source: 'ai' | 'fallback';
+  provider?: string;
+  model?: string;
+  // Why the model wasn't used, when it was enabled
+  error?: string;
+}
+
+const SYSTEM_PROMPT = 'You write alt text for photos on a local service business website. '
+  + 'Describe what is visible in one plain sentence for screen reader users, mentioning the service naturally. '
+  + `Stay under ${MAX_ALT_LENGTH - 25} characters. Do not start with "Image of" or "Photo of", and do not use quotes, hashtags or emoji.`;
+
+function cleanModelText(text: string): string {
+  return text
+    .replace(/^["'“”‘’\s]+|["'“”‘’\s]+$/g, '')
+    .replace(/^(an?\s+)?(image|photo|picture|photograph)\s+(of|showing)\s+/i, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^./, first => first.toUpperCase());
+}
+
+/**
+ * Adds "in Boise, ID" unless the city is already mentioned, trimming the description to make room
+ */
+function withLocation(text: string, location?: GeoLocation | null): string {
+  if (!location || text.toLowerCase().indexOf(location.name.toLowerCase()) !== -1) {
+    return clampAltText(text);
+  }
+  const suffix = ` in ${formatLocation(location)}`;
+  const body = clampAltText(text.replace(/[.\s]+$/, ''), MAX_ALT_LENGTH - suffix.length);
+  return `${body}${suffix}`;
+}
+
+/**
+ * Deterministic alt text: "Garage Cleanout - Junk Removal in Boise, ID"
+ */
+export function buildFallbackAltText(input: Omit<AltTextInput, 'image'>): string {
+  const keyword = input.keyword ? toTitleCase(input.keyword.trim()) : '';
+  const title = input.pictureTitle?.trim() || '';
+  const parts = [title, keyword && title.toLowerCase().indexOf(keyword.toLowerCase()) === -1 ? keyword : '']
+    .filter(Boolean);
+  return withLocation(parts.join(' - ') || 'Project photo', input.location);
+}
+
+export async function generateAltText(input: AltTextInput): Promise<AltTextResult> {
+  const fallback = buildFallbackAltText(input);
+  if (getConfig().imageMetadata.altText !== 'ai') {
+    return { alt: fallback, source: 'fallback' };
+  }
+
+  const { llm, error } = resolveLLM('alt_text');
+  if (!llm) {
+    return { alt: fallback, source: 'fallback', error };
+  }
+
+  try {
+    // A small JPEG keeps the request cheap; the model doesn't need full resolution
+    const preview = await sharp(input.image)
+      .resize(768, 768, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+
+    const context = [
+      input.keyword ? `Service keyword: ${input.keyword}` : '',
+      input.pictureTitle ? `Section this photo illustrates: ${input.pictureTitle}` : '',
+      input.location ? `Location: ${formatLocation(input.location)}` : ''
+    ].filter(Boolean).join('\n');
+
+    const result = await llm.provider.complete({
+      system: SYSTEM_PROMPT,
+      prompt: `Write the alt text for this photo.${context ? `\n${context}` : ''}`,
+      images: [{ mediaType: 'image/jpeg', data: preview.toString('base64') }],
+      model: llm.model,
+      maxTokens: 100,
+      temperature: 0.3
+    });
+
+    const text = cleanModelText(result.text);
+    if (!text) {
+      return { alt: fallback, source: 'fallback', error: 'Model returned no alt text' };
+    }
+
+    return {
+      alt: withLocation(text, input.location),
+      source: 'ai',
+      provider: result.provider,
+      model: result.model
+    };
+  } catch (error) {
+    console.warn('Alt text generation failed, using fallback:', error);
+    return {
+      alt: fallback,
+      source: 'fallback',
+      error: error instanceof Error ? error.message : 'Alt text generation failed'
+    };
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * "Process all" batches of image jobs
+ * Every image becomes a queued job up front; the runner submits IMAGE_BATCH_CONCURRENCY of them
+ * at a time and sends the next once one finishes (by webhook or poll). The runner
+ * lives in memory, so reading a batch starts it again after a server restart.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getConfig } from '../config';
+import { isNotFoundError } from '../fsErrors';
+import {
+  createImageJob,
+  ImageJob,
+  ImageJobInput,
+  ImageJobStatus,
+  loadImageJob,
+  refreshImageJob,
+  retryImageJob,
+  submitImageJob,
+  toImageJobResponse
+} from './jobs';
+
+export interface ImageBatch {
+  id: string;
+  jobIds: string[];
+  concurrency: number;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ImageBatchProgress {
+  batch: ImageBatch;
+  status: 'running' | 'completed';
+  counts: Record<ImageJobStatus, number>;
+  jobs: ImageJob[];
+}
+
+// How often the runner checks its jobs and fills free slots
+const RUNNER_INTERVAL_MS = 3 * 1000;
+
+const runners: Record<string, Promise<void>> = {};
+
+function batchFile(id: string): string {
+  // Batch ids are generated UUIDs; reject anything that could escape the directory
+  if (!/^[a-zA-Z0-9-]+$/.test(id)) {
+    throw new Error(`Invalid image batch id "${id}"`);
+  }
+  return path.join(path.resolve(process.cwd(), getConfig().imageJobs.dir), `batch-${id}.json`);
+}
+
+function isFinished(job: ImageJob): boolean {
+  return job.status === 'done' || job.status === 'failed';
+}
+
+async function saveImageBatch(batch: ImageBatch): Promise<void> {
+  batch.updatedAt = new Date().toISOString();
+  const file = batchFile(batch.id);
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(batch, null, 2), 'utf8');
+  await fs.rename(temp, file);
+}
+
+export async function loadImageBatch(id: string): Promise<ImageBatch | null> {
+  try {
+    return JSON.parse(await fs.readFile(batchFile(id), 'utf8'));
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+async function runBatch(batch: ImageBatch): Promise<void> {
+  for (;;) {
+    // Refreshing polls Freepik for submitted jobs and leaves waiting ones alone
+    const jobs = (await Promise.all(batch.jobIds.map(id => refreshImageJob(id))))
+      .filter((job): job is ImageJob => !!job);
+    const inFlight = jobs.filter(job => job.submittedAt && !isFinished(job));
+    const waiting = jobs.filter(job => job.status === 'queued' && !job.submittedAt);
+
+    if (inFlight.length === 0 && waiting.length === 0) return;
+
+    for (const job of waiting.slice(0, Math.max(0, batch.concurrency - inFlight.length))) {
+      await submitImageJob(job.id);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, RUNNER_INTERVAL_MS));
+  }
+}
+
+/**
+ * Starts the runner unless one is already working on the batch
+ */
+export function runImageBatch(batch: ImageBatch): void {
+  if (runners[batch.id] !== undefined) return;
+
+  runners[batch.id] = runBatch(batch)
+    .catch(error => console.error(`Image batch ${batch.id} stopped:`, error))
+    .finally(() => {
+      delete runners[batch.id];
+    });
+}
+
+/**
+ * Saves every prepared upload as a queued job of a new batch and starts submitting them
+ */
+export async function createImageBatch(
+  inputs: Array<Omit<ImageJobInput, 'batchId'>>,
+  createdBy?: string
+): Promise<ImageBatchProgress> {
+  const now = new Date().toISOString();
+  const batch: ImageBatch = {
+    id: randomUUID(),
+    jobIds: [],
+    concurrency: getConfig().imageJobs.batchConcurrency,
+    createdBy,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  for (const input of inputs) {
+    const job = await createImageJob({ ...input, batchId: batch.id });
+    batch.jobIds.push(job.id);
+  }
+  await saveImageBatch(batch);
+
+  runImageBatch(batch);
+  return (await getImageBatchProgress(batch.id))!;
+}
+
+/**
+ * Per-image state of a batch; restarts the runner when unfinished jobs have none
+ */
+export async function getImageBatchProgress(id: string): Promise<ImageBatchProgress | null> {
+  const batch = await loadImageBatch(id);
+  if (!batch) return null;
+
+  const jobs: ImageJob[] = [];
+  for (const jobId of batch.jobIds) {
+    const job = await loadImageJob(jobId);
+    if (job) jobs.push(job);
+  }
+
+  const counts: Record<ImageJobStatus, number> = { queued: 0, processing: 0, done: 0, failed: 0 };
+  for (const job of jobs) counts[job.status]++;
+
+  const running = jobs.some(job => !isFinished(job));
+  if (running) runImageBatch(batch);
+
+  return { batch, status: running ? 'running' : 'completed', counts, jobs };
+}
+
+/**
+ * Queues the batch's failed jobs (or just the given ones) again
+ */
+export async function retryImageBatch(id: string, jobIds?: string[]): Promise<ImageBatchProgress | null> {
+  const batch = await loadImageBatch(id);
+  if (!batch) return null;
+
+  for (const jobId of batch.jobIds) {
+    if (jobIds && jobIds.indexOf(jobId) === -1) continue;
+    // Jobs that aren't failed are left as they are
+    await retryImageJob(jobId);
+  }
+
+  return getImageBatchProgress(id);
+}
+
+/**
+ * Batch progress as returned to the Pictures tab; finished images are fetched one by one
+ * from /api/image/jobs/[id]
+ */
+export async function toImageBatchResponse(progress: ImageBatchProgress) {
+  return {
+    batch_id: progress.batch.id,
+    status: progress.status,
+    concurrency: progress.batch.concurrency,
+    counts: progress.counts,
+    jobs: await Promise.all(progress.jobs.map(job => toImageJobResponse(job, { includeImage: false })))
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * ZIP export of finished image jobs
+ * The archive holds each job's WebP under its SEO filename (optionally with every responsive
+ * variant) plus manifest.csv and manifest.json listing filenames, alt text and geotags.
+ */
+
+import { createZip, ZipEntry } from '../zip';
+import { ImageJob, loadImageJobOutput, loadImageJobVariant } from './jobs';
+
+export interface ImageManifestEntry {
+  filename: string;
+  originalFilename: string;
+  keyword?: string;
+  alt: string;
+  altSource: 'ai' | 'fallback';
+  city?: string;
+  region?: string;
+  latitude?: number;
+  longitude?: number;
+  geotagApplied: boolean;
+  bytes: number;
+  // Variant files included in the archive
+  variants: string[];
+}
+
+const CSV_COLUMNS: Array<[string, keyof ImageManifestEntry]> = [
+  ['filename', 'filename'],
+  ['original_filename', 'originalFilename'],
+  ['keyword', 'keyword'],
+  ['alt', 'alt'],
+  ['alt_source', 'altSource'],
+  ['city', 'city'],
+  ['region', 'region'],
+  ['latitude', 'latitude'],
+  ['longitude', 'longitude'],
+  ['geotag_applied', 'geotagApplied'],
+  ['bytes', 'bytes'],
+  ['variants', 'variants']
+];
+
+function csvCell(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(' ') : value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildManifestCsv(entries: ImageManifestEntry[]): string {
+  const lines = [CSV_COLUMNS.map(([header]) => header).join(',')];
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map(([, key]) => csvCell(entry[key])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// Two jobs for the same keyword and position would otherwise overwrite each other in the archive
+export function uniqueName(name: string, used: Record<string, true>): string {
+  let candidate = name;
+  for (let copy = 2; used[candidate]; copy++) {
+    candidate = name.replace(/(\.[^.]+)?$/, `-copy${copy}$1`);
+  }
+  used[candidate] = true;
+  return candidate;
+}
+
+/**
+ * Archives the finished jobs; unfinished ones are skipped and reported
+ */
+export async function buildImageExport(
+  jobs: ImageJob[],
+  options: { variants?: boolean } = {}
+): Promise<{ zip: Buffer; manifest: ImageManifestEntry[]; skipped: string[] }> {
+  const files: ZipEntry[] = [];
+  const manifest: ImageManifestEntry[] = [];
+  const skipped: string[] = [];
+  const used: Record<string, true> = { 'manifest.csv': true, 'manifest.json': true };
+
+  for (const job of jobs) {
+    const output = job.status === 'done' && job.result ? await loadImageJobOutput(job.id) : null;
+    if (!job.result || !output) {
+      skipped.push(job.originalFilename);
+      continue;
+    }
+
+    const modifiedAt = new Date(job.completedAt || job.updatedAt);
+    const filename = uniqueName(job.result.filename, used);
+    files.push({ name: filename, data: output, modifiedAt });
+
+    const variants: string[] = [];
+    if (options.variants) {
+      for (const variant of job.result.variants || []) {
+        const data = await loadImageJobVariant(job.id, variant.width, variant.format);
+        if (!data) continue;
+        const name = uniqueName(`variants/${variant.filename}`, used);
+        files.push({ name, data, modifiedAt });
+        variants.push(name);
+      }
+    }
+
+    manifest.push({
+      filename,
+      originalFilename: job.originalFilename,
+      keyword: job.keyword,
+      alt: job.result.alt,
+      altSource: job.result.altSource,
+      city: job.location?.name,
+      region: job.location?.region,
+      latitude: job.location?.lat,
+      longitude: job.location?.lng,
+      geotagApplied: job.result.geotagApplied,
+      bytes: output.length,
+      variants
+    });
+  }
+
+  files.push(
+    { name: 'manifest.csv', data: Buffer.from(buildManifestCsv(manifest), 'utf8') },
+    { name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') }
+  );
+
+  return { zip: createZip(files), manifest, skipped };
+}
@@ -0,0 +1,39 @@
+/**
+ * Download and upload filenames for processed images
+ */
+
+import { GeoLocation } from './geotag';
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+/**
+ * keyword-city-N.webp, falling back to the original file's name when there is no keyword
+ * e.g. "junk removal" + Boise + 1 -> junk-removal-boise-1.webp
+ */
+export function buildImageFilename(options: {
+  keyword?: string;
+  originalName: string;
+  location?: GeoLocation | null;
+  // 1-based position among the keyword's images, so a page's files don't collide
+  index?: number;
+}): string {
+  const base = slugify(options.keyword || '') || slugify(options.originalName.replace(/\.[^.]+$/, '')) || 'image';
+  const city = options.location ? slugify(options.location.name) : '';
+  const name = city && base.indexOf(city) === -1 ? `${base}-${city}` : base;
+  return options.index && options.index > 0 ? `${name}-${options.index}.webp` : `${name}.webp`;
+}
+
+/**
+ * Name of one responsive variant, e.g. junk-removal-boise-1.webp -> junk-removal-boise-1-800w.avif
+ */
+export function variantFilename(filename: string, width: number, format: string): string {
+  return `${filename.replace(/\.[^.]+$/, '')}-${width}w.${format}`;
+}
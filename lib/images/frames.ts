@@ -0,0 +1,262 @@
+/**
+ * Frame templates and the local compositor
+ * A template is a PNG whose window is transparent; an optional shadow PNG of the same size is
+ * laid over the photo before the frame. The photo is smart-cropped to fill the window, so the
+ * frame and its shadow end up in the output exactly as uploaded, which a generative model
+ * can't promise. Each template is a JSON file in IMAGE_FRAMES_DIR next to its layers.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { getConfig } from '../config';
+import { isNotFoundError } from '../fsErrors';
+
+export interface FrameWindow {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameTemplate {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  // Bounding box of the transparent area around the centre; the photo fills it
+  window: FrameWindow;
+  hasShadow: boolean;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface FrameTemplateInput {
+  name: string;
+  frame: Buffer;
+  shadow?: Buffer;
+  createdBy?: string;
+}
+
+// Frames larger than this are almost certainly a mistake and slow every job that uses them
+const MAX_FRAME_SIZE = 6000;
+// Smallest window a photo is fitted into
+const MIN_WINDOW_SIZE = 50;
+
+function framesDir(): string {
+  return path.resolve(process.cwd(), getConfig().imageFrames.dir);
+}
+
+function frameFile(id: string, suffix: string): string {
+  // Template ids are generated UUIDs; reject anything that could escape the directory
+  if (!/^[a-zA-Z0-9-]+$/.test(id)) {
+    throw new Error(`Invalid frame template id "${id}"`);
+  }
+  return path.join(framesDir(), `${id}${suffix}`);
+}
+
+/**
+ * Finds the window by flood-filling the not fully opaque pixels reachable from the centre
+ * Semi-transparent shadow pixels inside the frame count as window, so the photo runs under
+ * them. A window that reaches the edge of the image means the frame isn't closed.
+ */
+export function detectFrameWindow(alpha: Uint8Array | Buffer, width: number, height: number): { window?: FrameWindow; error?: string } {
+  const start = Math.floor(height / 2) * width + Math.floor(width / 2);
+  if (alpha[start] === 255) {
+    return { error: 'The centre of the frame is opaque; the window must be transparent' };
+  }
+
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let size = 0;
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+
+  visited[start] = 1;
+  stack[size++] = start;
+
+  while (size > 0) {
+    const index = stack[--size];
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x < left) left = x;
+    if (x > right) right = x;
+    if (y < top) top = y;
+    if (y > bottom) bottom = y;
+
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      y > 0 ? index - width : -1,
+      y < height - 1 ? index + width : -1
+    ];
+    for (const next of neighbours) {
+      if (next !== -1 && !visited[next] && alpha[next] !== 255) {
+        visited[next] = 1;
+        stack[size++] = next;
+      }
+    }
+  }
+
+  if (left === 0 || top === 0 || right === width - 1 || bottom === height - 1) {
+    return { error: 'The frame window reaches the edge of the image; the frame must enclose it' };
+  }
+
+  const window = { left, top, width: right - left + 1, height: bottom - top + 1 };
+  if (window.width < MIN_WINDOW_SIZE || window.height < MIN_WINDOW_SIZE) {
+    return { error: `The frame window is ${window.width}x${window.height}px; it must be at least ${MIN_WINDOW_SIZE}px each way` };
+  }
+  return { window };
+}
+
+async function saveFrameTemplate(template: FrameTemplate): Promise<void> {
+  const file = frameFile(template.id, '.json');
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(template, null, 2), 'utf8');
+  await fs.rename(temp, file);
+}
+
+export async function loadFrameTemplate(id: string): Promise<FrameTemplate | null> {
+  try {
+    return JSON.parse(await fs.readFile(frameFile(id, '.json'), 'utf8'));
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Every uploaded template, by name
+ */
+export async function listFrameTemplates(): Promise<FrameTemplate[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(framesDir());
+  } catch (error) {
+    if (isNotFoundError(error)) return [];
+    throw error;
+  }
+
+  const templates: FrameTemplate[] = [];
+  for (const file of files.filter(name => /^[a-zA-Z0-9-]+\.json$/.test(name))) {
+    const template = await loadFrameTemplate(file.replace(/\.json$/, ''));
+    if (template) templates.push(template);
+  }
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The frame layer as uploaded, e.g. for a preview in the Pictures tab
+ */
+export async function loadFrameImage(id: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(frameFile(id, '.frame.png'));
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Checks the layers, detects the window and saves the template
+ */
+export async function createFrameTemplate(input: FrameTemplateInput): Promise<{ template?: FrameTemplate; error?: string }> {
+  const name = input.name.trim();
+  if (!name) return { error: 'Frame name is required' };
+
+  let frame: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    const metadata = await sharp(input.frame).metadata();
+    if (metadata.format !== 'png' || !metadata.hasAlpha) {
+      return { error: 'The frame must be a PNG with a transparent window' };
+    }
+    if ((metadata.width || 0) > MAX_FRAME_SIZE || (metadata.height || 0) > MAX_FRAME_SIZE) {
+      return { error: `The frame must be at most ${MAX_FRAME_SIZE}px each way` };
+    }
+    frame = await sharp(input.frame).ensureAlpha().extractChannel('alpha').raw().toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    return { error: 'The frame is not a readable image' };
+  }
+
+  const { window, error } = detectFrameWindow(frame.data, frame.info.width, frame.info.height);
+  if (!window) return { error };
+
+  if (input.shadow) {
+    try {
+      const shadow = await sharp(input.shadow).metadata();
+      if (shadow.format !== 'png' || !shadow.hasAlpha) {
+        return { error: 'The shadow must be a transparent PNG' };
+      }
+      if (shadow.width !== frame.info.width || shadow.height !== frame.info.height) {
+        return { error: `The shadow is ${shadow.width}x${shadow.height}px; it must match the frame's ${frame.info.width}x${frame.info.height}px` };
+      }
+    } catch (error) {
+      return { error: 'The shadow is not a readable image' };
+    }
+  }
+
+  const template: FrameTemplate = {
+    id: randomUUID(),
+    name,
+    width: frame.info.width,
+    height: frame.info.height,
+    window,
+    hasShadow: !!input.shadow,
+    createdBy: input.createdBy,
+    createdAt: new Date().toISOString()
+  };
+
+  await fs.mkdir(framesDir(), { recursive: true });
+  await fs.writeFile(frameFile(template.id, '.frame.png'), input.frame);
+  if (input.shadow) {
+    await fs.writeFile(frameFile(template.id, '.shadow.png'), input.shadow);
+  }
+  await saveFrameTemplate(template);
+  return { template };
+}
+
+export async function deleteFrameTemplate(id: string): Promise<boolean> {
+  const template = await loadFrameTemplate(id);
+  if (!template) return false;
+
+  // The JSON goes first so a half-deleted template is never listed
+  await fs.rm(frameFile(id, '.json'), { force: true });
+  await fs.rm(frameFile(id, '.frame.png'), { force: true });
+  await fs.rm(frameFile(id, '.shadow.png'), { force: true });
+  return true;
+}
+
+/**
+ * Fits the photo into the template's window and lays the shadow and frame over it
+ * The photo is cropped around its most interesting region rather than the middle. The result
+ * is a lossless PNG the size of the frame; anything outside the frame stays transparent.
+ */
+export async function composeFramedImage(photo: Buffer, template: FrameTemplate): Promise<Buffer> {
+  const frame = await fs.readFile(frameFile(template.id, '.frame.png'));
+  const shadow = template.hasShadow ? await fs.readFile(frameFile(template.id, '.shadow.png')) : null;
+  const { window } = template;
+
+  const fitted = await sharp(photo)
+    .rotate()
+    .resize(window.width, window.height, { fit: 'cover', position: sharp.strategy.attention })
+    .toBuffer();
+
+  const layers: sharp.OverlayOptions[] = [{ input: fitted, left: window.left, top: window.top }];
+  if (shadow) layers.push({ input: shadow, left: 0, top: 0 });
+  layers.push({ input: frame, left: 0, top: 0 });
+
+  return sharp({
+    create: {
+      width: template.width,
+      height: template.height,
+      channels: 4,
+      background: { r: 0, g: 0, b: 0, alpha: 0 }
+    }
+  })
+    .composite(layers)
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,74 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { parseFreepikTask, verifyFreepikSignature } from './freepik';
+
+const SECRET = 'test-secret';
+const BODY = JSON.stringify({ data: { task_id: 'task-1', status: 'COMPLETED', generated: ['https://example.com/a.png'] } });
+const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+function sign(id: string, timestamp: string, body: string, secret = SECRET): string {
+  return createHmac('sha256', secret).update(`${id}.${timestamp}.${body}`).digest('base64');
+}
+
+function headers(timestamp = String(NOW / 1000), signature = `v1,${sign('msg_1', timestamp, BODY)}`) {
+  return { id: 'msg_1', timestamp, signature };
+}
+
+describe('verifyFreepikSignature', () => {
+  it('accepts a signature made with the secret', () => {
+    expect(verifyFreepikSignature(headers(), BODY, SECRET, NOW)).toEqual({ ok: true });
+  });
+
+  it('accepts any of several signatures while the secret is rotated', () => {
+    const timestamp = String(NOW / 1000);
+    const signature = `v1,${sign('msg_1', timestamp, BODY, 'old-secret')} v1,${sign('msg_1', timestamp, BODY)}`;
+    expect(verifyFreepikSignature(headers(timestamp, signature), BODY, SECRET, NOW).ok).toBe(true);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const timestamp = String(NOW / 1000);
+    const result = verifyFreepikSignature(headers(timestamp, `v1,${sign('msg_1', timestamp, BODY, 'other')}`), BODY, SECRET, NOW);
+    expect(result).toEqual({ ok: false, error: 'Webhook signature does not match' });
+  });
+
+  it('rejects a body that was changed after signing', () => {
+    const tampered = BODY.replace('COMPLETED', 'FAILED');
+    expect(verifyFreepikSignature(headers(), tampered, SECRET, NOW).ok).toBe(false);
+  });
+
+  it('rejects a stale or future timestamp, even when correctly signed', () => {
+    const stale = String(NOW / 1000 - 6 * 60);
+    const future = String(NOW / 1000 + 6 * 60);
+    expect(verifyFreepikSignature(headers(stale, `v1,${sign('msg_1', stale, BODY)}`), BODY, SECRET, NOW))
+      .toEqual({ ok: false, error: 'Webhook timestamp is outside the allowed window' });
+    expect(verifyFreepikSignature(headers(future, `v1,${sign('msg_1', future, BODY)}`), BODY, SECRET, NOW).ok).toBe(false);
+  });
+
+  it('rejects missing headers', () => {
+    expect(verifyFreepikSignature({ id: 'msg_1', timestamp: null, signature: 'v1,abc' }, BODY, SECRET, NOW))
+      .toEqual({ ok: false, error: 'Missing webhook signature headers' });
+  });
+});
+
+describe('parseFreepikTask', () => {
+  it('reads a task under data or at the top level', () => {
+    expect(parseFreepikTask(JSON.parse(BODY))).toEqual({
+      taskId: 'task-1',
+      status: 'COMPLETED',
+      generated: ['https://example.com/a.png'],
+      error: undefined
+    });
+    expect(parseFreepikTask({ taskId: 'task-2', status: 'in_progress' })?.status).toBe('IN_PROGRESS');
+  });
+
+  it('accepts generated images as objects', () => {
+    const task = parseFreepikTask({ task_id: 't', status: 'COMPLETED', generated: [{ url: 'https://a' }, { base64: 'AAAA' }, 42] });
+    expect(task?.generated).toEqual(['https://a', 'data:image/png;base64,AAAA']);
+  });
+
+  it('rejects bodies without a task id or a known status', () => {
+    expect(parseFreepikTask(null)).toBeNull();
+    expect(parseFreepikTask({ data: { status: 'COMPLETED' } })).toBeNull();
+    expect(parseFreepikTask({ task_id: 't', status: 'DONE' })).toBeNull();
+  });
+});
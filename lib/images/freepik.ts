@@ -0,0 +1,184 @@
+/**
+ * Freepik image task client
+ * Tasks are asynchronous: submitting returns a task id, and the result arrives either as a
+ * signed webhook (when FREEPIK_WEBHOOK_SECRET is set) or by polling the task.
+ * FREEPIK_API_URL can point at scripts/freepik-stub.js to run without a Freepik account.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getConfig } from '../config';
+
+export type FreepikTaskStatus = 'CREATED' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+
+export interface FreepikTask {
+  taskId: string;
+  status: FreepikTaskStatus;
+  // URLs (or data URLs) of the generated images once the task has completed
+  generated: string[];
+  error?: string;
+}
+
+export interface FreepikSubmission {
+  image: Buffer;
+  mediaType: string;
+  prompt: string;
+  // Per-preset overrides of FREEPIK_IMAGE_MODEL and FREEPIK_ASPECT_RATIO
+  model?: string;
+  aspectRatio?: string;
+  // Included only when webhooks can be verified; otherwise the task is polled
+  webhookUrl?: string;
+}
+
+const ENDPOINT = '/v1/ai/gemini-2-5-flash-image-preview';
+
+// Webhooks older than this are rejected so a captured request can't be replayed later
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const TASK_STATUSES: FreepikTaskStatus[] = ['CREATED', 'IN_PROGRESS', 'COMPLETED', 'FAILED'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Generated images arrive as URLs, or as objects with a url or base64 field depending on the model
+function generatedUrl(item: unknown): string {
+  if (typeof item === 'string') return item;
+  if (!isRecord(item)) return '';
+  if (typeof item.url === 'string' && item.url) return item.url;
+  return typeof item.base64 === 'string' && item.base64 ? `data:image/png;base64,${item.base64}` : '';
+}
+
+/**
+ * Reads a task from a submit, status or webhook body; accepts the task at the top level or under "data"
+ */
+export function parseFreepikTask(body: unknown): FreepikTask | null {
+  const data = isRecord(body) && isRecord(body.data) ? body.data : body;
+  if (!isRecord(data)) return null;
+
+  const taskId = data.task_id || data.taskId;
+  const status = String(data.status || '').toUpperCase() as FreepikTaskStatus;
+  if (typeof taskId !== 'string' || !taskId || TASK_STATUSES.indexOf(status) === -1) return null;
+
+  const generated = (Array.isArray(data.generated) ? data.generated : [])
+    .map(generatedUrl)
+    .filter(Boolean);
+
+  return {
+    taskId,
+    status,
+    generated,
+    error: typeof data.error === 'string' ? data.error : undefined
+  };
+}
+
+async function freepikRequest(path: string, init: RequestInit = {}): Promise<{ task?: FreepikTask; error?: string }> {
+  const { apiKey, apiUrl } = getConfig().freepik;
+  if (!apiKey) {
+    return { error: 'Freepik API key not configured' };
+  }
+
+  try {
+    const response = await fetch(`${apiUrl}${path}`, {
+      ...init,
+      headers: {
+        'x-freepik-api-key': apiKey,
+        'Content-Type': 'application/json',
+        ...init.headers
+      },
+      cache: 'no-store'
+    });
+    const text = await response.text();
+
+    if (!response.ok) {
+      return { error: `Freepik returned ${response.status}: ${text.slice(0, 200)}` };
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return { error: 'Freepik returned a response that is not JSON' };
+    }
+
+    const task = parseFreepikTask(body);
+    return task ? { task } : { error: 'Freepik response did not include a task' };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Freepik request failed' };
+  }
+}
+
+export async function submitFreepikTask(submission: FreepikSubmission): Promise<{ task?: FreepikTask; error?: string }> {
+  const { imageModel, aspectRatio } = getConfig().freepik;
+
+  return freepikRequest(ENDPOINT, {
+    method: 'POST',
+    body: JSON.stringify({
+      model: submission.model || imageModel,
+      image: `data:${submission.mediaType};base64,${submission.image.toString('base64')}`,
+      prompt: submission.prompt,
+      aspect_ratio: submission.aspectRatio || aspectRatio,
+      webhook_url: submission.webhookUrl
+    })
+  });
+}
+
+export async function getFreepikTask(taskId: string): Promise<{ task?: FreepikTask; error?: string }> {
+  return freepikRequest(`${ENDPOINT}/${encodeURIComponent(taskId)}`);
+}
+
+/**
+ * Downloads a generated image, which Freepik returns as a short-lived URL
+ */
+export async function downloadGeneratedImage(url: string): Promise<Buffer> {
+  const dataUrl = url.match(/^data:[^;,]+;base64,(.*)$/);
+  if (dataUrl) return Buffer.from(dataUrl[1], 'base64');
+
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Downloading the generated image failed (${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Where Freepik should post the result, or undefined when webhooks can't be verified
+ */
+export function getFreepikWebhookUrl(jobId: string): string | undefined {
+  const config = getConfig();
+  if (!config.freepik.webhookSecret) return undefined;
+
+  const base = config.freepik.webhookUrl || `${config.access.publicUrl}/api/webhooks/freepik`;
+  return `${base}${base.indexOf('?') === -1 ? '?' : '&'}job=${encodeURIComponent(jobId)}`;
+}
+
+/**
+ * Checks the webhook-id / webhook-timestamp / webhook-signature headers Freepik sends
+ * The signature is a base64 HMAC-SHA256 of "id.timestamp.body"; the header may list
+ * several space-separated "v1,<signature>" entries while the secret is being rotated.
+ */
+export function verifyFreepikSignature(
+  headers: { id: string | null; timestamp: string | null; signature: string | null },
+  body: string,
+  secret: string,
+  now: number = Date.now()
+): { ok: boolean; error?: string } {
+  if (!headers.id || !headers.timestamp || !headers.signature) {
+    return { ok: false, error: 'Missing webhook signature headers' };
+  }
+
+  const timestamp = Number(headers.timestamp);
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return { ok: false, error: 'Webhook timestamp is outside the allowed window' };
+  }
+
+  const expected = createHmac('sha256', secret)
+    .update(`${headers.id}.${headers.timestamp}.${body}`)
+    .digest();
+
+  const matches = headers.signature.split(' ').some(entry => {
+    const signature = Buffer.from(entry.slice(entry.indexOf(',') + 1), 'base64');
+    return signature.length === expected.length && timingSafeEqual(signature, expected);
+  });
+
+  return matches ? { ok: true } : { ok: false, error: 'Webhook signature does not match' };
+}
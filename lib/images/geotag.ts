@@ -0,0 +1,263 @@
+/**
+ * Geotag location profiles for image processing
+ *
+ * A profile is a named set of cities (per business or brand) plus optional keyword
+ * patterns that select it. Profiles come from, in increasing precedence:
+ *   - the built-in Treasure Valley profile
+ *   - GEOTAG_PROFILES_FILE, a JSON file: { "profiles": [{ "id", "label", "keywords", "mode",
+ *     "jitterMeters", "locations": [{ "name", "region", "lat", "lng" }] }] }
+ *   - GEOTAG_SHEET_TAB, a tab with columns Profile | City | Region | Latitude | Longitude | Keywords
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { google } from 'googleapis';
+import { getConfig } from '../config';
+import { createGoogleAuth } from '../googleClient';
+
+export type LocationMode = 'random' | 'round-robin';
+
+export interface GeoLocation {
+  name: string;
+  region?: string;
+  lat: number;
+  lng: number;
+}
+
+export interface LocationProfile {
+  id: string;
+  label?: string;
+  locations: GeoLocation[];
+  // Keywords containing any of these select the profile
+  keywords: string[];
+  mode?: LocationMode;
+  jitterMeters?: number;
+}
+
+export interface LocationOptions {
+  profileId?: string;
+  keyword?: string;
+  // A specific city in the profile; otherwise one is picked by the mode
+  city?: string;
+  mode?: LocationMode;
+  jitterMeters?: number;
+}
+
+export interface ChosenLocation extends GeoLocation {
+  profile: string;
+  // Set when jitter moved the coordinates away from the city's own
+  jittered: boolean;
+}
+
+const DEFAULT_PROFILES: LocationProfile[] = [
+  {
+    id: 'treasure-valley',
+    label: 'Treasure Valley, Idaho',
+    keywords: [],
+    locations: [
+      { name: 'Boise', region: 'ID', lat: 43.6150, lng: -116.2023 },
+      { name: 'Meridian', region: 'ID', lat: 43.6121, lng: -116.3915 },
+      { name: 'Eagle', region: 'ID', lat: 43.6963, lng: -116.3540 },
+      { name: 'Nampa', region: 'ID', lat: 43.5407, lng: -116.5635 },
+      { name: 'Kuna', region: 'ID', lat: 43.4913, lng: -116.4201 },
+      { name: 'Garden City', region: 'ID', lat: 43.6046, lng: -116.2708 }
+    ]
+  }
+];
+
+// Next location index per profile for round-robin; resets when the server restarts
+const roundRobin: Record<string, number> = {};
+
+const METERS_PER_DEGREE = 111320;
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function parseLocation(value: any): GeoLocation | null {
+  const lat = Number(value?.lat);
+  const lng = Number(value?.lng);
+  if (typeof value?.name !== 'string' || !value.name.trim()) return null;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  return {
+    name: value.name.trim(),
+    region: typeof value.region === 'string' && value.region.trim() ? value.region.trim() : undefined,
+    lat,
+    lng
+  };
+}
+
+function parseProfile(value: any): LocationProfile | null {
+  if (typeof value?.id !== 'string' || !value.id.trim() || !Array.isArray(value.locations)) return null;
+
+  const locations = value.locations.map(parseLocation).filter(Boolean) as GeoLocation[];
+  if (locations.length === 0) return null;
+
+  const jitter = Number(value.jitterMeters);
+  return {
+    id: normalize(value.id),
+    label: typeof value.label === 'string' ? value.label : undefined,
+    locations,
+    keywords: Array.isArray(value.keywords)
+      ? value.keywords.filter((keyword: unknown) => typeof keyword === 'string' && keyword.trim()).map(normalize)
+      : [],
+    mode: value.mode === 'random' || value.mode === 'round-robin' ? value.mode : undefined,
+    jitterMeters: Number.isFinite(jitter) && jitter >= 0 ? jitter : undefined
+  };
+}
+
+async function readProfilesFile(file: string): Promise<LocationProfile[]> {
+  const text = await fs.readFile(path.resolve(process.cwd(), file), 'utf8');
+  const parsed = JSON.parse(text);
+  const entries = Array.isArray(parsed) ? parsed : parsed?.profiles;
+  if (!Array.isArray(entries)) {
+    throw new Error(`${file} must contain a "profiles" array`);
+  }
+  return entries.map(parseProfile).filter(Boolean) as LocationProfile[];
+}
+
+async function readProfilesSheet(tab: string, accessToken: string): Promise<LocationProfile[]> {
+  const sheets = google.sheets({ version: 'v4', auth: createGoogleAuth(accessToken) });
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId: getConfig().google.sheetId,
+    range: `${tab}!A:F`
+  });
+
+  const byId: Record<string, { id: string; locations: GeoLocation[]; keywords: string[] }> = {};
+  const order: string[] = [];
+
+  for (const row of response.data.values || []) {
+    const [profile = '', name = '', region = '', lat = '', lng = '', keywords = ''] = row;
+    // Skips the header row and incomplete rows
+    const location = parseLocation({ name, region, lat: lat.trim() ? lat : NaN, lng: lng.trim() ? lng : NaN });
+    const id = normalize(profile);
+    if (!id || !location) continue;
+
+    if (!byId[id]) {
+      byId[id] = { id, locations: [], keywords: [] };
+      order.push(id);
+    }
+    byId[id].locations.push(location);
+    for (const keyword of keywords.split(',').map(normalize).filter(Boolean)) {
+      if (byId[id].keywords.indexOf(keyword) === -1) byId[id].keywords.push(keyword);
+    }
+  }
+
+  return order.map(id => byId[id]);
+}
+
+function mergeProfiles(base: LocationProfile[], overrides: LocationProfile[]): LocationProfile[] {
+  const merged = base.filter(profile => !overrides.some(override => override.id === profile.id));
+  return merged.concat(overrides);
+}
+
+/**
+ * Loads every profile; the sheet tab is only read when an access token is available
+ * A broken file or tab is reported in error and the remaining sources are still used.
+ */
+export async function loadLocationProfiles(accessToken?: string): Promise<{ profiles: LocationProfile[]; error?: string }> {
+  const { profilesFile, sheetTab } = getConfig().geotag;
+  let profiles = DEFAULT_PROFILES;
+  const errors: string[] = [];
+
+  if (profilesFile) {
+    try {
+      profiles = mergeProfiles(profiles, await readProfilesFile(profilesFile));
+    } catch (error) {
+      console.error('Geotag: Failed to read profiles file:', error);
+      errors.push(`Could not read ${profilesFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (sheetTab && accessToken) {
+    try {
+      profiles = mergeProfiles(profiles, await readProfilesSheet(sheetTab, accessToken));
+    } catch (error) {
+      console.error('Geotag: Failed to read profiles tab:', error);
+      errors.push(`Could not read the ${sheetTab} tab: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return { profiles, error: errors.length > 0 ? errors.join('; ') : undefined };
+}
+
+/**
+ * Profile for a request: the one asked for, else the first whose keyword patterns match,
+ * else GEOTAG_DEFAULT_PROFILE (or the first profile)
+ */
+export function findProfile(profiles: LocationProfile[], options: Pick<LocationOptions, 'profileId' | 'keyword'>): LocationProfile | null {
+  if (options.profileId) {
+    return profiles.find(profile => profile.id === normalize(options.profileId!)) || null;
+  }
+
+  const keyword = normalize(options.keyword || '');
+  if (keyword) {
+    const matched = profiles.find(profile => profile.keywords.some(pattern => keyword.indexOf(pattern) !== -1));
+    if (matched) return matched;
+  }
+
+  const defaultId = normalize(getConfig().geotag.defaultProfile);
+  return profiles.find(profile => profile.id === defaultId) || profiles[0] || null;
+}
+
+/**
+ * Moves a point to a uniformly random spot within radius meters
+ */
+export function jitterLocation<T extends GeoLocation>(location: T, radiusMeters: number): T {
+  if (radiusMeters <= 0) return location;
+
+  const distance = radiusMeters * Math.sqrt(Math.random());
+  const bearing = Math.random() * 2 * Math.PI;
+  const dLat = (distance * Math.cos(bearing)) / METERS_PER_DEGREE;
+  const dLng = (distance * Math.sin(bearing)) / (METERS_PER_DEGREE * Math.cos((location.lat * Math.PI) / 180));
+
+  return {
+    ...location,
+    lat: Number((location.lat + dLat).toFixed(6)),
+    lng: Number((location.lng + dLng).toFixed(6))
+  };
+}
+
+/**
+ * Picks the location to embed: the requested city, a city named in the keyword,
+ * or the next one by the profile's mode, with optional jitter
+ */
+export function chooseLocation(profile: LocationProfile, options: LocationOptions = {}): { location: ChosenLocation | null; error?: string } {
+  const config = getConfig().geotag;
+  let location: GeoLocation | undefined;
+
+  if (options.city) {
+    location = profile.locations.find(candidate => normalize(candidate.name) === normalize(options.city!));
+    if (!location) {
+      return { location: null, error: `City "${options.city}" is not in the ${profile.id} profile` };
+    }
+  }
+
+  const keyword = normalize(options.keyword || '');
+  if (!location && keyword) {
+    location = profile.locations.find(candidate => keyword.indexOf(normalize(candidate.name)) !== -1);
+  }
+
+  if (!location) {
+    const mode = options.mode || profile.mode || config.mode;
+    if (mode === 'round-robin') {
+      const index = (roundRobin[profile.id] || 0) % profile.locations.length;
+      roundRobin[profile.id] = index + 1;
+      location = profile.locations[index];
+    } else {
+      location = profile.locations[Math.floor(Math.random() * profile.locations.length)];
+    }
+  }
+
+  const radius = options.jitterMeters ?? profile.jitterMeters ?? config.jitterMeters;
+  const chosen = jitterLocation({ ...location, profile: profile.id, jittered: false }, radius);
+  return { location: { ...chosen, jittered: radius > 0 } };
+}
+
+/**
+ * "Boise, ID" style label for alt text and the UI
+ */
+export function formatLocation(location: GeoLocation): string {
+  return location.region ? `${location.name}, ${location.region}` : location.name;
+}
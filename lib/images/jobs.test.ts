@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFreepikStub } from '../../scripts/freepik-stub';
+import { getFreepikTask } from './freepik';
+import {
+  ImageJob,
+  ImageJobInput,
+  handleFreepikWebhook,
+  listImageFingerprints,
+  loadImageJob,
+  loadImageJobOutput,
+  refreshImageJob,
+  retryImageJob,
+  startImageJob
+} from './jobs';
+
+// These tests drive the job states against scripts/freepik-stub.js; the image pipeline itself
+// isn't under test, so sharp and the variant builder are replaced
+vi.mock('sharp', () => ({ default: vi.fn() }));
+vi.mock('./variants', () => ({
+  buildImageVariants: vi.fn(async (image: Buffer, options: { filename: string }) => [{
+    width: 800,
+    height: 600,
+    format: 'webp',
+    quality: 85,
+    bytes: image.length,
+    overBudget: false,
+    filename: options.filename,
+    verification: { ok: true, mismatches: [], metadata: {} },
+    data: image
+  }]),
+  buildPictureHtml: () => '<picture></picture>'
+}));
+
+const ENV = ['IMAGE_JOBS_DIR', 'FREEPIK_API_KEY', 'FREEPIK_API_URL', 'FREEPIK_WEBHOOK_SECRET', 'IMAGE_ALT_TEXT'];
+const savedEnv: Record<string, string | undefined> = {};
+
+let jobsDir: string;
+let stub: Server;
+let failingStub: Server;
+let stubUrl: string;
+let failingStubUrl: string;
+
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function input(name = 'truck.jpg', sourceHash?: string): ImageJobInput {
+  return {
+    sourceHash,
+    source: Buffer.from('fake webp bytes'),
+    originalFilename: name,
+    instruction: 'Enhance this image',
+    keyword: 'junk removal',
+    location: null,
+    enhance: true
+  };
+}
+
+/**
+ * Polls like the Pictures tab until the job finishes, stepping the clock past the poll interval
+ * each time; returns every status seen on the way
+ */
+async function pollUntilFinished(id: string): Promise<{ job: ImageJob; statuses: string[] }> {
+  const statuses: string[] = [];
+  for (let attempt = 0; attempt < 100; attempt++) {
+    vi.setSystemTime(Date.now() + 6000);
+    const job = await refreshImageJob(id);
+    if (!job) throw new Error(`Image job ${id} disappeared`);
+    if (statuses[statuses.length - 1] !== job.status) statuses.push(job.status);
+    if (job.status === 'done' || job.status === 'failed') return { job, statuses };
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error(`Image job ${id} did not finish`);
+}
+
+beforeAll(async () => {
+  for (const name of ENV) savedEnv[name] = process.env[name];
+  jobsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'image-jobs-'));
+  stub = createFreepikStub({ delayMs: 300, quiet: true });
+  failingStub = createFreepikStub({ delayMs: 50, fail: true, quiet: true });
+  stubUrl = await listen(stub);
+  failingStubUrl = await listen(failingStub);
+});
+
+afterAll(async () => {
+  await new Promise(resolve => stub.close(resolve));
+  await new Promise(resolve => failingStub.close(resolve));
+  await fs.rm(jobsDir, { recursive: true, force: true });
+  for (const name of ENV) {
+    if (savedEnv[name] === undefined) delete process.env[name];
+    else process.env[name] = savedEnv[name];
+  }
+});
+
+beforeEach(() => {
+  process.env.IMAGE_JOBS_DIR = jobsDir;
+  process.env.FREEPIK_API_KEY = 'test-key';
+  process.env.FREEPIK_API_URL = stubUrl;
+  process.env.IMAGE_ALT_TEXT = 'fallback';
+  // Without a secret no webhook_url is sent, so jobs finish by polling
+  delete process.env.FREEPIK_WEBHOOK_SECRET;
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('image jobs', () => {
+  it('moves from queued through processing to done as Freepik works on the task', async () => {
+    const started = await startImageJob(input());
+    expect(started.status).toBe('queued');
+    expect(started.taskId).toBeTruthy();
+
+    const { job, statuses } = await pollUntilFinished(started.id);
+    expect(statuses).toEqual(['queued', 'processing', 'done']);
+    expect(job.result?.filename).toMatch(/^junk-removal/);
+    expect(job.result?.altSource).toBe('fallback');
+    expect((await loadImageJobOutput(job.id))?.toString()).toBe('fake webp bytes');
+  });
+
+  it('fails when Freepik fails the task, and a retry resubmits the saved upload', async () => {
+    process.env.FREEPIK_API_URL = failingStubUrl;
+    const started = await startImageJob(input());
+    const failed = await pollUntilFinished(started.id);
+    expect(failed.job.status).toBe('failed');
+    expect(failed.job.error).toBe('Stub configured to fail (STUB_FAIL=1)');
+
+    process.env.FREEPIK_API_URL = stubUrl;
+    const retried = await retryImageJob(started.id);
+    expect(retried.job?.status).toBe('queued');
+    expect(retried.job?.taskId).not.toBe(failed.job.taskId);
+    expect(retried.job?.error).toBeUndefined();
+
+    const { job } = await pollUntilFinished(started.id);
+    expect(job.status).toBe('done');
+  });
+
+  it('only retries failed jobs', async () => {
+    const started = await startImageJob(input());
+    expect(await retryImageJob(started.id)).toEqual({ error: `Image job ${started.id} is queued, not failed` });
+    expect(await retryImageJob('missing')).toEqual({ error: 'Image job missing not found' });
+  });
+
+  it('treats a malformed id as a job that does not exist', async () => {
+    expect(await loadImageJob('../secrets')).toBeNull();
+    expect(await refreshImageJob('../secrets')).toBeNull();
+    expect(await retryImageJob('a/b')).toEqual({ error: 'Image job a/b not found' });
+  });
+
+  it('fails at once when Freepik rejects the submission', async () => {
+    delete process.env.FREEPIK_API_KEY;
+    const job = await startImageJob(input());
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Freepik API key not configured');
+  });
+
+  it('fails a job still unfinished after IMAGE_JOB_TIMEOUT_MS', async () => {
+    const started = await startImageJob(input());
+    vi.setSystemTime(Date.now() + 600000 + 1000);
+
+    const job = await refreshImageJob(started.id);
+    expect(job?.status).toBe('failed');
+    expect(job?.error).toBe('Timed out waiting for Freepik');
+  });
+
+  it('keeps the fingerprint index current without rereading the jobs directory', async () => {
+    const before = await listImageFingerprints();
+    const readdir = vi.spyOn(fs, 'readdir');
+
+    process.env.FREEPIK_API_URL = failingStubUrl;
+    const started = await startImageJob(input('dumpster.jpg', 'hash-dumpster'));
+    expect(await listImageFingerprints()).toEqual(before.concat({ jobId: started.id, filename: 'dumpster.jpg', hash: 'hash-dumpster' }));
+
+    await pollUntilFinished(started.id);
+    expect(await listImageFingerprints()).toEqual(before);
+
+    process.env.FREEPIK_API_URL = stubUrl;
+    await retryImageJob(started.id);
+    expect((await listImageFingerprints()).map(entry => entry.hash)).toContain('hash-dumpster');
+
+    expect(readdir).not.toHaveBeenCalled();
+    readdir.mockRestore();
+  });
+
+  it('applies a webhook only for the task the job was given', async () => {
+    const started = await startImageJob(input());
+
+    const foreign = await handleFreepikWebhook(started.id, { taskId: 'someone-else', status: 'COMPLETED', generated: ['http://x'] });
+    expect(foreign.error).toBe(`Task someone-else does not belong to image job ${started.id}`);
+    expect((await loadImageJob(started.id))?.status).toBe('queued');
+
+    // Wait for the stub to finish, then deliver its task as the webhook would
+    await new Promise(resolve => setTimeout(resolve, 800));
+    const { task } = await getFreepikTask(started.taskId!);
+    expect(task?.status).toBe('COMPLETED');
+
+    const { job } = await handleFreepikWebhook(started.id, task!);
+    expect(job?.status).toBe('done');
+  });
+});
@@ -0,0 +1,560 @@
+/**
+ * Asynchronous image jobs
+ * /api/image/process saves the upload and submits it to Freepik; the job then moves from
+ * queued to processing to done (or failed) as the signed webhook arrives or the job is
+ * polled. Finishing a job lays the chosen frame over the image and adds the alt text, EXIF/XMP
+ * metadata, SEO filename and responsive variants. Jobs with the AI enhancement turned off never
+ * go to Freepik and finish as soon as they are submitted.
+ * Each job is a JSON file in IMAGE_JOBS_DIR next to its source and output images.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getConfig } from '../config';
+import { isNotFoundError } from '../fsErrors';
+import { generateAltText } from './altText';
+import { buildImageFilename } from './filenames';
+import { composeFramedImage, loadFrameTemplate } from './frames';
+import {
+  downloadGeneratedImage,
+  FreepikTask,
+  getFreepikTask,
+  getFreepikWebhookUrl,
+  submitFreepikTask
+} from './freepik';
+import { ChosenLocation, formatLocation } from './geotag';
+import { getOwnerMetadata, ImageMetadata } from './metadata';
+import { ImageFingerprint } from './quality';
+import { buildImageVariants, buildPictureHtml, ImageVariant, VariantFormat } from './variants';
+
+export type ImageJobStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface ImageJobResult {
+  filename: string;
+  alt: string;
+  altSource: 'ai' | 'fallback';
+  // Only true when the coordinates were read back from the file
+  geotagApplied: boolean;
+  // What was read back from the primary WebP; verified only when every variant matched
+  metadata: (ImageMetadata & { verified: boolean; mismatches: string[] }) | null;
+  // Exact size of the primary WebP
+  bytes: number;
+  sizeKb: number;
+  variants: ImageVariantInfo[];
+  // <picture> element listing every variant
+  pictureHtml: string;
+}
+
+export type ImageVariantInfo = Omit<ImageVariant, 'data' | 'verification'> & { metadataVerified: boolean };
+
+export interface ImageJob {
+  id: string;
+  status: ImageJobStatus;
+  // Freepik task id, set once the submission was accepted
+  taskId?: string;
+  originalFilename: string;
+  // Resolved from the preset when the job was created, so retries send the same request
+  preset?: string;
+  instruction: string;
+  model?: string;
+  aspectRatio?: string;
+  keyword?: string;
+  pictureTitle?: string;
+  sequence?: number;
+  // Chosen when the job is submitted, before Freepik sees the image
+  location: ChosenLocation | null;
+  // Frame template composited locally once the image is final
+  frameId?: string;
+  // False when Freepik is skipped; jobs saved before this option were always enhanced
+  enhance?: boolean;
+  result?: ImageJobResult;
+  error?: string;
+  // Email of the user who submitted the image, when team accounts are on
+  createdBy?: string;
+  // Set for jobs uploaded together; they wait as queued until the batch submits them
+  batchId?: string;
+  // Difference hash of the upload, compared with later uploads to spot duplicates
+  sourceHash?: string;
+  // Upload checks that flagged the image without rejecting it
+  warnings?: string[];
+  createdAt: string;
+  updatedAt: string;
+  // When the image was sent to Freepik; IMAGE_JOB_TIMEOUT_MS counts from here
+  submittedAt?: string;
+  // Last time Freepik was asked for the task status
+  checkedAt?: string;
+  completedAt?: string;
+}
+
+export type ImageJobInput = Pick<ImageJob, 'originalFilename' | 'preset' | 'instruction' | 'model' | 'aspectRatio' | 'keyword' | 'pictureTitle' | 'sequence' | 'location' | 'frameId' | 'enhance' | 'createdBy' | 'batchId' | 'sourceHash' | 'warnings'> & {
+  // Upload already converted to WebP
+  source: Buffer;
+};
+
+// Polling clients ask every few seconds; Freepik is checked at most this often per job
+const POLL_INTERVAL_MS = 5 * 1000;
+
+// Webhook and poll updates for the same job run one after the other
+const jobLocks: Record<string, Promise<unknown>> = {};
+
+// Fingerprints of the jobs that haven't failed, by job id; read from the jobs directory on the
+// first upload, then kept current as jobs are saved
+let fingerprintIndex: { dir: string; entries: Promise<Record<string, ImageFingerprint>> } | null = null;
+
+function jobsDir(): string {
+  return path.resolve(process.cwd(), getConfig().imageJobs.dir);
+}
+
+// Job ids are generated UUIDs; anything else could escape the directory
+function isJobId(id: string): boolean {
+  return /^[a-zA-Z0-9-]+$/.test(id);
+}
+
+function jobFile(id: string, suffix: string): string {
+  if (!isJobId(id)) {
+    throw new Error(`Invalid image job id "${id}"`);
+  }
+  return path.join(jobsDir(), `${id}${suffix}`);
+}
+
+function isFinished(job: ImageJob): boolean {
+  return job.status === 'done' || job.status === 'failed';
+}
+
+function usesFreepik(job: ImageJob): boolean {
+  return job.enhance !== false;
+}
+
+/**
+ * Writes a job to disk
+ * The file is replaced atomically so a crash mid-write never leaves a truncated job
+ */
+async function saveImageJob(job: ImageJob): Promise<ImageJob> {
+  job.updatedAt = new Date().toISOString();
+  const file = jobFile(job.id, '.json');
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(job, null, 2), 'utf8');
+  await fs.rename(temp, file);
+  await indexFingerprint(job);
+  return job;
+}
+
+/**
+ * The saved job, or null when there is none; malformed ids from a URL are simply not found
+ */
+export async function loadImageJob(id: string): Promise<ImageJob | null> {
+  if (!isJobId(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(jobFile(id, '.json'), 'utf8'));
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+async function scanFingerprints(dir: string): Promise<Record<string, ImageFingerprint>> {
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error) {
+    if (isNotFoundError(error)) return {};
+    throw error;
+  }
+
+  const entries: Record<string, ImageFingerprint> = {};
+  // Batch manifests share the directory; their names start with "batch-"
+  for (const file of files.filter(name => /^[a-zA-Z0-9-]+\.json$/.test(name) && name.indexOf('batch-') !== 0)) {
+    const job = await loadImageJob(file.replace(/\.json$/, ''));
+    if (job?.sourceHash && job.status !== 'failed') {
+      entries[job.id] = { jobId: job.id, filename: job.originalFilename, hash: job.sourceHash };
+    }
+  }
+  return entries;
+}
+
+function fingerprintEntries(): Promise<Record<string, ImageFingerprint>> {
+  const dir = jobsDir();
+  if (!fingerprintIndex || fingerprintIndex.dir !== dir) {
+    const entries = scanFingerprints(dir);
+    fingerprintIndex = { dir, entries };
+    // A failed scan is retried on the next upload
+    entries.catch(() => {
+      if (fingerprintIndex?.entries === entries) fingerprintIndex = null;
+    });
+  }
+  return fingerprintIndex.entries;
+}
+
+/**
+ * Adds a saved job to the fingerprint index, or drops it once it has failed
+ * Before the index is first read there is nothing to update; the scan will pick the job up.
+ */
+async function indexFingerprint(job: ImageJob): Promise<void> {
+  if (!fingerprintIndex || fingerprintIndex.dir !== jobsDir()) return;
+
+  const entries = await fingerprintIndex.entries.catch(() => null);
+  if (!entries) return;
+  if (job.sourceHash && job.status !== 'failed') {
+    entries[job.id] = { jobId: job.id, filename: job.originalFilename, hash: job.sourceHash };
+  } else {
+    delete entries[job.id];
+  }
+}
+
+/**
+ * Source hashes of every job that hasn't failed, for spotting repeated uploads
+ */
+export async function listImageFingerprints(): Promise<ImageFingerprint[]> {
+  const entries = await fingerprintEntries();
+  return Object.keys(entries).map(id => entries[id]);
+}
+
+/**
+ * The finished WebP with its metadata, or null until the job is done
+ */
+export async function loadImageJobOutput(id: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(jobFile(id, '.webp'));
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * One responsive variant of a finished job, e.g. width 800 and format "avif"
+ */
+export async function loadImageJobVariant(id: string, width: number, format: VariantFormat): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(jobFile(id, `-${width}w.${format}`));
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+async function failJob(job: ImageJob, error: string): Promise<ImageJob> {
+  job.status = 'failed';
+  job.error = error;
+  job.completedAt = new Date().toISOString();
+  // The source is kept so the job can be retried
+  console.warn(`Image job ${job.id} failed: ${error}`);
+  return saveImageJob(job);
+}
+
+function withJobLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = jobLocks[id] || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  jobLocks[id] = next;
+  next.finally(() => {
+    if (jobLocks[id] === next) delete jobLocks[id];
+  }).catch(() => undefined);
+  return next;
+}
+
+/**
+ * Saves the upload as a queued job without submitting it
+ */
+export async function createImageJob(input: ImageJobInput): Promise<ImageJob> {
+  const now = new Date().toISOString();
+  const { source, ...details } = input;
+  const job: ImageJob = {
+    id: randomUUID(),
+    status: 'queued',
+    ...details,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await fs.mkdir(jobsDir(), { recursive: true });
+  await fs.writeFile(jobFile(job.id, '.source.webp'), source);
+  return saveImageJob(job);
+}
+
+/**
+ * Sends a queued job's source image to Freepik, or finishes it here when it isn't enhanced
+ * A rejected submission leaves the job failed with Freepik's error rather than
+ * falling back to the original image.
+ */
+export async function submitImageJob(id: string): Promise<ImageJob | null> {
+  // Held through the submission so a fast webhook waits for the task id to be saved
+  return withJobLock(id, async () => {
+    const job = await loadImageJob(id);
+    if (!job || job.status !== 'queued' || job.taskId) return job;
+
+    let source: Buffer;
+    try {
+      source = await fs.readFile(jobFile(job.id, '.source.webp'));
+    } catch {
+      return failJob(job, 'The uploaded image is no longer available');
+    }
+
+    job.submittedAt = new Date().toISOString();
+    if (!usesFreepik(job)) {
+      job.status = 'processing';
+      await saveImageJob(job);
+      return finishImageJob(job, source);
+    }
+
+    const { task, error } = await submitFreepikTask({
+      image: source,
+      mediaType: 'image/webp',
+      prompt: job.instruction,
+      model: job.model,
+      aspectRatio: job.aspectRatio,
+      webhookUrl: getFreepikWebhookUrl(job.id)
+    });
+    if (!task) return failJob(job, error || 'Freepik did not accept the image');
+
+    job.taskId = task.taskId;
+    job.checkedAt = new Date().toISOString();
+    return applyTask(job, task);
+  });
+}
+
+/**
+ * Saves the upload as a job and submits it straight away
+ */
+export async function startImageJob(input: ImageJobInput): Promise<ImageJob> {
+  const job = await createImageJob(input);
+  return (await submitImageJob(job.id)) || job;
+}
+
+/**
+ * Puts a failed job back in the queue; jobs outside a batch are submitted again at once
+ */
+export async function retryImageJob(id: string): Promise<{ job?: ImageJob; error?: string }> {
+  const requeued = await withJobLock(id, async (): Promise<{ job?: ImageJob; error?: string }> => {
+    const current = await loadImageJob(id);
+    if (!current) return { error: `Image job ${id} not found` };
+    if (current.status !== 'failed') return { error: `Image job ${id} is ${current.status}, not failed` };
+
+    current.status = 'queued';
+    current.taskId = undefined;
+    current.error = undefined;
+    current.result = undefined;
+    current.submittedAt = undefined;
+    current.checkedAt = undefined;
+    current.completedAt = undefined;
+    return { job: await saveImageJob(current) };
+  });
+
+  const { job } = requeued;
+  if (!job) return requeued;
+
+  return { job: job.batchId ? job : (await submitImageJob(id)) || job };
+}
+
+async function applyTask(job: ImageJob, task: FreepikTask): Promise<ImageJob> {
+  if (isFinished(job)) return job;
+
+  switch (task.status) {
+    case 'CREATED':
+      job.status = 'queued';
+      return saveImageJob(job);
+    case 'IN_PROGRESS':
+      job.status = 'processing';
+      return saveImageJob(job);
+    case 'FAILED':
+      return failJob(job, task.error || 'Freepik could not process the image');
+    case 'COMPLETED':
+      return completeFreepikTask(job, task);
+  }
+}
+
+async function completeFreepikTask(job: ImageJob, task: FreepikTask): Promise<ImageJob> {
+  if (task.generated.length === 0) {
+    return failJob(job, 'Freepik completed the task without returning an image');
+  }
+
+  job.status = 'processing';
+  await saveImageJob(job);
+
+  let generated: Buffer;
+  try {
+    generated = await downloadGeneratedImage(task.generated[0]);
+  } catch (error) {
+    return failJob(job, error instanceof Error ? error.message : 'Downloading the generated image failed');
+  }
+  return finishImageJob(job, generated);
+}
+
+/**
+ * Frames the image, writes its alt text and metadata, and builds the variants
+ */
+async function finishImageJob(job: ImageJob, image: Buffer): Promise<ImageJob> {
+  let final = image;
+  if (job.frameId) {
+    const template = await loadFrameTemplate(job.frameId);
+    if (!template) return failJob(job, `Frame template ${job.frameId} no longer exists`);
+    try {
+      final = await composeFramedImage(image, template);
+    } catch (error) {
+      return failJob(job, `Framing the image failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Describe the final image; limited to 125 characters and mentions the geotag city
+  const altText = await generateAltText({
+    image: final,
+    keyword: job.keyword,
+    pictureTitle: job.pictureTitle,
+    location: job.location
+  });
+
+  // Every variant carries the alt text, owner, keywords and GPS; everything else in the source is dropped
+  const imageMetadata: ImageMetadata = {
+    ...getOwnerMetadata(),
+    description: altText.alt,
+    keywords: [job.keyword, job.location ? formatLocation(job.location) : undefined].filter(Boolean) as string[],
+    gps: job.location ? { lat: job.location.lat, lng: job.location.lng } : undefined
+  };
+  const filename = buildImageFilename({
+    keyword: job.keyword,
+    originalName: job.originalFilename,
+    location: job.location,
+    index: job.sequence
+  });
+
+  let variants: ImageVariant[];
+  try {
+    variants = await buildImageVariants(final, { filename, metadata: imageMetadata });
+  } catch (error) {
+    const origin = usesFreepik(job) ? 'Freepik returned an image that' : 'The image';
+    return failJob(job, `${origin} could not be converted: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // The widest WebP is the image shown, downloaded and uploaded to WordPress
+  const primary = variants.filter(variant => variant.format === 'webp').pop()!;
+  const mismatches: string[] = [];
+  for (const variant of variants) {
+    mismatches.push(...variant.verification.mismatches.map(mismatch => `${variant.filename}: ${mismatch}`));
+    await fs.writeFile(jobFile(job.id, `-${variant.width}w.${variant.format}`), variant.data);
+  }
+  if (mismatches.length > 0) {
+    console.warn(`Image job ${job.id}: metadata verification failed:`, mismatches);
+  }
+
+  await fs.writeFile(jobFile(job.id, '.webp'), primary.data);
+  await fs.rm(jobFile(job.id, '.source.webp'), { force: true });
+
+  job.status = 'done';
+  job.error = undefined;
+  job.completedAt = new Date().toISOString();
+  job.result = {
+    filename,
+    alt: altText.alt,
+    altSource: altText.source,
+    geotagApplied: !!job.location && !!primary.verification.metadata.gps,
+    metadata: {
+      verified: mismatches.length === 0,
+      mismatches,
+      ...primary.verification.metadata
+    },
+    bytes: primary.bytes,
+    sizeKb: Math.round(primary.bytes / 1024),
+    variants: variants.map(({ data, verification, ...variant }) => ({ ...variant, metadataVerified: verification.ok })),
+    pictureHtml: buildPictureHtml(variants, altText.alt)
+  };
+  return saveImageJob(job);
+}
+
+/**
+ * Applies a verified webhook to its job; the task id must match the one Freepik gave on submit
+ */
+export async function handleFreepikWebhook(jobId: string, task: FreepikTask): Promise<{ job?: ImageJob; error?: string }> {
+  return withJobLock(jobId, async () => {
+    const job = await loadImageJob(jobId);
+    if (!job) return { error: `Image job ${jobId} not found` };
+    if (job.taskId !== task.taskId) return { error: `Task ${task.taskId} does not belong to image job ${jobId}` };
+
+    return { job: await applyTask(job, task) };
+  });
+}
+
+/**
+ * Current state of a job, asking Freepik for the task status when the webhook hasn't arrived
+ * Jobs still unfinished after IMAGE_JOB_TIMEOUT_MS are marked failed.
+ */
+export async function refreshImageJob(id: string): Promise<ImageJob | null> {
+  return withJobLock(id, async () => {
+    const job = await loadImageJob(id);
+    if (!job || isFinished(job)) return job;
+
+    // Batch jobs wait for a free slot before they are submitted
+    if (!job.submittedAt && job.batchId) return job;
+
+    if (!usesFreepik(job)) {
+      // Local jobs finish while submitted; one still open was cut off, e.g. by a restart
+      return failJob(job, 'Processing the image was interrupted');
+    }
+
+    if (Date.now() - Date.parse(job.submittedAt || job.createdAt) > getConfig().imageJobs.timeoutMs) {
+      return failJob(job, 'Timed out waiting for Freepik');
+    }
+    if (!job.taskId) {
+      // Submission never completed, e.g. the server restarted mid-request
+      return failJob(job, 'The image was never submitted to Freepik');
+    }
+    if (job.checkedAt && Date.now() - Date.parse(job.checkedAt) < POLL_INTERVAL_MS) {
+      return job;
+    }
+
+    job.checkedAt = new Date().toISOString();
+    const { task, error } = await getFreepikTask(job.taskId);
+    if (!task) {
+      // A failed status check isn't a failed job; the next poll tries again
+      console.warn(`Image job ${job.id}: status check failed: ${error}`);
+      return saveImageJob(job);
+    }
+    return applyTask(job, task);
+  });
+}
+
+/**
+ * Job as returned to the Pictures tab; the image is included once the job is done
+ * Batch progress leaves the image out so each poll stays small.
+ */
+export async function toImageJobResponse(job: ImageJob, options: { includeImage?: boolean } = {}) {
+  const output = job.status === 'done' && options.includeImage !== false ? await loadImageJobOutput(job.id) : null;
+
+  return {
+    job_id: job.id,
+    status: job.status,
+    error: job.error,
+    original_filename: job.originalFilename,
+    keyword: job.keyword,
+    location: job.location,
+    preset: job.preset,
+    frame_id: job.frameId,
+    enhance: usesFreepik(job),
+    created_at: job.createdAt,
+    completed_at: job.completedAt,
+    batch_id: job.batchId,
+    warnings: job.warnings,
+    ...(job.result ? {
+      webp: output ? `data:image/webp;base64,${output.toString('base64')}` : undefined,
+      alt: job.result.alt,
+      alt_source: job.result.altSource,
+      geotag_applied: job.result.geotagApplied,
+      metadata: job.result.metadata,
+      filename: job.result.filename,
+      bytes: job.result.bytes,
+      size_kb: job.result.sizeKb,
+      variants: (job.result.variants || []).map(variant => ({
+        width: variant.width,
+        height: variant.height,
+        format: variant.format,
+        quality: variant.quality,
+        bytes: variant.bytes,
+        over_budget: variant.overBudget,
+        metadata_verified: variant.metadataVerified,
+        filename: variant.filename,
+        url: `/api/image/jobs/${job.id}/variants/${variant.width}w.${variant.format}`
+      })),
+      picture_html: job.result.pictureHtml
+    } : {})
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { buildExif, compareMetadata, parseExif, toExifAscii } from './metadata';
+
+const METADATA = {
+  description: 'Crew loading a truck — “same day” pickup…',
+  artist: 'Zoë’s Hauling',
+  copyright: '© 2025 Zoë’s Hauling'
+};
+
+describe('toExifAscii', () => {
+  it('spells typographic characters in ASCII and drops accents', () => {
+    expect(toExifAscii(METADATA.description)).toBe('Crew loading a truck - "same day" pickup...');
+    expect(toExifAscii(METADATA.copyright)).toBe("(c) 2025 Zoe's Hauling");
+  });
+
+  it('drops what has no ASCII spelling', () => {
+    expect(toExifAscii('Junk removal 🚚 in Köln')).toBe('Junk removal  in Koln');
+  });
+});
+
+describe('EXIF text fields', () => {
+  it('round-trips non-Latin-1 text as its ASCII spelling', () => {
+    const read = parseExif(buildExif(METADATA));
+    expect(read.description).toBe('Crew loading a truck - "same day" pickup...');
+    expect(read.artist).toBe("Zoe's Hauling");
+    expect(compareMetadata('EXIF', read, METADATA, { keywords: false })).toEqual([]);
+  });
+
+  it('reports text that was stored lossily', () => {
+    // What writing the description as Latin-1 used to leave behind
+    const corrupted = { ...parseExif(buildExif(METADATA)), description: 'Crew loading a truck \u0014 \u001csame day\u001d pickup&' };
+    expect(compareMetadata('EXIF', corrupted, METADATA, { keywords: false })).toEqual(['EXIF description does not match']);
+  });
+});
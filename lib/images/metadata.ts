@@ -0,0 +1,535 @@
+/**
+ * EXIF/XMP writer and reader for WebP output
+ *
+ * sharp only takes EXIF values as strings and can't write XMP, so the metadata is
+ * encoded here: GPS coordinates as degree/minute/second rationals in a GPS IFD,
+ * description/artist/copyright/keywords in IFD0 and in an XMP packet, both stored
+ * as EXIF and XMP chunks of an extended (VP8X) WebP file. readWebpMetadata parses
+ * them back so the route can verify what was written.
+ */
+
+import { getConfig } from '../config';
+
+export interface ImageMetadata {
+  description?: string;
+  artist?: string;
+  copyright?: string;
+  keywords?: string[];
+  gps?: { lat: number; lng: number };
+}
+
+export interface MetadataVerification {
+  ok: boolean;
+  mismatches: string[];
+  // What was actually read back from the file
+  metadata: ImageMetadata;
+}
+
+// EXIF tag ids
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_XP_KEYWORDS = 0x9c9e;
+const TAG_GPS_IFD = 0x8825;
+const TAG_GPS_VERSION = 0x0000;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_MAP_DATUM = 0x0012;
+
+// EXIF field types
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// VP8X feature flags
+const FLAG_ALPHA = 0x10;
+const FLAG_EXIF = 0x08;
+const FLAG_XMP = 0x04;
+
+// Seconds are stored with this denominator (1/1000 s is about 3 cm)
+const SECONDS_DENOMINATOR = 1000;
+
+/**
+ * Artist and copyright from IMAGE_ARTIST / IMAGE_COPYRIGHT, falling back to BUSINESS_NAME
+ */
+export function getOwnerMetadata(): Pick<ImageMetadata, 'artist' | 'copyright'> {
+  const { imageMetadata, business } = getConfig();
+  return {
+    artist: imageMetadata.artist || business.name,
+    copyright: imageMetadata.copyright || (business.name ? `© ${new Date().getFullYear()} ${business.name}` : undefined)
+  };
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Buffer;
+}
+
+/**
+ * Decimal degrees to [degrees, minutes, seconds] rationals
+ */
+export function toDmsRationals(decimal: number): Array<[number, number]> {
+  const absolute = Math.abs(decimal);
+  let degrees = Math.floor(absolute);
+  let minutes = Math.floor((absolute - degrees) * 60);
+  let seconds = Math.round(((absolute - degrees) * 60 - minutes) * 60 * SECONDS_DENOMINATOR);
+
+  // Rounding can carry up to a whole minute or degree
+  if (seconds >= 60 * SECONDS_DENOMINATOR) {
+    seconds -= 60 * SECONDS_DENOMINATOR;
+    minutes += 1;
+  }
+  if (minutes >= 60) {
+    minutes -= 60;
+    degrees += 1;
+  }
+
+  return [[degrees, 1], [minutes, 1], [seconds, SECONDS_DENOMINATOR]];
+}
+
+export function fromDmsRationals(values: Array<[number, number]>, ref: string): number {
+  const [degrees, minutes, seconds] = values.map(([numerator, denominator]) => (denominator ? numerator / denominator : 0));
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  return ref === 'S' || ref === 'W' ? -decimal : decimal;
+}
+
+// Typographic characters the models and business names commonly use, spelled in ASCII
+const ASCII_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[\u2010-\u2015\u2212]/g, '-'],
+  [/[\u2018\u2019\u201a\u2032]/g, "'"],
+  [/[\u201c\u201d\u201e\u2033]/g, '"'],
+  [/\u2026/g, '...'],
+  [/\u00a9/g, '(c)'],
+  [/\u00ae/g, '(R)'],
+  [/\u2122/g, '(TM)'],
+  [/[\u00a0\u2000-\u200a\u202f]/g, ' ']
+];
+
+/**
+ * The text an EXIF ASCII field will hold: typographic characters spelled out, accents dropped
+ * and anything else outside printable ASCII removed. The full text still goes into the XMP packet.
+ */
+export function toExifAscii(value: string): string {
+  const replaced = ASCII_REPLACEMENTS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+  return replaced.normalize('NFKD').replace(/[^\x20-\x7e\n\t]/g, '');
+}
+
+function asciiEntry(tag: number, value: string): IfdEntry {
+  const data = Buffer.from(`${toExifAscii(value)}\0`, 'ascii');
+  return { tag, type: TYPE_ASCII, count: data.length, data };
+}
+
+function rationalEntry(tag: number, values: Array<[number, number]>): IfdEntry {
+  const data = Buffer.alloc(values.length * 8);
+  values.forEach(([numerator, denominator], index) => {
+    data.writeUInt32LE(numerator, index * 8);
+    data.writeUInt32LE(denominator, index * 8 + 4);
+  });
+  return { tag, type: TYPE_RATIONAL, count: values.length, data };
+}
+
+/**
+ * Serializes an IFD at offset; values over 4 bytes follow the entry table
+ */
+function writeIfd(entries: IfdEntry[], offset: number): Buffer {
+  const sorted = entries.slice().sort((a, b) => a.tag - b.tag);
+  const tableSize = 2 + sorted.length * 12 + 4;
+  const table = Buffer.alloc(tableSize);
+  const values: Buffer[] = [];
+  let valueOffset = offset + tableSize;
+
+  table.writeUInt16LE(sorted.length, 0);
+  sorted.forEach((entry, index) => {
+    const position = 2 + index * 12;
+    table.writeUInt16LE(entry.tag, position);
+    table.writeUInt16LE(entry.type, position + 2);
+    table.writeUInt32LE(entry.count, position + 4);
+
+    if (entry.data.length <= 4) {
+      entry.data.copy(table, position + 8);
+    } else {
+      table.writeUInt32LE(valueOffset, position + 8);
+      const padded = entry.data.length % 2 ? Buffer.concat([entry.data, Buffer.alloc(1)]) : entry.data;
+      values.push(padded);
+      valueOffset += padded.length;
+    }
+  });
+  // No next IFD
+  table.writeUInt32LE(0, tableSize - 4);
+
+  return Buffer.concat(([table] as Buffer[]).concat(values));
+}
+
+function ifdSize(entries: IfdEntry[]): number {
+  return entries.reduce(
+    (size, entry) => size + (entry.data.length > 4 ? entry.data.length + (entry.data.length % 2) : 0),
+    2 + entries.length * 12 + 4
+  );
+}
+
+/**
+ * Little-endian TIFF structure with IFD0 and, when there are coordinates, a GPS IFD
+ */
+export function buildExif(metadata: ImageMetadata): Buffer {
+  const ifd0: IfdEntry[] = [];
+  if (metadata.description) ifd0.push(asciiEntry(TAG_IMAGE_DESCRIPTION, metadata.description));
+  if (metadata.artist) ifd0.push(asciiEntry(TAG_ARTIST, metadata.artist));
+  if (metadata.copyright) ifd0.push(asciiEntry(TAG_COPYRIGHT, metadata.copyright));
+  if (metadata.keywords && metadata.keywords.length > 0) {
+    // XPKeywords is UCS-2 text stored as bytes, which is what Windows shows as Tags
+    const data = Buffer.from(`${metadata.keywords.join(';')}\0`, 'utf16le');
+    ifd0.push({ tag: TAG_XP_KEYWORDS, type: TYPE_BYTE, count: data.length, data });
+  }
+
+  const gps: IfdEntry[] = [];
+  if (metadata.gps) {
+    const { lat, lng } = metadata.gps;
+    gps.push(
+      { tag: TAG_GPS_VERSION, type: TYPE_BYTE, count: 4, data: Buffer.from([2, 3, 0, 0]) },
+      asciiEntry(TAG_GPS_LATITUDE_REF, lat >= 0 ? 'N' : 'S'),
+      rationalEntry(TAG_GPS_LATITUDE, toDmsRationals(lat)),
+      asciiEntry(TAG_GPS_LONGITUDE_REF, lng >= 0 ? 'E' : 'W'),
+      rationalEntry(TAG_GPS_LONGITUDE, toDmsRationals(lng)),
+      asciiEntry(TAG_GPS_MAP_DATUM, 'WGS-84')
+    );
+    // Placeholder pointer; its value is filled in once IFD0's size is known
+    ifd0.push({ tag: TAG_GPS_IFD, type: TYPE_LONG, count: 1, data: Buffer.alloc(4) });
+  }
+
+  const header = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+  const gpsOffset = header.length + ifdSize(ifd0);
+  if (gps.length > 0) {
+    ifd0[ifd0.length - 1].data.writeUInt32LE(gpsOffset, 0);
+  }
+
+  const parts = [header, writeIfd(ifd0, header.length)];
+  if (gps.length > 0) parts.push(writeIfd(gps, gpsOffset));
+  return Buffer.concat(parts);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// XMP writes coordinates as "DDD,MM.mmmmK"
+function toXmpCoordinate(decimal: number, positive: string, negative: string): string {
+  const absolute = Math.abs(decimal);
+  const degrees = Math.floor(absolute);
+  const minutes = (absolute - degrees) * 60;
+  return `${degrees},${minutes.toFixed(6)}${decimal >= 0 ? positive : negative}`;
+}
+
+function fromXmpCoordinate(value: string): number | null {
+  const match = /^(\d+),(\d+(?:\.\d+)?)([NSEW])$/.exec(value.trim());
+  if (!match) return null;
+  const decimal = Number(match[1]) + Number(match[2]) / 60;
+  return match[3] === 'S' || match[3] === 'W' ? -decimal : decimal;
+}
+
+export function buildXmp(metadata: ImageMetadata): string {
+  const fields: string[] = [];
+  const altText = (value: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+
+  if (metadata.description) fields.push(`<dc:description>${altText(metadata.description)}</dc:description>`);
+  if (metadata.artist) fields.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.artist)}</rdf:li></rdf:Seq></dc:creator>`);
+  if (metadata.copyright) fields.push(`<dc:rights>${altText(metadata.copyright)}</dc:rights>`);
+  if (metadata.keywords && metadata.keywords.length > 0) {
+    const items = metadata.keywords.map(keyword => `<rdf:li>${escapeXml(keyword)}</rdf:li>`).join('');
+    fields.push(`<dc:subject><rdf:Bag>${items}</rdf:Bag></dc:subject>`);
+  }
+  if (metadata.gps) {
+    fields.push(`<exif:GPSLatitude>${toXmpCoordinate(metadata.gps.lat, 'N', 'S')}</exif:GPSLatitude>`);
+    fields.push(`<exif:GPSLongitude>${toXmpCoordinate(metadata.gps.lng, 'E', 'W')}</exif:GPSLongitude>`);
+  }
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:exif="http://ns.adobe.com/exif/1.0/">',
+    fields.join(''),
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('');
+}
+
+interface RiffChunk {
+  id: string;
+  data: Buffer;
+}
+
+function readChunks(webp: Buffer): RiffChunk[] {
+  if (webp.length < 12 || webp.toString('ascii', 0, 4) !== 'RIFF' || webp.toString('ascii', 8, 12) !== 'WEBP') {
+    throw new Error('Not a WebP file');
+  }
+
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const id = webp.toString('ascii', offset, offset + 4);
+    const size = webp.readUInt32LE(offset + 4);
+    chunks.push({ id, data: webp.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function writeChunks(chunks: RiffChunk[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const chunk of chunks) {
+    const header = Buffer.alloc(8);
+    header.write(chunk.id, 0, 'ascii');
+    header.writeUInt32LE(chunk.data.length, 4);
+    parts.push(header, chunk.data);
+    if (chunk.data.length % 2) parts.push(Buffer.alloc(1));
+  }
+
+  const body = Buffer.concat(parts);
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(body.length + 4, 4);
+  riff.write('WEBP', 8, 'ascii');
+  return Buffer.concat([riff, body]);
+}
+
+// Canvas size and alpha of a simple (VP8 or VP8L) WebP, needed to build its VP8X header
+function readCanvas(chunks: RiffChunk[]): { width: number; height: number; alpha: boolean } {
+  const vp8l = chunks.find(chunk => chunk.id === 'VP8L');
+  if (vp8l) {
+    const bits = vp8l.data.readUInt32LE(1);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >>> 14) & 0x3fff) + 1,
+      alpha: ((bits >>> 28) & 1) === 1
+    };
+  }
+
+  const vp8 = chunks.find(chunk => chunk.id === 'VP8 ');
+  if (vp8 && vp8.data[3] === 0x9d && vp8.data[4] === 0x01 && vp8.data[5] === 0x2a) {
+    return {
+      width: vp8.data.readUInt16LE(6) & 0x3fff,
+      height: vp8.data.readUInt16LE(8) & 0x3fff,
+      alpha: false
+    };
+  }
+
+  throw new Error('Unsupported WebP bitstream');
+}
+
+/**
+ * Returns a copy of the WebP with its EXIF and XMP chunks replaced by the given metadata
+ */
+export function writeWebpMetadata(webp: Buffer, metadata: ImageMetadata): Buffer {
+  let chunks = readChunks(webp).filter(chunk => chunk.id !== 'EXIF' && chunk.id !== 'XMP ');
+
+  if (chunks[0]?.id !== 'VP8X') {
+    const canvas = readCanvas(chunks);
+    const vp8x = Buffer.alloc(10);
+    vp8x.writeUInt8(canvas.alpha ? FLAG_ALPHA : 0, 0);
+    vp8x.writeUIntLE(canvas.width - 1, 4, 3);
+    vp8x.writeUIntLE(canvas.height - 1, 7, 3);
+    chunks = ([{ id: 'VP8X', data: vp8x }] as RiffChunk[]).concat(chunks);
+  }
+
+  const vp8x = Buffer.from(chunks[0].data);
+  vp8x.writeUInt8(vp8x.readUInt8(0) | FLAG_EXIF | FLAG_XMP, 0);
+  chunks[0] = { id: 'VP8X', data: vp8x };
+
+  // EXIF and XMP go after the image data
+  chunks.push({ id: 'EXIF', data: buildExif(metadata) });
+  chunks.push({ id: 'XMP ', data: Buffer.from(buildXmp(metadata), 'utf8') });
+  return writeChunks(chunks);
+}
+
+function readAscii(tiff: Buffer, entry: { count: number; valueOffset: number }): string {
+  return tiff.toString('latin1', entry.valueOffset, entry.valueOffset + entry.count).replace(/\0+$/, '');
+}
+
+function readIfd(tiff: Buffer, offset: number, littleEndian: boolean) {
+  const u16 = (at: number) => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const u32 = (at: number) => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+  const entries: Record<number, { type: number; count: number; valueOffset: number }> = {};
+
+  const count = u16(offset);
+  for (let i = 0; i < count; i++) {
+    const position = offset + 2 + i * 12;
+    const type = u16(position + 2);
+    const entryCount = u32(position + 4);
+    const size = (TYPE_SIZES[type] || 1) * entryCount;
+    entries[u16(position)] = {
+      type,
+      count: entryCount,
+      valueOffset: size <= 4 ? position + 8 : u32(position + 8)
+    };
+  }
+
+  const rationals = (tag: number): Array<[number, number]> => {
+    const entry = entries[tag];
+    if (!entry || entry.type !== TYPE_RATIONAL) return [];
+    const values: Array<[number, number]> = [];
+    for (let i = 0; i < entry.count; i++) {
+      values.push([u32(entry.valueOffset + i * 8), u32(entry.valueOffset + i * 8 + 4)]);
+    }
+    return values;
+  };
+
+  return { entries, rationals, u32 };
+}
+
+/**
+ * Parses the IFD0 and GPS tags written by buildExif (either byte order)
+ */
+export function parseExif(exif: Buffer): ImageMetadata {
+  // Some writers keep the JPEG-style "Exif\0\0" prefix
+  const tiff = exif.toString('ascii', 0, 6) === 'Exif\0\0' ? exif.subarray(6) : exif;
+  const littleEndian = tiff.toString('ascii', 0, 2) === 'II';
+  const firstIfd = littleEndian ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4);
+  const ifd0 = readIfd(tiff, firstIfd, littleEndian);
+  const metadata: ImageMetadata = {};
+
+  const text = (tag: number) => (ifd0.entries[tag] ? readAscii(tiff, ifd0.entries[tag]) : undefined);
+  metadata.description = text(TAG_IMAGE_DESCRIPTION);
+  metadata.artist = text(TAG_ARTIST);
+  metadata.copyright = text(TAG_COPYRIGHT);
+
+  const keywords = ifd0.entries[TAG_XP_KEYWORDS];
+  if (keywords) {
+    const value = tiff.toString('utf16le', keywords.valueOffset, keywords.valueOffset + keywords.count).replace(/\0+$/, '');
+    metadata.keywords = value.split(';').filter(Boolean);
+  }
+
+  const gpsPointer = ifd0.entries[TAG_GPS_IFD];
+  if (gpsPointer) {
+    const gps = readIfd(tiff, ifd0.u32(gpsPointer.valueOffset), littleEndian);
+    const latitude = gps.rationals(TAG_GPS_LATITUDE);
+    const longitude = gps.rationals(TAG_GPS_LONGITUDE);
+    if (latitude.length === 3 && longitude.length === 3) {
+      metadata.gps = {
+        lat: fromDmsRationals(latitude, gps.entries[TAG_GPS_LATITUDE_REF] ? readAscii(tiff, gps.entries[TAG_GPS_LATITUDE_REF]) : 'N'),
+        lng: fromDmsRationals(longitude, gps.entries[TAG_GPS_LONGITUDE_REF] ? readAscii(tiff, gps.entries[TAG_GPS_LONGITUDE_REF]) : 'E')
+      };
+    }
+  }
+
+  return metadata;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
+
+export function parseXmp(xmp: string): ImageMetadata {
+  const element = (name: string) => {
+    const match = new RegExp(`<${name}>([\\s\\S]*?)</${name}>`).exec(xmp);
+    return match ? match[1] : undefined;
+  };
+  const items = (value: string | undefined) => {
+    const found: string[] = [];
+    const pattern = /<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g;
+    let match: RegExpExecArray | null;
+    while (value && (match = pattern.exec(value))) {
+      found.push(decodeXml(match[1]));
+    }
+    return found;
+  };
+
+  const metadata: ImageMetadata = {
+    description: items(element('dc:description'))[0],
+    artist: items(element('dc:creator'))[0],
+    copyright: items(element('dc:rights'))[0]
+  };
+
+  const keywords = items(element('dc:subject'));
+  if (keywords.length > 0) metadata.keywords = keywords;
+
+  const lat = fromXmpCoordinate(element('exif:GPSLatitude') || '');
+  const lng = fromXmpCoordinate(element('exif:GPSLongitude') || '');
+  if (lat !== null && lng !== null) metadata.gps = { lat, lng };
+
+  return metadata;
+}
+
+/**
+ * Reads the EXIF and XMP chunks of a WebP file
+ */
+export function readWebpMetadata(webp: Buffer): { exif: ImageMetadata | null; xmp: ImageMetadata | null } {
+  const chunks = readChunks(webp);
+  const exif = chunks.find(chunk => chunk.id === 'EXIF');
+  const xmp = chunks.find(chunk => chunk.id === 'XMP ');
+
+  return {
+    exif: exif ? parseExif(exif.data) : null,
+    xmp: xmp ? parseXmp(xmp.data.toString('utf8')) : null
+  };
+}
+
+/**
+ * Differences between one metadata block read back from a file and what was meant to be written
+ * Coordinates must match to about 10 cm (rounding of the stored seconds). Formats written through
+ * sharp can't carry XPKeywords, so keyword checks can be turned off.
+ */
+export function compareMetadata(
+  source: 'EXIF' | 'XMP',
+  actual: ImageMetadata | null,
+  expected: ImageMetadata,
+  options: { keywords?: boolean } = {}
+): string[] {
+  if (!actual) return [`${source} block missing`];
+  const mismatches: string[] = [];
+
+  for (const field of ['description', 'artist', 'copyright'] as const) {
+    // EXIF ASCII fields hold the transliterated text, so anything else read back is corruption
+    const want = source === 'EXIF' ? toExifAscii(expected[field] || '') : expected[field] || '';
+    if ((actual[field] || '') !== want) mismatches.push(`${source} ${field} does not match`);
+  }
+  if (options.keywords !== false && (actual.keywords || []).join(';') !== (expected.keywords || []).join(';')) {
+    mismatches.push(`${source} keywords do not match`);
+  }
+  if (expected.gps) {
+    const gps = actual.gps;
+    if (!gps || Math.abs(gps.lat - expected.gps.lat) > 1e-6 || Math.abs(gps.lng - expected.gps.lng) > 1e-6) {
+      mismatches.push(`${source} GPS position does not match`);
+    }
+  } else if (actual.gps) {
+    mismatches.push(`${source} has an unexpected GPS position`);
+  }
+
+  return mismatches;
+}
+
+/**
+ * Compares the EXIF and XMP blocks of a WebP with what was meant to be written
+ */
+export function verifyWebpMetadata(webp: Buffer, expected: ImageMetadata): MetadataVerification {
+  let read: { exif: ImageMetadata | null; xmp: ImageMetadata | null };
+
+  try {
+    read = readWebpMetadata(webp);
+  } catch (error) {
+    return {
+      ok: false,
+      mismatches: [`Could not read metadata: ${error instanceof Error ? error.message : 'Unknown error'}`],
+      metadata: {}
+    };
+  }
+
+  const mismatches = compareMetadata('EXIF', read.exif, expected).concat(compareMetadata('XMP', read.xmp, expected));
+  return { ok: mismatches.length === 0, mismatches, metadata: read.exif || read.xmp || {} };
+}
@@ -0,0 +1,108 @@
+/**
+ * Image instruction presets
+ * Each preset is a named Freepik instruction. The Prompts tab overrides one with a row named
+ * "Image Preset: <label>", read through getPromptFromSheets like any text prompt: column C is
+ * the instruction, and column D may set "aspect ratio: ..." and "model: ..." on separate lines.
+ * Without a Google session, or for presets missing from the sheet, the built-in text is used.
+ */
+
+import { getPromptFromSheets } from '../googleSheetsPrompts';
+
+export interface ImagePreset {
+  id: string;
+  label: string;
+  instruction: string;
+  // Override FREEPIK_ASPECT_RATIO and FREEPIK_IMAGE_MODEL for this preset
+  aspectRatio?: string;
+  model?: string;
+  source: 'sheet' | 'default';
+}
+
+type PresetDefinition = Pick<ImagePreset, 'id' | 'label' | 'instruction' | 'aspectRatio'>;
+
+export const DEFAULT_IMAGE_PRESET = 'enhance';
+
+const SHEET_PREFIX = 'Image Preset: ';
+
+const PRESETS: PresetDefinition[] = [
+  {
+    id: 'enhance',
+    label: 'Enhance',
+    instruction: 'Enhance this image for professional web use'
+  },
+  {
+    id: 'frame',
+    label: 'Frame',
+    instruction: 'Enhance this photo for display in a picture frame: natural colours, sharp detail and nothing important near the edges. Do not add a frame, border or background.'
+  },
+  {
+    id: 'declutter',
+    label: 'Declutter',
+    instruction: 'Remove clutter, trash and distracting objects from this photo. Keep the scene, lighting and perspective exactly as they are.'
+  },
+  {
+    id: 'brighten',
+    label: 'Brighten',
+    instruction: 'Brighten this photo and balance its exposure and colours naturally without changing its content.'
+  },
+  {
+    id: 'crop-to-aspect',
+    label: 'Crop to aspect',
+    instruction: 'Recompose this photo to the requested aspect ratio, keeping the main subject whole and well placed. Do not stretch or distort anything.',
+    aspectRatio: 'widescreen_16_9'
+  }
+];
+
+/**
+ * Reads "aspect ratio: widescreen_16_9" and "model: ..." lines from a preset's Example cell
+ */
+export function parsePresetSettings(text: string | null): Pick<ImagePreset, 'aspectRatio' | 'model'> {
+  const settings: Pick<ImagePreset, 'aspectRatio' | 'model'> = {};
+
+  for (const line of (text || '').split(/\r?\n/)) {
+    const match = line.match(/^\s*([a-zA-Z _-]+?)\s*[:=]\s*(.+?)\s*$/);
+    if (!match) continue;
+
+    const key = match[1].toLowerCase().replace(/[\s_-]/g, '');
+    if (key === 'aspectratio') settings.aspectRatio = match[2];
+    if (key === 'model') settings.model = match[2];
+  }
+  return settings;
+}
+
+/**
+ * Every preset, with the Prompts tab's rows applied when an access token is available
+ * Presets missing from the sheet keep their built-in text; a sheet that can't be read is
+ * reported in error.
+ */
+export async function loadImagePresets(accessToken?: string): Promise<{ presets: ImagePreset[]; error?: string }> {
+  const defaults: ImagePreset[] = PRESETS.map(preset => ({ ...preset, source: 'default' }));
+  if (!accessToken) return { presets: defaults };
+
+  const results = await Promise.all(PRESETS.map(preset => getPromptFromSheets(`${SHEET_PREFIX}${preset.label}`, accessToken)));
+  const errors: string[] = [];
+
+  const presets = defaults.map((preset, index) => {
+    const result = results[index];
+    if (!result.found || !result.prompt) {
+      // A preset that isn't in the sheet is expected; anything else is worth showing
+      if (result.error && !/not found|prompt is empty/i.test(result.error) && errors.indexOf(result.error) === -1) {
+        errors.push(result.error);
+      }
+      return preset;
+    }
+
+    return {
+      ...preset,
+      ...parsePresetSettings(result.example),
+      instruction: result.prompt.trim(),
+      source: 'sheet' as const
+    };
+  });
+
+  return { presets, error: errors.length > 0 ? errors.join('; ') : undefined };
+}
+
+export function findImagePreset(presets: ImagePreset[], id?: string): ImagePreset | null {
+  return presets.find(preset => preset.id === (id || DEFAULT_IMAGE_PRESET)) || null;
+}
@@ -0,0 +1,164 @@
+/**
+ * Checks run on uploads before they become image jobs
+ * An upload is flagged when its shorter side is under IMAGE_MIN_SIZE, when it is blurry (the
+ * variance of its Laplacian is under IMAGE_BLUR_THRESHOLD) or when its difference hash is
+ * within IMAGE_DUPLICATE_DISTANCE bits of an image uploaded before. Issues listed in
+ * IMAGE_REJECT reject the upload; the others are kept on the job as warnings.
+ */
+
+import sharp from 'sharp';
+import { getConfig } from '../config';
+
+export type ImageIssueCode = 'low-resolution' | 'blurry' | 'duplicate';
+
+export interface ImageIssue {
+  code: ImageIssueCode;
+  // Reads after the filename, e.g. "is 400x300px, below the 600px minimum"
+  message: string;
+  rejected: boolean;
+}
+
+// An image seen before: a job's source, or an earlier file of the same upload
+export interface ImageFingerprint {
+  jobId?: string;
+  filename: string;
+  hash: string;
+}
+
+export interface ImageQuality {
+  // After EXIF orientation is applied
+  width: number;
+  height: number;
+  sharpness: number;
+  hash: string;
+  issues: ImageIssue[];
+}
+
+// The blur check runs on a copy this size, so the score doesn't grow with the resolution
+const SHARPNESS_SIZE = 1024;
+// The hash compares each pixel of a 9x8 thumbnail with its right neighbour: 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Difference hash of a 9x8 greyscale thumbnail, as 16 hex digits
+ */
+export function differenceHash(pixels: Uint8Array | Buffer): string {
+  let hash = '';
+  let nibble = 0;
+  let bits = 0;
+
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const index = y * HASH_WIDTH + x;
+      nibble = (nibble << 1) | (pixels[index] > pixels[index + 1] ? 1 : 0);
+      if (++bits === 4) {
+        hash += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of bits two hashes differ in
+ */
+export function hashDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian over a greyscale image
+ * Sharp edges give large responses; a blurred image stays close to zero everywhere.
+ */
+export function laplacianVariance(pixels: Uint8Array | Buffer, width: number, height: number): number {
+  if (width < 3 || height < 3) return 0;
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      const value = pixels[index - 1] + pixels[index + 1] + pixels[index - width] + pixels[index + width] - 4 * pixels[index];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Measures the upload and compares it with the images seen before
+ * Throws when the upload isn't a readable image.
+ */
+export async function checkImageQuality(image: Buffer, known: ImageFingerprint[]): Promise<ImageQuality> {
+  const checks = getConfig().imageChecks;
+
+  const metadata = await sharp(image).metadata();
+  // Orientations 5 to 8 are rotated by 90 degrees, so width and height swap
+  const turned = (metadata.orientation || 1) >= 5;
+  const width = (turned ? metadata.height : metadata.width) || 0;
+  const height = (turned ? metadata.width : metadata.height) || 0;
+
+  const grey = await sharp(image)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(SHARPNESS_SIZE, SHARPNESS_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .extractChannel(0)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const sharpness = laplacianVariance(grey.data, grey.info.width, grey.info.height);
+
+  const thumbnail = await sharp(grey.data, { raw: { width: grey.info.width, height: grey.info.height, channels: 1 } })
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+  const hash = differenceHash(thumbnail);
+
+  const issues: ImageIssue[] = [];
+  const add = (code: ImageIssueCode, message: string) => {
+    issues.push({ code, message, rejected: checks.reject.indexOf(code) !== -1 });
+  };
+
+  if (checks.minSize > 0 && Math.min(width, height) < checks.minSize) {
+    add('low-resolution', `is ${width}x${height}px, below the ${checks.minSize}px minimum`);
+  }
+  if (checks.blurThreshold > 0 && sharpness < checks.blurThreshold) {
+    add('blurry', `looks blurry (sharpness ${Math.round(sharpness)}, minimum ${checks.blurThreshold})`);
+  }
+
+  let match: ImageFingerprint | null = null;
+  let closest = Infinity;
+  for (const entry of known) {
+    const distance = hashDistance(hash, entry.hash);
+    if (distance <= checks.duplicateDistance && distance < closest) {
+      match = entry;
+      closest = distance;
+    }
+  }
+  if (match) {
+    add('duplicate', match.jobId
+      ? `looks like a duplicate of ${match.filename}, uploaded before`
+      : `looks like a duplicate of ${match.filename} in the same upload`);
+  }
+
+  return { width, height, sharpness, hash, issues };
+}
@@ -0,0 +1,191 @@
+/**
+ * Reads the Pictures tab's upload form into image job inputs
+ * Shared by /api/image/process (one image) and /api/image/batch (many), so both check,
+ * convert, frame, geotag and number images the same way.
+ */
+
+import { NextRequest } from 'next/server';
+import sharp from 'sharp';
+import { getCurrentUser } from '../auth/user';
+import { getGoogleAccess } from '../googleClient';
+import { FrameTemplate, loadFrameTemplate } from './frames';
+import { chooseLocation, ChosenLocation, findProfile, loadLocationProfiles, LocationMode, LocationProfile } from './geotag';
+import { ImageJobInput, listImageFingerprints } from './jobs';
+import { findImagePreset, ImagePreset, loadImagePresets } from './presets';
+import { checkImageQuality, ImageFingerprint, ImageIssue, ImageQuality } from './quality';
+
+export interface UploadOptions {
+  // Preset id, DEFAULT_IMAGE_PRESET when not given
+  preset?: string;
+  // Replaces the preset's instruction when given
+  instruction?: string;
+  // Send the image to Freepik before framing; on unless the form says "false"
+  enhance: boolean;
+  frameId?: string;
+  geotag: boolean;
+  keyword?: string;
+  profileId?: string;
+  city?: string;
+  mode?: LocationMode;
+  jitterMeters?: number;
+}
+
+export interface UploadContext {
+  options: UploadOptions;
+  // Loaded only when geotagging is on
+  profile: LocationProfile | null;
+  frame: FrameTemplate | null;
+  // Loaded only when the image is enhanced
+  preset: ImagePreset | null;
+  createdBy?: string;
+  // Earlier uploads; each prepared file is added so a batch can't repeat an image either
+  knownImages: ImageFingerprint[];
+}
+
+export function formText(formData: FormData, name: string): string | undefined {
+  const value = formData.get(name);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export function readUploadOptions(formData: FormData): UploadOptions {
+  const mode = formText(formData, 'locationMode');
+  const jitter = formText(formData, 'jitterMeters');
+
+  return {
+    preset: formText(formData, 'preset'),
+    instruction: formText(formData, 'instruction'),
+    enhance: formData.get('enhance') !== 'false',
+    frameId: formText(formData, 'frame'),
+    geotag: formData.get('geotag') === 'true',
+    keyword: formText(formData, 'keyword'),
+    profileId: formText(formData, 'profile'),
+    city: formText(formData, 'location'),
+    mode: mode === 'random' || mode === 'round-robin' ? mode : undefined,
+    jitterMeters: jitter !== undefined && Number.isFinite(Number(jitter)) ? Math.max(0, Number(jitter)) : undefined
+  };
+}
+
+/**
+ * Resolves the preset, frame template, geotag profile, submitting user and earlier uploads once per request
+ */
+export async function getUploadContext(request: NextRequest, options: UploadOptions): Promise<{ context?: UploadContext; error?: string }> {
+  let profile: LocationProfile | null = null;
+  let frame: FrameTemplate | null = null;
+  let preset: ImagePreset | null = null;
+
+  // Presets and profiles in the sheet need the caller's Google session; without one the built-in ones apply
+  const access = options.enhance || options.geotag ? await getGoogleAccess(request) : null;
+  const accessToken = access?.ok ? access.accessToken : undefined;
+
+  if (options.enhance) {
+    const { presets, error } = await loadImagePresets(accessToken);
+    if (error) console.warn('Image upload: Failed to read image presets:', error);
+    preset = findImagePreset(presets, options.preset);
+    if (!preset) {
+      return { error: `Unknown image preset "${options.preset}"` };
+    }
+  }
+
+  if (options.frameId) {
+    frame = /^[a-zA-Z0-9-]+$/.test(options.frameId) ? await loadFrameTemplate(options.frameId) : null;
+    if (!frame) {
+      return { error: `Unknown frame template "${options.frameId}"` };
+    }
+  }
+
+  if (options.geotag) {
+    const { profiles } = await loadLocationProfiles(accessToken);
+    profile = findProfile(profiles, { profileId: options.profileId, keyword: options.keyword });
+    if (!profile) {
+      return { error: `Unknown geotag profile "${options.profileId}"` };
+    }
+  }
+
+  let createdBy: string | undefined;
+  try {
+    createdBy = (await getCurrentUser(request))?.email;
+  } catch (error) {
+    console.warn('Image upload: Failed to resolve user:', error);
+  }
+
+  const knownImages = await listImageFingerprints();
+
+  return { context: { options, profile, frame, preset, createdBy, knownImages } };
+}
+
+/**
+ * Checks one upload, converts it to WebP upright and picks its geotag city
+ * Issues listed in IMAGE_REJECT come back as the error (and in issues); the others become
+ * the job's warnings.
+ */
+export async function prepareImageJob(
+  file: File,
+  context: UploadContext,
+  details: Pick<ImageJobInput, 'pictureTitle' | 'sequence' | 'batchId'> = {}
+): Promise<{ input?: ImageJobInput; error?: string; issues?: ImageIssue[] }> {
+  const { options, profile, preset } = context;
+
+  let upload: Buffer;
+  let quality: ImageQuality;
+  try {
+    upload = Buffer.from(await file.arrayBuffer());
+    quality = await checkImageQuality(upload, context.knownImages);
+  } catch (error) {
+    return { error: `${file.name} is not a readable image` };
+  }
+
+  const rejected = quality.issues.filter(issue => issue.rejected);
+  if (rejected.length > 0) {
+    return {
+      error: rejected.map(issue => `${file.name} ${issue.message}`).join('; '),
+      issues: quality.issues
+    };
+  }
+  const warnings = quality.issues.map(issue => `${file.name} ${issue.message}`);
+
+  let location: ChosenLocation | null = null;
+  if (profile) {
+    const choice = chooseLocation(profile, {
+      keyword: options.keyword,
+      city: options.city,
+      mode: options.mode,
+      jitterMeters: options.jitterMeters
+    });
+    if (!choice.location) return { error: choice.error };
+    location = choice.location;
+  }
+
+  let source: Buffer;
+  try {
+    // Applies the EXIF orientation, which the WebP would otherwise lose
+    source = await sharp(upload)
+      .rotate()
+      .webp({ quality: 85 })
+      .toBuffer();
+  } catch (error) {
+    return { error: `${file.name} is not a readable image` };
+  }
+
+  context.knownImages.push({ filename: file.name, hash: quality.hash });
+
+  return {
+    input: {
+      source,
+      originalFilename: file.name,
+      preset: preset?.id,
+      instruction: options.instruction || preset?.instruction || '',
+      model: preset?.model,
+      aspectRatio: preset?.aspectRatio,
+      enhance: options.enhance,
+      frameId: context.frame?.id,
+      keyword: options.keyword,
+      pictureTitle: details.pictureTitle,
+      sequence: details.sequence && Number.isInteger(details.sequence) && details.sequence > 0 ? details.sequence : undefined,
+      batchId: details.batchId,
+      sourceHash: quality.hash,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      location,
+      createdBy: context.createdBy
+    }
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Responsive variants of processed images
+ * Each image is resized to every IMAGE_WIDTHS entry it is wide enough for and encoded as
+ * WebP (and AVIF), lowering the quality until the file fits IMAGE_MAX_KB. Whatever metadata
+ * the source carried is dropped; only ours - description, owner, keywords and GPS - is written.
+ */
+
+import sharp from 'sharp';
+import { getConfig } from '../config';
+import { variantFilename } from './filenames';
+import {
+  compareMetadata,
+  ImageMetadata,
+  MetadataVerification,
+  parseExif,
+  toDmsRationals,
+  toExifAscii,
+  verifyWebpMetadata,
+  writeWebpMetadata
+} from './metadata';
+
+export type VariantFormat = 'webp' | 'avif';
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  format: VariantFormat;
+  quality: number;
+  bytes: number;
+  // Even IMAGE_MIN_QUALITY didn't fit IMAGE_MAX_KB; the smallest attempt is kept
+  overBudget: boolean;
+  filename: string;
+  verification: MetadataVerification;
+  data: Buffer;
+}
+
+export interface VariantOptions {
+  // SEO filename of the image, e.g. junk-removal-boise-1.webp; variants add the width
+  filename: string;
+  metadata: ImageMetadata;
+}
+
+const MIME_TYPES: Record<VariantFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+// Quality steps tried per variant; a binary search needs about five to land within one step
+const MAX_ATTEMPTS = 6;
+
+export function variantMimeType(format: VariantFormat): string {
+  return MIME_TYPES[format];
+}
+
+/**
+ * The configured widths the source can fill without upscaling, or the source width when it
+ * is narrower than all of them
+ */
+export function getVariantWidths(sourceWidth: number, widths: number[]): number[] {
+  const fitting = widths
+    .filter(width => width <= sourceWidth)
+    .sort((a, b) => a - b)
+    .filter((width, index, sorted) => sorted.indexOf(width) === index);
+  return fitting.length > 0 ? fitting : [sourceWidth];
+}
+
+/**
+ * Highest quality between min and start whose encoding fits maxBytes
+ */
+export async function encodeWithinBudget(
+  encodeAt: (quality: number) => Promise<Buffer>,
+  start: number,
+  min: number,
+  maxBytes: number
+): Promise<{ data: Buffer; quality: number; overBudget: boolean }> {
+  const first = await encodeAt(start);
+  if (first.length <= maxBytes || start <= min) {
+    return { data: first, quality: start, overBudget: first.length > maxBytes };
+  }
+
+  let low = min;
+  let high = start - 1;
+  let best: { data: Buffer; quality: number } | null = null;
+  let smallest = { data: first, quality: start };
+
+  for (let attempt = 1; attempt < MAX_ATTEMPTS && low <= high; attempt++) {
+    const quality = Math.floor((low + high) / 2);
+    const data = await encodeAt(quality);
+    if (data.length < smallest.data.length) smallest = { data, quality };
+
+    if (data.length <= maxBytes) {
+      best = { data, quality };
+      low = quality + 1;
+    } else {
+      high = quality - 1;
+    }
+  }
+
+  if (best) return { ...best, overBudget: false };
+
+  // Not found within the attempts; settle for the floor
+  if (smallest.quality !== min) {
+    const data = await encodeAt(min);
+    if (data.length < smallest.data.length) smallest = { data, quality: min };
+  }
+  return { ...smallest, overBudget: smallest.data.length > maxBytes };
+}
+
+/**
+ * EXIF for sharp's withMetadata, which takes every value as a string; rationals are "n/d" per component
+ */
+function sharpExif(metadata: ImageMetadata): Record<string, Record<string, string>> {
+  const ifd0: Record<string, string> = {};
+  if (metadata.description) ifd0.ImageDescription = toExifAscii(metadata.description);
+  if (metadata.artist) ifd0.Artist = toExifAscii(metadata.artist);
+  if (metadata.copyright) ifd0.Copyright = toExifAscii(metadata.copyright);
+
+  const exif: Record<string, Record<string, string>> = { IFD0: ifd0 };
+  if (metadata.gps) {
+    const rationals = (value: number) => toDmsRationals(value).map(([numerator, denominator]) => `${numerator}/${denominator}`).join(' ');
+    exif.IFD3 = {
+      GPSLatitudeRef: metadata.gps.lat < 0 ? 'S' : 'N',
+      GPSLatitude: rationals(metadata.gps.lat),
+      GPSLongitudeRef: metadata.gps.lng < 0 ? 'W' : 'E',
+      GPSLongitude: rationals(metadata.gps.lng),
+      GPSMapDatum: 'WGS-84'
+    };
+  }
+  return exif;
+}
+
+async function verifyAvifMetadata(avif: Buffer, expected: ImageMetadata): Promise<MetadataVerification> {
+  try {
+    const { exif } = await sharp(avif).metadata();
+    const read = exif ? parseExif(exif) : null;
+    const mismatches = compareMetadata('EXIF', read, expected, { keywords: false });
+    return { ok: mismatches.length === 0, mismatches, metadata: read || {} };
+  } catch (error) {
+    return {
+      ok: false,
+      mismatches: [`Could not read metadata: ${error instanceof Error ? error.message : 'Unknown error'}`],
+      metadata: {}
+    };
+  }
+}
+
+/**
+ * Builds every width/format variant of an image, smallest first
+ * WebP gets EXIF and XMP from our own writer; AVIF gets EXIF through sharp, without keywords.
+ */
+export async function buildImageVariants(image: Buffer, options: VariantOptions): Promise<ImageVariant[]> {
+  const config = getConfig().imageVariants;
+  const formats: VariantFormat[] = ['webp' as VariantFormat].concat(config.formats.filter(format => format !== 'webp'));
+  const maxBytes = config.maxKb * 1024;
+
+  // Decoded once to raw pixels: applies the EXIF orientation and leaves every source tag behind
+  const { data: pixels, info } = await sharp(image)
+    .rotate()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const raw = { width: info.width, height: info.height, channels: info.channels };
+
+  const variants: ImageVariant[] = [];
+
+  for (const width of getVariantWidths(info.width, config.widths)) {
+    const height = Math.round(info.height * width / info.width);
+
+    for (const format of formats) {
+      const start = format === 'avif' ? config.avifQuality : config.webpQuality;
+      const encodeAt = (quality: number) => {
+        const pipeline = sharp(pixels, { raw }).resize({ width, withoutEnlargement: true });
+        return format === 'avif'
+          ? pipeline.withMetadata({ exif: sharpExif(options.metadata) }).avif({ quality }).toBuffer()
+          : pipeline.webp({ quality }).toBuffer();
+      };
+
+      const encoded = await encodeWithinBudget(encodeAt, start, Math.min(config.minQuality, start), maxBytes);
+      let data = encoded.data;
+      let verification: MetadataVerification;
+
+      if (format === 'webp') {
+        data = writeWebpMetadata(data, options.metadata);
+        verification = verifyWebpMetadata(data, options.metadata);
+      } else {
+        verification = await verifyAvifMetadata(data, options.metadata);
+      }
+
+      variants.push({
+        width,
+        height,
+        format,
+        quality: encoded.quality,
+        bytes: data.length,
+        overBudget: encoded.overBudget || data.length > maxBytes,
+        filename: variantFilename(options.filename, width, format),
+        verification,
+        data
+      });
+    }
+  }
+
+  return variants;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Ready-to-paste <picture> element with a srcset per format; URLs are prefixed with IMAGE_BASE_URL
+ * AVIF is listed first so browsers that support it pick it over WebP.
+ */
+export function buildPictureHtml(
+  variants: Array<Pick<ImageVariant, 'width' | 'height' | 'format' | 'filename'>>,
+  alt: string
+): string {
+  const baseUrl = getConfig().imageVariants.baseUrl;
+  const url = (filename: string) => (baseUrl ? `${baseUrl}/${filename}` : filename);
+  const webp = variants.filter(variant => variant.format === 'webp');
+  const largest = webp[webp.length - 1];
+  if (!largest) return '';
+
+  const sizes = `(max-width: ${largest.width}px) 100vw, ${largest.width}px`;
+  const lines = ['<picture>'];
+
+  for (const format of ['avif', 'webp'] as VariantFormat[]) {
+    const matching = variants.filter(variant => variant.format === format);
+    if (matching.length === 0) continue;
+    const srcset = matching.map(variant => `${url(variant.filename)} ${variant.width}w`).join(', ');
+    lines.push(`  <source type="${MIME_TYPES[format]}" srcset="${escapeAttribute(srcset)}" sizes="${sizes}">`);
+  }
+
+  lines.push(`  <img src="${escapeAttribute(url(largest.filename))}" alt="${escapeAttribute(alt)}" width="${largest.width}" height="${largest.height}" loading="lazy" decoding="async">`);
+  lines.push('</picture>');
+  return lines.join('\n');
+}
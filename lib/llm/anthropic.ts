@@ -0,0 +1,63 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { CompletionRequest, CompletionResult, DeltaHandler, LLMProvider } from './types';
+
+export const ANTHROPIC_DEFAULT_MODEL = 'claude-3-5-sonnet-20241022';
+
+/**
+ * Anthropic Messages API provider
+ */
+export function createAnthropicProvider(apiKey: string, defaultModel: string = ANTHROPIC_DEFAULT_MODEL): LLMProvider {
+  const client = new Anthropic({ apiKey });
+
+  const buildParams = (request: CompletionRequest, model: string) => ({
+    model,
+    ...(request.system ? { system: request.system } : {}),
+    messages: [{
+      role: 'user' as const,
+      content: request.images && request.images.length > 0
+        ? [
+            ...request.images.map(image => ({
+              type: 'image' as const,
+              source: { type: 'base64' as const, media_type: image.mediaType, data: image.data }
+            })),
+            { type: 'text' as const, text: request.prompt }
+          ]
+        : request.prompt
+    }],
+    max_tokens: request.maxTokens ?? 1000,
+    temperature: request.temperature ?? 0.7
+  });
+
+  const textOf = (message: Anthropic.Message) => message.content
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .join('');
+
+  return {
+    name: 'anthropic',
+    defaultModel,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const model = request.model || defaultModel;
+
+      const response = await client.messages.create(buildParams(request, model), { signal: request.signal });
+
+      return {
+        text: textOf(response),
+        provider: 'anthropic',
+        model
+      };
+    },
+
+    async stream(request: CompletionRequest, onDelta: DeltaHandler): Promise<CompletionResult> {
+      const model = request.model || defaultModel;
+
+      const stream = client.messages.stream(buildParams(request, model), { signal: request.signal });
+      stream.on('text', (delta) => onDelta(delta));
+
+      return {
+        text: textOf(await stream.finalMessage()),
+        provider: 'anthropic',
+        model
+      };
+    }
+  };
+}
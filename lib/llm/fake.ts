@@ -0,0 +1,57 @@
+import { sampleFromSchema } from './structured';
+import { CompletionRequest, CompletionResult, DeltaHandler, LLMProvider } from './types';
+
+export const FAKE_DEFAULT_MODEL = 'fake-1';
+
+export type FakeResponder = (request: CompletionRequest) => string;
+
+// Small stable hash so the same prompt always produces the same output
+function digest(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+const defaultResponder: FakeResponder = (request) => {
+  // Structured requests get a schema-valid sample so callers can exercise parsing
+  if (request.json) {
+    return JSON.stringify(sampleFromSchema(request.json.schema, digest(request.prompt)));
+  }
+
+  const firstLine = request.prompt.split('\n')[0].slice(0, 80);
+  return `Fake response ${digest(`${request.system || ''}\n${request.prompt}`)}: ${firstLine}`;
+};
+
+/**
+ * Deterministic provider for tests and local development
+ * Never calls the network; output depends only on the request
+ */
+export function createFakeProvider(responder: FakeResponder = defaultResponder): LLMProvider {
+  return {
+    name: 'fake',
+    defaultModel: FAKE_DEFAULT_MODEL,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      return {
+        text: responder(request),
+        provider: 'fake',
+        model: request.model || FAKE_DEFAULT_MODEL
+      };
+    },
+
+    async stream(request: CompletionRequest, onDelta: DeltaHandler): Promise<CompletionResult> {
+      const text = responder(request);
+      // Emit word by word so streaming consumers see multiple chunks
+      for (const chunk of text.match(/\S+\s*|\s+/g) || []) {
+        if (request.signal?.aborted) throw new Error('Request was aborted');
+        onDelta(chunk);
+      }
+      return {
+        text,
+        provider: 'fake',
+        model: request.model || FAKE_DEFAULT_MODEL
+      };
+    }
+  };
+}
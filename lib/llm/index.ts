@@ -0,0 +1,120 @@
+/**
+ * LLM provider selection
+ *
+ * Providers are chosen from configuration so routes never construct SDK clients directly:
+ *   LLM_PROVIDER=openai                         global default (provider[:model])
+ *   LLM_FIELD_PROVIDERS=faq=anthropic,title=openai:gpt-4o-mini
+ *                                               per-field overrides
+ * Separate alternatives with "|" (e.g. "openai|anthropic") to A/B them; one is
+ * picked at random for each request.
+ */
+
+import { getConfig } from '../config';
+import { createAnthropicProvider } from './anthropic';
+import { createFakeProvider } from './fake';
+import { createOpenAIProvider } from './openai';
+import { LLMProvider, LLMProviderName, ResolvedLLM } from './types';
+
+export * from './types';
+export { createFakeProvider } from './fake';
+export { completeStructured, parsePartialJson, validateJson } from './structured';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'fake'];
+
+interface ProviderSpec {
+  name: LLMProviderName;
+  model?: string;
+}
+
+const providerCache: Partial<Record<LLMProviderName, LLMProvider>> = {};
+
+function parseSpec(spec: string): ProviderSpec[] {
+  return spec
+    .split('|')
+    .map(option => option.trim())
+    .filter(option => option.length > 0)
+    .map(option => {
+      const [name, ...modelParts] = option.split(':');
+      const providerName = name.trim().toLowerCase() as LLMProviderName;
+      if (!PROVIDER_NAMES.includes(providerName)) {
+        throw new Error(`Unknown LLM provider "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+      }
+      const model = modelParts.join(':').trim();
+      return { name: providerName, model: model || undefined };
+    });
+}
+
+function parseFieldSpecs(value: string | undefined): Record<string, string> {
+  const specs: Record<string, string> = {};
+  if (!value) return specs;
+
+  for (const entry of value.split(',')) {
+    const [fieldId, spec] = entry.split('=');
+    if (fieldId?.trim() && spec?.trim()) {
+      specs[fieldId.trim()] = spec.trim();
+    }
+  }
+  return specs;
+}
+
+/**
+ * Returns the provider instance for a name, creating it on first use
+ * Throws if the provider's API key is not configured
+ */
+export function getProvider(name: LLMProviderName): LLMProvider {
+  const cached = providerCache[name];
+  if (cached) return cached;
+
+  const config = getConfig().llm;
+  let provider: LLMProvider;
+  switch (name) {
+    case 'openai': {
+      if (!config.openaiApiKey) throw new Error('OpenAI API key not configured');
+      provider = createOpenAIProvider(config.openaiApiKey, config.openaiModel);
+      break;
+    }
+    case 'anthropic': {
+      if (!config.anthropicApiKey) throw new Error('Anthropic API key not configured');
+      provider = createAnthropicProvider(config.anthropicApiKey, config.anthropicModel);
+      break;
+    }
+    case 'fake':
+      provider = createFakeProvider();
+      break;
+  }
+
+  providerCache[name] = provider;
+  return provider;
+}
+
+/**
+ * Picks the provider and model for a field (or the global default)
+ * Returns an error message instead of throwing so routes can report it
+ */
+export function resolveLLM(fieldId?: string): { llm: ResolvedLLM | null; error?: string } {
+  try {
+    const config = getConfig().llm;
+    const fieldSpecs = parseFieldSpecs(config.fieldProviders);
+    const spec = (fieldId && fieldSpecs[fieldId]) || config.provider;
+    const options = parseSpec(spec);
+
+    if (options.length === 0) {
+      return { llm: null, error: `No LLM provider configured for "${fieldId || 'default'}"` };
+    }
+
+    const chosen = options[Math.floor(Math.random() * options.length)];
+    const provider = getProvider(chosen.name);
+
+    return {
+      llm: {
+        provider,
+        model: chosen.model || provider.defaultModel
+      }
+    };
+  } catch (error) {
+    return {
+      llm: null,
+      error: error instanceof Error ? error.message : 'Failed to configure LLM provider'
+    };
+  }
+}
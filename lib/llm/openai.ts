@@ -0,0 +1,68 @@
+import OpenAI from 'openai';
+import { toStrictSchema } from './structured';
+import { CompletionRequest, CompletionResult, DeltaHandler, LLMProvider } from './types';
+
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o';
+
+/**
+ * OpenAI chat completions provider
+ */
+export function createOpenAIProvider(apiKey: string, defaultModel: string = OPENAI_DEFAULT_MODEL): LLMProvider {
+  const client = new OpenAI({ apiKey });
+
+  const buildParams = (request: CompletionRequest, model: string) => ({
+    model,
+    messages: [
+      ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+      {
+        role: 'user' as const,
+        content: request.images && request.images.length > 0
+          ? [
+              ...request.images.map(image => ({
+                type: 'image_url' as const,
+                image_url: { url: `data:${image.mediaType};base64,${image.data}` }
+              })),
+              { type: 'text' as const, text: request.prompt }
+            ]
+          : request.prompt
+      }
+    ],
+    max_tokens: request.maxTokens ?? 1000,
+    temperature: request.temperature ?? 0.7,
+    ...(request.json ? {
+      response_format: {
+        type: 'json_schema' as const,
+        json_schema: { name: request.json.name, schema: { ...toStrictSchema(request.json.schema) }, strict: true }
+      }
+    } : {})
+  });
+
+  return {
+    name: 'openai',
+    defaultModel,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const model = request.model || defaultModel;
+
+      const response = await client.chat.completions.create(buildParams(request, model), { signal: request.signal });
+
+      return {
+        text: response.choices[0]?.message?.content || '',
+        provider: 'openai',
+        model
+      };
+    },
+
+    async stream(request: CompletionRequest, onDelta: DeltaHandler): Promise<CompletionResult> {
+      const model = request.model || defaultModel;
+
+      const stream = client.chat.completions.stream(buildParams(request, model), { signal: request.signal });
+      stream.on('content', (delta) => onDelta(delta));
+
+      return {
+        text: (await stream.finalContent()) || '',
+        provider: 'openai',
+        model
+      };
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { FAQ_SCHEMA, PICTURES_SCHEMA } from '../structuredOutputs';
+import { completeStructured, parsePartialJson, toStrictSchema, validateJson } from './structured';
+import { createFakeProvider } from './fake';
+import { JsonSchema } from './types';
+
+function keywords(schema: JsonSchema): string[] {
+  return Object.keys(schema)
+    .concat(...Object.values(schema.properties || {}).map(keywords))
+    .concat(schema.items ? keywords(schema.items) : []);
+}
+
+describe('toStrictSchema', () => {
+  it('drops minLength at every level and leaves the source schema alone', () => {
+    for (const schema of [FAQ_SCHEMA, PICTURES_SCHEMA]) {
+      const strict = toStrictSchema(schema);
+      expect(keywords(strict)).not.toContain('minLength');
+      expect(keywords(strict)).toContain('minItems');
+      expect(keywords(schema)).toContain('minLength');
+    }
+  });
+});
+
+describe('validateJson', () => {
+  it('still enforces minLength locally', () => {
+    const value = { faqs: [1, 2, 3].map(() => ({ question: ' ', answer: 'Yes' })) };
+    expect(validateJson(FAQ_SCHEMA, value)).toEqual([
+      '$.faqs[0].question must be at least 1 characters',
+      '$.faqs[1].question must be at least 1 characters',
+      '$.faqs[2].question must be at least 1 characters'
+    ]);
+  });
+});
+
+describe('completeStructured', () => {
+  it('retries with the violations when the model returns empty strings', async () => {
+    const prompts: string[] = [];
+    const provider = createFakeProvider(request => {
+      prompts.push(request.prompt);
+      const question = prompts.length === 1 ? '' : 'What do you haul?';
+      return JSON.stringify({ faqs: [1, 2, 3].map(() => ({ question, answer: 'Almost anything.' })) });
+    });
+
+    const result = await completeStructured({ provider, model: 'fake-1' }, { prompt: 'FAQ' }, 'faq', FAQ_SCHEMA);
+    expect(result).toMatchObject({ ok: true, attempts: 2 });
+    expect(prompts[1]).toContain('$.faqs[0].question must be at least 1 characters');
+  });
+});
+
+describe('parsePartialJson', () => {
+  it('closes open strings, arrays and objects where the text ends', () => {
+    expect(parsePartialJson('{"faqs":[{"question":"What do you')).toEqual({ faqs: [{ question: 'What do you' }] });
+    expect(parsePartialJson('{"faqs":[{"question":"Q?","answer":"A."},{"quest')).toEqual({ faqs: [{ question: 'Q?', answer: 'A.' }, {}] });
+    expect(parsePartialJson('[1, 2, [true')).toEqual([1, 2, []]);
+  });
+
+  it('leaves out dangling keys, numbers and literals', () => {
+    expect(parsePartialJson('{"a":')).toEqual({});
+    expect(parsePartialJson('{"a":1')).toEqual({});
+    expect(parsePartialJson('{"a":1,')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a":tr')).toEqual({});
+    expect(parsePartialJson('')).toBeUndefined();
+  });
+
+  it('decodes escapes and drops one that is cut off', () => {
+    expect(parsePartialJson('"line\\nnext \\u00e9')).toBe('line\nnext \u00e9');
+    expect(parsePartialJson('"caf\\u00')).toBe('caf');
+    expect(parsePartialJson('"quote \\')).toBe('quote ');
+  });
+
+  it('matches JSON.parse on complete documents', () => {
+    const value = { faqs: [{ question: 'Say "hi"?', answer: 'Yes\tno' }], n: -1.5e3, ok: false, none: null };
+    expect(parsePartialJson(JSON.stringify(value, null, 2))).toEqual(value);
+  });
+});
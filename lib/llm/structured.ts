@@ -0,0 +1,278 @@
+/**
+ * Schema-constrained JSON output
+ * Requests JSON from a provider, validates it against a schema and retries
+ * with the validation errors when the model gets it wrong
+ */
+
+import { CompletionRequest, DeltaHandler, JsonSchema, ResolvedLLM } from './types';
+
+export interface StructuredResult<T> {
+  ok: true;
+  value: T;
+  attempts: number;
+}
+
+export interface StructuredError {
+  ok: false;
+  error: string;
+  attempts: number;
+}
+
+/**
+ * Validates a value against the schema subset
+ * Returns a list of human-readable violations (empty when valid)
+ */
+export function validateJson(schema: JsonSchema, value: unknown, path: string = '$'): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required || []) {
+        if (!(key in record)) errors.push(`${path}.${key} is required`);
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (key in record) errors.push(...validateJson(propertySchema, record[key], `${path}.${key}`));
+      }
+      if (schema.additionalProperties === false) {
+        for (const key of Object.keys(record)) {
+          if (!schema.properties || !(key in schema.properties)) errors.push(`${path}.${key} is not allowed`);
+        }
+      }
+      return errors;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items (got ${value.length})`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items (got ${value.length})`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => errors.push(...validateJson(schema.items!, item, `${path}[${index}]`)));
+      }
+      return errors;
+    }
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [`${path} must be at least ${schema.minLength} characters`];
+      }
+      return [];
+    case 'number':
+      return typeof value === 'number' ? [] : [`${path} must be a number`];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} must be an integer`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+  }
+}
+
+// Keywords OpenAI's strict mode rejects as an invalid schema; validateJson still enforces them
+const STRICT_UNSUPPORTED: Array<keyof JsonSchema> = ['minLength'];
+
+/**
+ * Copy of the schema without the keywords strict structured output doesn't support
+ */
+export function toStrictSchema(schema: JsonSchema): JsonSchema {
+  const strict: JsonSchema = { ...schema };
+  for (const keyword of STRICT_UNSUPPORTED) delete strict[keyword];
+
+  if (schema.properties) {
+    strict.properties = {};
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      strict.properties[key] = toStrictSchema(propertySchema);
+    }
+  }
+  if (schema.items) strict.items = toStrictSchema(schema.items);
+  return strict;
+}
+
+/**
+ * Builds a deterministic value that satisfies the schema
+ * Used by the fake provider
+ */
+export function sampleFromSchema(schema: JsonSchema, seed: string, path: string = 'value'): unknown {
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        result[key] = sampleFromSchema(propertySchema, seed, key);
+      }
+      return result;
+    }
+    case 'array': {
+      const count = Math.max(schema.minItems ?? 1, 1);
+      return Array.from({ length: count }, (_, index) =>
+        sampleFromSchema(schema.items || { type: 'string' }, seed, `${path} ${index + 1}`)
+      );
+    }
+    case 'string':
+      return `Fake ${path} ${seed}`;
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return true;
+  }
+}
+
+type PartialValue = { value?: unknown; complete: boolean };
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Best-effort value of a JSON document that is cut off part way, e.g. while it streams in
+ * Open strings, arrays and objects are closed where the text ends; a dangling key, number or
+ * literal is left out. Returns undefined until something usable has arrived.
+ */
+export function parsePartialJson(text: string): unknown {
+  let index = 0;
+
+  const skipSpace = () => {
+    while (index < text.length && /\s/.test(text[index])) index++;
+  };
+
+  const parseString = (): PartialValue => {
+    let value = '';
+    index++;
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '"') {
+        index++;
+        return { value, complete: true };
+      }
+      if (char !== '\\') {
+        value += char;
+        index++;
+        continue;
+      }
+      const escape = text[index + 1];
+      if (escape === undefined) break;
+      if (escape === 'u') {
+        if (index + 6 > text.length) break;
+        value += String.fromCharCode(parseInt(text.slice(index + 2, index + 6), 16));
+        index += 6;
+      } else {
+        value += ESCAPES[escape] ?? escape;
+        index += 2;
+      }
+    }
+    return { value, complete: false };
+  };
+
+  const parseContainer = (close: '}' | ']'): PartialValue => {
+    const isObject = close === '}';
+    const container: Record<string, unknown> | unknown[] = isObject ? {} : [];
+    index++;
+
+    while (true) {
+      skipSpace();
+      if (index >= text.length) return { value: container, complete: false };
+      if (text[index] === close) {
+        index++;
+        return { value: container, complete: true };
+      }
+      if (text[index] === ',') {
+        index++;
+        continue;
+      }
+
+      let key = '';
+      if (isObject) {
+        if (text[index] !== '"') return { value: container, complete: false };
+        const parsedKey = parseString();
+        skipSpace();
+        if (!parsedKey.complete || text[index] !== ':') return { value: container, complete: false };
+        key = parsedKey.value as string;
+        index++;
+      }
+
+      const item = parseValue();
+      if ('value' in item) {
+        if (isObject) (container as Record<string, unknown>)[key] = item.value;
+        else (container as unknown[]).push(item.value);
+      }
+      if (!item.complete) return { value: container, complete: false };
+    }
+  };
+
+  const parseValue = (): PartialValue => {
+    skipSpace();
+    if (index >= text.length) return { complete: false };
+
+    const char = text[index];
+    if (char === '"') return parseString();
+    if (char === '{') return parseContainer('}');
+    if (char === '[') return parseContainer(']');
+
+    // A number or literal only counts once something follows it
+    const literal = text.slice(index).match(/^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/);
+    if (!literal || index + literal[0].length >= text.length) return { complete: false };
+    index += literal[0].length;
+    return { value: JSON.parse(literal[0]), complete: true };
+  };
+
+  return parseValue().value;
+}
+
+// Models sometimes wrap JSON in markdown fences despite instructions
+function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return (fenced ? fenced[1] : text).trim();
+}
+
+/**
+ * Requests JSON matching the schema, retrying on parse or validation failures
+ * With onDelta the first attempt is streamed as raw JSON text; retries are not, since the
+ * caller has already shown the first attempt's text.
+ */
+export async function completeStructured<T>(
+  llm: ResolvedLLM,
+  request: CompletionRequest,
+  name: string,
+  schema: JsonSchema,
+  options: { maxAttempts?: number; onDelta?: DeltaHandler } = {}
+): Promise<StructuredResult<T> | StructuredError> {
+  const maxAttempts = options.maxAttempts ?? 3;
+  const instructions = `\n\nRespond ONLY with JSON (no markdown, no commentary) matching this JSON Schema:\n${JSON.stringify(schema)}`;
+  let feedback = '';
+  let lastError = 'No attempts made';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const attemptRequest: CompletionRequest = {
+      ...request,
+      model: request.model || llm.model,
+      prompt: `${request.prompt}${instructions}${feedback}`,
+      json: { name, schema }
+    };
+    const response = attempt === 1 && options.onDelta
+      ? await llm.provider.stream(attemptRequest, options.onDelta)
+      : await llm.provider.complete(attemptRequest);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(extractJson(response.text));
+    } catch {
+      lastError = 'Response was not valid JSON';
+      feedback = `\n\nYour previous response was not valid JSON. Return only the JSON object.`;
+      console.warn(`Structured output (${name}) attempt ${attempt}: ${lastError}`);
+      continue;
+    }
+
+    const violations = validateJson(schema, parsed);
+    if (violations.length === 0) {
+      return { ok: true, value: parsed as T, attempts: attempt };
+    }
+
+    lastError = `Schema violations: ${violations.slice(0, 5).join('; ')}`;
+    feedback = `\n\nYour previous response did not match the schema:\n${violations.slice(0, 10).map(v => `- ${v}`).join('\n')}\nFix these problems and return the complete JSON object.`;
+    console.warn(`Structured output (${name}) attempt ${attempt}: ${lastError}`);
+  }
+
+  return { ok: false, error: lastError, attempts: maxAttempts };
+}
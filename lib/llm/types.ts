@@ -0,0 +1,64 @@
+/**
+ * Shared types for the LLM provider layer
+ */
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'fake';
+
+/**
+ * Subset of JSON Schema used to constrain structured output
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+}
+
+// Base64 image sent alongside the prompt to vision-capable models
+export interface ImageInput {
+  mediaType: 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif';
+  data: string;
+}
+
+export interface CompletionRequest {
+  system?: string;
+  prompt: string;
+  images?: ImageInput[];
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  // Ask the provider for JSON matching this schema
+  json?: { name: string; schema: JsonSchema };
+  // Aborts the provider request, e.g. when a streaming client disconnects
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+}
+
+// Receives each chunk of text as it arrives from a streaming completion
+export type DeltaHandler = (delta: string) => void;
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  defaultModel: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Streams the completion through onDelta and resolves with the full text
+  stream(request: CompletionRequest, onDelta: DeltaHandler): Promise<CompletionResult>;
+}
+
+/**
+ * A provider plus the model chosen for a particular field
+ */
+export interface ResolvedLLM {
+  provider: LLMProvider;
+  model: string;
+}
@@ -0,0 +1,71 @@
+/**
+ * Page assembly helpers shared by the Text tab and the publish/export routes
+ * This module is imported by client components, so it must not use Node APIs.
+ */
+
+import { PICTURE_FIELD_IDS } from '../fields';
+import { clampAltText } from '../images/altLength';
+import type { PictureCombination } from '../structuredOutputs';
+import type { PageDocument, PagePicture } from './types';
+
+/**
+ * Splits a picture field back into the title and summary it was rendered from
+ */
+export function splitPictureText(value: string | undefined): PictureCombination {
+  const [title = '', ...summary] = (value || '').trim().split('\n');
+  return { title: title.trim(), summary: summary.join('\n').trim() };
+}
+
+/**
+ * Alt text seeded from a picture field: the summary's first sentence, or the title without one
+ */
+export function seedPictureAlt(picture: PictureCombination): string {
+  const sentence = picture.summary.match(/^[\s\S]*?[.!?](?=\s|$)/);
+  return clampAltText((sentence ? sentence[0] : picture.summary) || picture.title);
+}
+
+/**
+ * Checks a page sent by the client; pictures may only name picture fields, each once
+ */
+export function parsePageDocument(body: any): { page?: PageDocument; error?: string } {
+  if (!body || typeof body !== 'object' || !body.fields || typeof body.fields !== 'object') {
+    return { error: 'page.fields is required' };
+  }
+
+  const fields: Record<string, string> = {};
+  for (const key of Object.keys(body.fields)) {
+    if (typeof body.fields[key] === 'string') fields[key] = body.fields[key];
+  }
+
+  const pictures: PagePicture[] = [];
+  for (const picture of Array.isArray(body.pictures) ? body.pictures : []) {
+    const fieldId = picture?.fieldId;
+    if (typeof fieldId !== 'string' || PICTURE_FIELD_IDS.indexOf(fieldId) === -1) {
+      return { error: `"${fieldId}" is not a picture field` };
+    }
+    if (pictures.some(entry => entry.fieldId === fieldId)) {
+      return { error: `${fieldId} is listed more than once` };
+    }
+    if (picture.jobId !== undefined && (typeof picture.jobId !== 'string' || !/^[a-zA-Z0-9-]+$/.test(picture.jobId))) {
+      return { error: `${fieldId} has an invalid image job id` };
+    }
+    const sameImage = picture.jobId && pictures.find(entry => entry.jobId === picture.jobId);
+    if (sameImage) {
+      return { error: `${sameImage.fieldId} and ${fieldId} use the same image` };
+    }
+
+    pictures.push({
+      fieldId,
+      jobId: picture.jobId || undefined,
+      alt: typeof picture.alt === 'string' && picture.alt.trim() ? clampAltText(picture.alt) : undefined
+    });
+  }
+
+  return {
+    page: {
+      keyword: typeof body.keyword === 'string' && body.keyword.trim() ? body.keyword.trim() : undefined,
+      fields,
+      pictures
+    }
+  };
+}
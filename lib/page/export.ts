@@ -0,0 +1,67 @@
+/**
+ * ZIP export of an assembled page
+ * page.json holds the text fields and, per picture field, the caption, description, alt text
+ * and image filename; the images sit under images/ (and variants/ when asked for).
+ */
+
+import { getField } from '../fields';
+import { uniqueName } from '../images/export';
+import { loadImageJob, loadImageJobVariant } from '../images/jobs';
+import { createZip, ZipEntry } from '../zip';
+import { AssembledPage } from './types';
+
+/**
+ * Archives the page; pictures without an image are still listed in page.json
+ */
+export async function buildPageExport(page: AssembledPage, options: { variants?: boolean } = {}): Promise<Buffer> {
+  const files: ZipEntry[] = [];
+  const used: Record<string, true> = { 'page.json': true };
+
+  const pictures = [];
+  for (const picture of page.pictures) {
+    const { image } = picture;
+    let imageEntry: Record<string, unknown> | null = null;
+
+    if (image) {
+      const path = uniqueName(`images/${image.filename}`, used);
+      files.push({ name: path, data: image.data });
+
+      const variants: string[] = [];
+      const job = options.variants ? await loadImageJob(image.jobId) : null;
+      for (const variant of job?.result?.variants || []) {
+        const data = await loadImageJobVariant(image.jobId, variant.width, variant.format);
+        if (!data) continue;
+        const name = uniqueName(`variants/${variant.filename}`, used);
+        files.push({ name, data });
+        variants.push(name);
+      }
+
+      imageEntry = {
+        job_id: image.jobId,
+        path,
+        filename: image.filename,
+        alt: image.alt,
+        picture_html: image.pictureHtml,
+        variants
+      };
+    }
+
+    pictures.push({
+      field_id: picture.fieldId,
+      label: getField(picture.fieldId)?.label,
+      caption: picture.caption,
+      description: picture.description,
+      image: imageEntry
+    });
+  }
+
+  const document = {
+    keyword: page.keyword,
+    title: page.fields.title,
+    fields: page.fields,
+    pictures
+  };
+  files.unshift({ name: 'page.json', data: Buffer.from(JSON.stringify(document, null, 2), 'utf8') });
+
+  return createZip(files);
+}
@@ -0,0 +1,54 @@
+/**
+ * Assembled pages
+ *
+ * A page is the generated text plus the processed image assigned to each picture field.
+ * Each picture takes its caption from the field's title and its description from the summary.
+ * Images are referenced by image job id and read from IMAGE_JOBS_DIR here, so a page is
+ * published or exported without sending image data back and forth.
+ */
+
+import { getField, PICTURE_FIELD_IDS } from '../fields';
+import { loadImageJob, loadImageJobOutput } from '../images/jobs';
+import { buildPictureHtml } from '../images/variants';
+import { splitPictureText } from './assembly';
+import { AssembledPage, AssembledPicture, PageDocument } from './types';
+
+export * from './types';
+export { parsePageDocument, seedPictureAlt, splitPictureText } from './assembly';
+export { buildPageExport } from './export';
+
+/**
+ * Splits every picture field and loads the assigned images; each must be a finished job
+ */
+export async function assemblePage(page: PageDocument): Promise<{ page?: AssembledPage; error?: string }> {
+  const pictures: AssembledPicture[] = [];
+
+  for (const fieldId of PICTURE_FIELD_IDS) {
+    const { title, summary } = splitPictureText(page.fields[fieldId]);
+    const picture: AssembledPicture = { fieldId, caption: title, description: summary };
+    const assigned = page.pictures.find(entry => entry.fieldId === fieldId);
+
+    if (assigned?.jobId) {
+      const job = await loadImageJob(assigned.jobId);
+      const data = job?.status === 'done' && job.result ? await loadImageJobOutput(job.id) : null;
+      if (!job?.result || !data) {
+        return { error: `The image assigned to ${getField(fieldId)?.label || fieldId} is no longer available` };
+      }
+
+      const alt = assigned.alt || job.result.alt;
+      picture.image = {
+        jobId: job.id,
+        filename: job.result.filename,
+        alt,
+        data,
+        mimeType: 'image/webp',
+        // Rebuilt so the snippet carries the page's alt text rather than the job's
+        pictureHtml: job.result.variants?.length ? buildPictureHtml(job.result.variants, alt) : undefined
+      };
+    }
+
+    pictures.push(picture);
+  }
+
+  return { page: { keyword: page.keyword, fields: page.fields, pictures } };
+}
@@ -0,0 +1,43 @@
+/**
+ * Shared types for assembled pages
+ */
+
+// A picture field of the page and the processed image assigned to it
+export interface PagePicture {
+  // pic1-pic4
+  fieldId: string;
+  // Image job of the assigned image; the picture is text only without one
+  jobId?: string;
+  // Seeded from the field's summary when the image is assigned; the image's own alt text otherwise
+  alt?: string;
+}
+
+// Generated text plus image references: what is published or exported
+export interface PageDocument {
+  keyword?: string;
+  // Field values by id; picture fields hold "title\nsummary"
+  fields: Record<string, string>;
+  pictures: PagePicture[];
+}
+
+export interface AssembledPicture {
+  fieldId: string;
+  // The field's title, used as the image caption
+  caption: string;
+  // The field's summary, used as the image description
+  description: string;
+  image?: {
+    jobId: string;
+    filename: string;
+    alt: string;
+    data: Buffer;
+    mimeType: string;
+    pictureHtml?: string;
+  };
+}
+
+export interface AssembledPage {
+  keyword?: string;
+  fields: Record<string, string>;
+  pictures: AssembledPicture[];
+}
@@ -1,9 +1,9 @@
 import { google } from 'googleapis'
+import { getConfig } from './config'
 import { getValidAccessToken } from './tokenManager'
+import { mapSheetTitleToFieldId, PICTURE_FIELD_IDS } from './fields'
 
-const GOOGLE_SHEET_ID = process.env.GOOGLE_SHEET_ID
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET
+const { sheetId: GOOGLE_SHEET_ID, clientId: GOOGLE_CLIENT_ID, clientSecret: GOOGLE_CLIENT_SECRET } = getConfig().google
 
 export interface PromptData {
   fieldId: string
@@ -106,9 +106,8 @@ export async function getPromptsFromSheet(accessToken?: string, tokenDataJson?:
       
       // Special case: Row 13 (index 12) - C13 is the pic1 prompt that generates 4 titles + summaries for all picture fields
       if ((i + 1) === 13) {
-        // Create prompts for all 4 picture fields using the same C13 prompt
-        const pictureFields = ['pic1', 'pic2', 'pic3', 'pic4']
-        for (const picField of pictureFields) {
+        // Create prompts for all picture fields using the same C13 prompt
+        for (const picField of PICTURE_FIELD_IDS) {
           prompts.push({
             fieldId: picField,
             fieldTitle: picField,
@@ -126,7 +125,7 @@ export async function getPromptsFromSheet(accessToken?: string, tokenDataJson?:
       
       if (fieldMapping) {
         // Skip picture fields if they were already handled by C13
-        if (['pic1', 'pic2', 'pic3', 'pic4'].includes(fieldMapping)) {
+        if (PICTURE_FIELD_IDS.includes(fieldMapping)) {
           console.log(`Prompts API: Skipping ${fieldMapping} - already handled by C13`)
           continue
         }
@@ -171,66 +170,19 @@ function mapFieldTitleToId(
   fieldTitle: string, 
   isSubtitlesOnly: boolean
 ): string | null {
-  const title = fieldTitle.toLowerCase().trim()
+  const fieldId = mapSheetTitleToFieldId(fieldTitle)
   
-  // Map common field titles to single field IDs
-  const titleMappings: Record<string, string> = {
-    'title': 'title',
-    'wtitle': 'title', // "with subtopics" flow title
-    'introduction': 'intro',
-    'intro': 'intro',
-    'entro': 'intro', // Map "entro" from Google Sheet to "intro" field
-    'wentro': 'intro', // "with subtopics" flow intro
-    'picture 1': 'pic1',
-    'picture 2': 'pic2',
-    'picture 3': 'pic3',
-    'picture 4': 'pic4',
-    'pic1': 'pic1',
-    'pic2': 'pic2',
-    'pic3': 'pic3',
-    'pic4': 'pic4',
-    'wpic1': 'pic1', // "with subtopics" flow pic1
-    'wpic2': 'pic2', // "with subtopics" flow pic2
-    'wpic3': 'pic3', // "with subtopics" flow pic3
-    'wpic4': 'pic4', // "with subtopics" flow pic4
-    'cost': 'cost',
-    'cost information': 'cost',
-    'wcost': 'cost', // "with subtopics" flow cost
-    'why': 'why',
-    'why choose us': 'why',
-    'wwhy': 'why', // "with subtopics" flow why
-    'faq': 'faq',
-    'faqs': 'faq',
-    'wfaq': 'faq', // "with subtopics" flow faq
-    'subtopics': 'subtopics', // Only available for "with subtopics" flow
-    'sub': 'subtopics'
+  if (!fieldId) {
+    console.log(`Prompts API: Could not map field title "${fieldTitle}" to a field ID`)
+    return null
   }
   
-  // Check for direct matches
-  const fieldId = titleMappings[title]
-  if (fieldId) {
-    if (isSubtitlesOnly) {
-      // Row 17 special case - only return if it's the subtopics field
-      return fieldId === 'subtopics' ? 'subtopics' : null
-    } else {
-      // Return the field ID
-      return fieldId
-    }
-  }
-  
-  // If no mapping found, try partial matches
-  for (const [key, fieldId] of Object.entries(titleMappings)) {
-    if (title.includes(key) || key.includes(title)) {
-      if (isSubtitlesOnly) {
-        return fieldId === 'subtopics' ? 'subtopics' : null
-      } else {
-        return fieldId
-      }
-    }
+  // Row 17 special case - only return if it's the subtopics field
+  if (isSubtitlesOnly) {
+    return fieldId === 'subtopics' ? 'subtopics' : null
   }
   
-  console.log(`Prompts API: Could not map field title "${fieldTitle}" to a field ID`)
-  return null
+  return fieldId
 }
 
 // Function to get a specific prompt by field ID and flow
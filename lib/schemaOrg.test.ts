@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { buildFaqPageSchema, parseValidJsonLdScript, renderJsonLdScript } from './schemaOrg';
+
+describe('renderJsonLdScript', () => {
+  const faqs = [{ question: 'Is </script><script>alert(1)</script> safe?', answer: 'Use <b>tags</b> & "quotes".' }];
+
+  it('escapes "<" so FAQ text cannot close the script tag', () => {
+    const script = renderJsonLdScript(buildFaqPageSchema(faqs));
+
+    expect(script.match(/<\/script/gi)).toHaveLength(1);
+    expect(script.endsWith('</script>')).toBe(true);
+    expect(script).toContain('\\u003c/script>');
+  });
+
+  it('round-trips through parseValidJsonLdScript', () => {
+    const schema = buildFaqPageSchema(faqs);
+    expect(parseValidJsonLdScript(renderJsonLdScript(schema))).toEqual(schema);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * schema.org JSON-LD generation
+ * Builds FAQPage and Service/LocalBusiness markup from generated content and
+ * validates it against the required properties for each type
+ */
+
+import { getConfig } from './config';
+import { FaqItem } from './structuredOutputs';
+
+type JsonLdNode = Record<string, any>;
+
+export interface BusinessInfo {
+  name: string;
+  url?: string;
+  telephone?: string;
+  priceRange?: string;
+  address?: {
+    streetAddress?: string;
+    addressLocality?: string;
+    addressRegion?: string;
+    postalCode?: string;
+    addressCountry?: string;
+  };
+}
+
+export interface PageSchemaInput {
+  keyword: string;
+  faqs?: FaqItem[];
+  cost?: string;
+  description?: string;
+  serviceAreas?: string[];
+  business?: BusinessInfo | null;
+}
+
+export interface PageSchemaResult {
+  jsonLd: JsonLdNode;
+  errors: string[];
+  valid: boolean;
+}
+
+export interface SchemaFieldResult extends PageSchemaResult {
+  // Rendered <script> tag, ready to copy or publish
+  output: string;
+}
+
+const CONTEXT = 'https://schema.org';
+
+// Required properties per type, based on schema.org and Google's rich result requirements
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  FAQPage: ['mainEntity'],
+  Question: ['name', 'acceptedAnswer'],
+  Answer: ['text'],
+  Service: ['serviceType', 'provider'],
+  LocalBusiness: ['name', 'address'],
+  PostalAddress: ['addressLocality', 'addressRegion'],
+  City: ['name'],
+  AggregateOffer: ['lowPrice', 'priceCurrency'],
+};
+
+/**
+ * Reads business details used for LocalBusiness markup from the environment
+ * Returns null when BUSINESS_NAME is not set
+ */
+export function getBusinessInfo(): BusinessInfo | null {
+  const business = getConfig().business;
+  if (!business.name) return null;
+
+  return {
+    name: business.name,
+    url: business.url,
+    telephone: business.phone,
+    priceRange: business.priceRange,
+    address: {
+      streetAddress: business.street,
+      addressLocality: business.city,
+      addressRegion: business.region,
+      postalCode: business.postalCode,
+      addressCountry: business.country,
+    },
+  };
+}
+
+/**
+ * Service areas from SERVICE_AREAS (comma-separated city names)
+ */
+export function getDefaultServiceAreas(): string[] {
+  return getConfig().business.serviceAreas;
+}
+
+/**
+ * Parses FAQ text in the "question / answer" block format back into items
+ */
+export function parseFaqText(text: string): FaqItem[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(block => block.trim().split('\n'))
+    .filter(lines => lines.length >= 2)
+    .map(([question, ...answer]) => ({
+      question: question.trim(),
+      answer: answer.join(' ').trim(),
+    }))
+    .filter(item => item.question && item.answer);
+}
+
+/**
+ * Extracts a low/high USD price range from free-form cost text
+ */
+export function extractPriceRange(cost: string): { low: number; high: number } | null {
+  const pattern = /\$\s?(\d{1,3}(?:,\d{3})+(?:\.\d{2})?|\d+(?:\.\d{2})?)/g;
+  const amounts: number[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(cost)) !== null) {
+    const amount = parseFloat(match[1].replace(/,/g, ''));
+    if (!isNaN(amount) && amount > 0) amounts.push(amount);
+  }
+
+  if (amounts.length === 0) return null;
+
+  return { low: Math.min(...amounts), high: Math.max(...amounts) };
+}
+
+function stripEmpty(node: JsonLdNode): JsonLdNode {
+  const result: JsonLdNode = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    result[key] = value;
+  }
+  return result;
+}
+
+export function buildFaqPageSchema(faqs: FaqItem[]): JsonLdNode {
+  return {
+    '@type': 'FAQPage',
+    mainEntity: faqs.map(item => ({
+      '@type': 'Question',
+      name: item.question,
+      acceptedAnswer: {
+        '@type': 'Answer',
+        text: item.answer,
+      },
+    })),
+  };
+}
+
+export function buildLocalBusinessSchema(business: BusinessInfo): JsonLdNode {
+  return stripEmpty({
+    '@type': 'LocalBusiness',
+    name: business.name,
+    url: business.url,
+    telephone: business.telephone,
+    priceRange: business.priceRange,
+    address: business.address ? stripEmpty({ '@type': 'PostalAddress', ...business.address }) : undefined,
+  });
+}
+
+export function buildServiceSchema(input: PageSchemaInput): JsonLdNode {
+  const serviceAreas = input.serviceAreas || [];
+  const priceRange = input.cost ? extractPriceRange(input.cost) : null;
+
+  return stripEmpty({
+    '@type': 'Service',
+    serviceType: input.keyword,
+    name: input.keyword.replace(/\b\w/g, char => char.toUpperCase()),
+    description: input.description,
+    provider: input.business ? buildLocalBusinessSchema(input.business) : undefined,
+    areaServed: serviceAreas.map(name => ({ '@type': 'City', name })),
+    offers: priceRange ? {
+      '@type': 'AggregateOffer',
+      lowPrice: priceRange.low.toFixed(2),
+      highPrice: priceRange.high.toFixed(2),
+      priceCurrency: 'USD',
+    } : undefined,
+  });
+}
+
+/**
+ * Validates a JSON-LD node tree against the required properties for each known type
+ * Returns a list of problems (empty when valid)
+ */
+export function validateJsonLd(node: unknown, path: string = '$'): string[] {
+  if (Array.isArray(node)) {
+    return node.reduce<string[]>(
+      (errors, item, index) => errors.concat(validateJsonLd(item, `${path}[${index}]`)),
+      []
+    );
+  }
+  if (!node || typeof node !== 'object') return [];
+
+  const record = node as JsonLdNode;
+  const errors: string[] = [];
+  const type = record['@type'];
+
+  if (type && REQUIRED_PROPERTIES[type]) {
+    for (const property of REQUIRED_PROPERTIES[type]) {
+      const value = record[property];
+      if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+        errors.push(`${path} (${type}) is missing required property "${property}"`);
+      }
+    }
+  }
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key.startsWith('@')) continue;
+    if (value && typeof value === 'object') {
+      errors.push(...validateJsonLd(value, `${path}.${key}`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Builds the page's JSON-LD graph (FAQPage + Service) and validates it
+ */
+export function buildPageSchema(input: PageSchemaInput): PageSchemaResult {
+  const graph: JsonLdNode[] = [];
+  const errors: string[] = [];
+
+  if (input.faqs && input.faqs.length > 0) {
+    graph.push(buildFaqPageSchema(input.faqs));
+  } else {
+    errors.push('No FAQ items available for FAQPage markup');
+  }
+
+  if (!input.business) {
+    errors.push('Business details not configured (set BUSINESS_NAME and address variables) for LocalBusiness markup');
+  }
+  graph.push(buildServiceSchema(input));
+
+  const jsonLd = { '@context': CONTEXT, '@graph': graph };
+  errors.push(...validateJsonLd(jsonLd));
+
+  return { jsonLd, errors, valid: errors.length === 0 };
+}
+
+/**
+ * JSON for a script tag; "<" is escaped so text such as "</script>" can't close the tag early
+ */
+export function serializeJsonLd(jsonLd: JsonLdNode, space?: number): string {
+  return JSON.stringify(jsonLd, null, space).replace(/</g, '\\u003c');
+}
+
+/**
+ * Renders JSON-LD as a script tag ready to paste into a page
+ */
+export function renderJsonLdScript(jsonLd: JsonLdNode): string {
+  return `<script type="application/ld+json">\n${serializeJsonLd(jsonLd, 2)}\n</script>`;
+}
+
+/**
+ * Parses a rendered JSON-LD script (or bare JSON) and validates it
+ * Returns null if the markup can't be parsed or fails validation
+ */
+export function parseValidJsonLdScript(text: string): JsonLdNode | null {
+  const json = text.replace(/<script[^>]*>/i, '').replace(/<\/script>/i, '').trim();
+  try {
+    const parsed = JSON.parse(json);
+    return validateJsonLd(parsed).length === 0 ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the schema field for a generated page
+ * FAQ items come from the structured FAQ output when available, otherwise
+ * they are parsed from the FAQ text; cost and intro feed the Service node
+ */
+export function buildSchemaField(input: {
+  keyword: string;
+  fields: Record<string, string>;
+  faqs?: FaqItem[];
+  serviceAreas?: string[];
+}): SchemaFieldResult {
+  const faqs = input.faqs && input.faqs.length > 0
+    ? input.faqs
+    : parseFaqText(input.fields.faq || '');
+  const serviceAreas = input.serviceAreas && input.serviceAreas.length > 0
+    ? input.serviceAreas
+    : getDefaultServiceAreas();
+
+  const result = buildPageSchema({
+    keyword: input.keyword,
+    faqs,
+    cost: input.fields.cost,
+    description: input.fields.intro?.split(/\n\s*\n/)[0]?.trim(),
+    serviceAreas,
+    business: getBusinessInfo(),
+  });
+
+  return { ...result, output: renderJsonLdScript(result.jsonLd) };
+}
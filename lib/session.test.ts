@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { OAUTH_STATE_COOKIE, createOAuthState, setOAuthStateCookie, verifyOAuthState } from './session';
+
+function callback(cookie?: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/auth/callback', {
+    headers: cookie ? { cookie: `${OAUTH_STATE_COOKIE}=${cookie}` } : {}
+  });
+}
+
+describe('OAuth state', () => {
+  it('keeps the state in a short-lived httpOnly cookie scoped to the auth routes', () => {
+    const response = NextResponse.json({});
+    const state = createOAuthState();
+    setOAuthStateCookie(response, state);
+
+    const cookie = response.headers.get('set-cookie') || '';
+    expect(cookie).toContain(`${OAUTH_STATE_COOKIE}=${state}`);
+    expect(cookie).toContain('Path=/api/auth');
+    expect(cookie).toContain('Max-Age=600');
+    expect(cookie).toContain('HttpOnly');
+    expect(createOAuthState()).not.toBe(state);
+  });
+
+  it('accepts only the state this browser was given', () => {
+    const state = createOAuthState();
+    expect(verifyOAuthState(callback(state), state)).toBe(true);
+    expect(verifyOAuthState(callback(state), createOAuthState())).toBe(false);
+    expect(verifyOAuthState(callback(state), 'debug')).toBe(false);
+    expect(verifyOAuthState(callback(state), null)).toBe(false);
+    expect(verifyOAuthState(callback(), state)).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Encrypted cookie sessions
+ * The browser only holds an AES-256-GCM sealed session id in an httpOnly cookie;
+ * Google tokens stay on the server in the session store.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from './config';
+
+export const SESSION_COOKIE = 'wa_session';
+
+export const OAUTH_STATE_COOKIE = 'wa_oauth_state';
+
+// The OAuth state only has to outlive the Google consent screen
+const OAUTH_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+// Sessions last 30 days; the Google refresh token keeps access tokens fresh in between
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+export interface SessionCookie {
+  sid: string;
+  expiresAt: number;
+}
+
+let fallbackKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  const secret = getConfig().session.secret;
+  if (secret) {
+    return createHash('sha256').update(secret).digest();
+  }
+
+  // Without a configured secret, sessions only survive until the server restarts
+  if (!fallbackKey) {
+    console.warn('SESSION_SECRET not set - using a temporary key; sessions will not survive a restart');
+    fallbackKey = randomBytes(32);
+  }
+  return fallbackKey;
+}
+
+/**
+ * Encrypts and authenticates a value for storage in a cookie or on disk
+ */
+export function seal(value: unknown): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+/**
+ * Reverses seal(); returns null if the value was tampered with or sealed with another key
+ */
+export function unseal<T>(sealed: string): T | null {
+  try {
+    const data = Buffer.from(sealed, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const plaintext = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export function createSessionId(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Reads the session id from the request cookie, ignoring expired or forged cookies
+ */
+export function getSessionId(req: NextRequest): string | null {
+  const value = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!value) return null;
+
+  const session = unseal<SessionCookie>(value);
+  if (!session || session.expiresAt < Date.now()) return null;
+
+  return session.sid;
+}
+
+export function setSessionCookie(response: NextResponse, sid: string): void {
+  const session: SessionCookie = { sid, expiresAt: Date.now() + SESSION_MAX_AGE_SECONDS * 1000 };
+  response.cookies.set(SESSION_COOKIE, seal(session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  });
+}
+
+export function createOAuthState(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Keeps the OAuth state in a short-lived cookie, so the callback only accepts logins this
+ * browser started
+ */
+export function setOAuthStateCookie(response: NextResponse, state: string): void {
+  response.cookies.set(OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth',
+    maxAge: OAUTH_STATE_MAX_AGE_SECONDS
+  });
+}
+
+/**
+ * Checks the state Google sent back against the cookie set when the login started
+ */
+export function verifyOAuthState(req: NextRequest, state: string | null): boolean {
+  const expected = req.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  if (!expected || !state) return false;
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(state);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function clearOAuthStateCookie(response: NextResponse): void {
+  response.cookies.set(OAUTH_STATE_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth',
+    maxAge: 0
+  });
+}
@@ -0,0 +1,69 @@
+/**
+ * Server-side storage for Google tokens, keyed by session id
+ * Records are sealed before they are written, so the file never holds plain tokens.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { seal, unseal } from './session';
+import { TokenData } from './tokenManager';
+import { getConfig } from './config';
+
+export interface SessionRecord extends TokenData {
+  createdAt: number;
+  // How the tokens were obtained, e.g. "oauth" or "pre-authenticated"
+  method: string;
+}
+
+let cache: Record<string, string> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+function sessionFile(): string {
+  return path.resolve(process.cwd(), getConfig().session.file);
+}
+
+async function loadAll(): Promise<Record<string, string>> {
+  if (cache) return cache;
+
+  try {
+    cache = JSON.parse(await fs.readFile(sessionFile(), 'utf8'));
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error('Session store: Failed to read sessions, starting empty:', error);
+    }
+    cache = {};
+  }
+  return cache!;
+}
+
+function persist(): Promise<void> {
+  const snapshot = JSON.stringify(cache || {});
+  writeQueue = writeQueue
+    .then(async () => {
+      const file = sessionFile();
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(temp, snapshot, { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(temp, file);
+    })
+    .catch(error => console.error('Session store: Failed to save sessions:', error));
+  return writeQueue;
+}
+
+export async function getSessionRecord(sid: string): Promise<SessionRecord | null> {
+  const sealed = (await loadAll())[sid];
+  return sealed ? unseal<SessionRecord>(sealed) : null;
+}
+
+export async function saveSessionRecord(sid: string, record: SessionRecord): Promise<void> {
+  const sessions = await loadAll();
+  sessions[sid] = seal(record);
+  await persist();
+}
+
+export async function deleteSessionRecord(sid: string): Promise<void> {
+  const sessions = await loadAll();
+  if (!(sid in sessions)) return;
+  delete sessions[sid];
+  await persist();
+}
@@ -0,0 +1,57 @@
+/**
+ * Minimal Server-Sent Events helpers
+ * encodeEvent is used by streaming routes; readEventStream by the browser
+ */
+
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Encodes one SSE event with a JSON payload
+ */
+export function encodeEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Reads an SSE response body and calls onEvent for each complete event
+ */
+export async function readEventStream(response: Response, onEvent: (event: StreamEvent) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+      }
+
+      if (dataLines.length > 0) {
+        onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
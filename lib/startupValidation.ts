@@ -1,105 +1,60 @@
 /**
  * Startup validation for API keys and environment variables
- * This runs when the application starts to ensure all required keys are present
+ * Called from instrumentation.ts when the server boots, and by the debug route
  */
 
-import { getApiKeys, ENV_VARS } from './apiKeys';
+import { EnvVarName, EnvVarStatus, getEnvStatus, validateConfig } from './config';
+import { getHealthReport } from './health';
 
 /**
  * Validates all API keys on application startup
  * Logs warnings for missing optional keys and errors for missing required keys
+ * The rules come from the config schema, so this stays in step with what the code reads
  */
 export function validateStartupKeys(): { isValid: boolean; errors: string[]; warnings: string[] } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  try {
-    // This will throw if any required keys are missing
-    const keys = getApiKeys();
-    
-    // Check for optional keys and log warnings
-    if (!process.env[ENV_VARS.APP_PASSWORD]) {
-      warnings.push('APP_PASSWORD not set - authentication disabled');
-    }
-    
-    if (!process.env[ENV_VARS.ORIGIN_ALLOWLIST]) {
-      warnings.push('ORIGIN_ALLOWLIST not set - CORS restrictions disabled');
-    }
-    
-    if (!process.env[ENV_VARS.ANTHROPIC_MODEL]) {
-      warnings.push('ANTHROPIC_MODEL not set - using default model');
-    }
-    
-    if (!process.env[ENV_VARS.FREEPIK_IMAGE_MODEL]) {
-      warnings.push('FREEPIK_IMAGE_MODEL not set - using default model');
-    }
-    
-    if (!process.env[ENV_VARS.FREEPIK_ASPECT_RATIO]) {
-      warnings.push('FREEPIK_ASPECT_RATIO not set - using default aspect ratio');
-    }
+  const { isValid, errors, warnings } = validateConfig();
 
+  if (isValid) {
     console.log('✅ All required API keys are configured');
-    
-    if (warnings.length > 0) {
-      console.log('⚠️  Optional configuration warnings:');
-      warnings.forEach(warning => console.log(`   - ${warning}`));
-    }
+  } else {
+    console.error('❌ API key validation failed:');
+    errors.forEach(error => console.error(`   ${error}`));
+  }
+
+  if (warnings.length > 0) {
+    console.log('⚠️  Optional configuration warnings:');
+    warnings.forEach(warning => console.log(`   - ${warning}`));
+  }
+
+  return { isValid, errors, warnings };
+}
 
-    return { isValid: true, errors, warnings };
-    
+/**
+ * Boot-time check: validates the configuration, then probes each configured service
+ * and logs which features are ready. Never throws, so a failed probe can't stop the server.
+ */
+export async function runStartupChecks(): Promise<void> {
+  validateStartupKeys();
+
+  try {
+    const report = await getHealthReport();
+    console.log(`Feature readiness (${report.status}):`);
+    Object.keys(report.features).forEach(name => {
+      const feature = report.features[name as keyof typeof report.features];
+      const failed = feature.probes.filter(probe => !probe.ok).map(probe => `${probe.name}: ${probe.error}`);
+      const detail = feature.status === 'unconfigured'
+        ? ` - missing ${feature.missing.join(', ')}`
+        : failed.length > 0 ? ` - ${failed.join('; ')}` : '';
+      console.log(`   ${feature.status === 'ready' ? '✅' : '⚠️ '} ${feature.label}: ${feature.status}${detail}`);
+    });
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error during key validation';
-    errors.push(errorMessage);
-    
-    console.error('❌ API key validation failed:');
-    console.error(`   ${errorMessage}`);
-    
-    return { isValid: false, errors, warnings };
+    console.error('Startup health check failed:', error);
   }
 }
 
 /**
  * Gets a summary of all configured API keys (without exposing the actual keys)
  */
-export function getKeyStatus(): Record<string, { configured: boolean; type: 'required' | 'optional' }> {
-  return {
-    [ENV_VARS.ANTHROPIC_API_KEY]: {
-      configured: !!process.env[ENV_VARS.ANTHROPIC_API_KEY],
-      type: 'required'
-    },
-    [ENV_VARS.FREEPIK_API_KEY]: {
-      configured: !!process.env[ENV_VARS.FREEPIK_API_KEY],
-      type: 'required'
-    },
-    [ENV_VARS.FREEPIK_WEBHOOK_SECRET]: {
-      configured: !!process.env[ENV_VARS.FREEPIK_WEBHOOK_SECRET],
-      type: 'required'
-    },
-    [ENV_VARS.GOOGLE_DOC_URL]: {
-      configured: !!process.env[ENV_VARS.GOOGLE_DOC_URL],
-      type: 'required'
-    },
-    [ENV_VARS.APP_PASSWORD]: {
-      configured: !!process.env[ENV_VARS.APP_PASSWORD],
-      type: 'optional'
-    },
-    [ENV_VARS.ORIGIN_ALLOWLIST]: {
-      configured: !!process.env[ENV_VARS.ORIGIN_ALLOWLIST],
-      type: 'optional'
-    },
-    [ENV_VARS.ANTHROPIC_MODEL]: {
-      configured: !!process.env[ENV_VARS.ANTHROPIC_MODEL],
-      type: 'optional'
-    },
-    [ENV_VARS.FREEPIK_IMAGE_MODEL]: {
-      configured: !!process.env[ENV_VARS.FREEPIK_IMAGE_MODEL],
-      type: 'optional'
-    },
-    [ENV_VARS.FREEPIK_ASPECT_RATIO]: {
-      configured: !!process.env[ENV_VARS.FREEPIK_ASPECT_RATIO],
-      type: 'optional'
-    },
-  };
+export function getKeyStatus(): Record<EnvVarName, EnvVarStatus> {
+  return getEnvStatus();
 }
-
-
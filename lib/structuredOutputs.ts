@@ -0,0 +1,69 @@
+/**
+ * Schemas and text renderers for fields generated as structured JSON
+ * Client-safe: the UI uses the types and renderers too
+ */
+
+import type { JsonSchema } from './llm/types';
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+export interface PictureCombination {
+  title: string;
+  summary: string;
+}
+
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+
+export const FAQ_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    faqs: {
+      type: 'array',
+      minItems: 3,
+      items: {
+        type: 'object',
+        properties: { question: nonEmptyString, answer: nonEmptyString },
+        required: ['question', 'answer'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['faqs'],
+  additionalProperties: false
+};
+
+export const PICTURES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    combinations: {
+      type: 'array',
+      // The prompt asks for 13; at least 4 are needed to fill the picture boxes
+      minItems: 4,
+      items: {
+        type: 'object',
+        properties: { title: nonEmptyString, summary: nonEmptyString },
+        required: ['title', 'summary'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['combinations'],
+  additionalProperties: false
+};
+
+/**
+ * Renders FAQ items as "question / answer" blocks for copy and paste
+ */
+export function renderFaqText(items: FaqItem[]): string {
+  return items.map(item => `${item.question}\n${item.answer}`).join('\n\n');
+}
+
+/**
+ * Renders a picture combination as the "title / summary" text shown in a picture box
+ */
+export function renderPictureText(combination: PictureCombination): string {
+  return `${combination.title}\n${combination.summary}`;
+}
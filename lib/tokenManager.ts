@@ -1,7 +1,7 @@
 import { google } from 'googleapis';
+import { getConfig } from './config';
 
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID?.trim();
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET?.trim();
+const { clientId: GOOGLE_CLIENT_ID, clientSecret: GOOGLE_CLIENT_SECRET } = getConfig().google;
 
 export interface TokenData {
   accessToken: string;
@@ -12,6 +12,7 @@ export interface TokenData {
 
 export interface RefreshResult {
   accessToken: string;
+  expiryDate?: number;
   success: boolean;
   error?: string;
 }
@@ -71,6 +72,7 @@ export async function refreshAccessToken(refreshToken: string): Promise<RefreshR
     
     return {
       accessToken: newAccessToken,
+      expiryDate: credentials.expiry_date || undefined,
       success: true
     };
 
@@ -88,8 +90,13 @@ export async function refreshAccessToken(refreshToken: string): Promise<RefreshR
 /**
  * Get a valid access token, refreshing if necessary
  * This function should be used by all Google API calls
+ * onRefresh receives the new token data so callers can persist it
  */
-export async function getValidAccessToken(accessToken: string, tokenDataJson?: string): Promise<string> {
+export async function getValidAccessToken(
+  accessToken: string,
+  tokenDataJson?: string,
+  onRefresh?: (tokenData: TokenData) => void | Promise<void>
+): Promise<string> {
   // If we don't have token data for expiry checking, just return the provided token
   if (!tokenDataJson) {
     console.log('No token data available for expiry check, using provided token');
@@ -117,6 +124,14 @@ export async function getValidAccessToken(accessToken: string, tokenDataJson?: s
     
     if (refreshResult.success) {
       console.log('Token refreshed successfully');
+      if (onRefresh) {
+        await onRefresh({
+          accessToken: refreshResult.accessToken,
+          refreshToken: tokenData.refreshToken,
+          expiryDate: refreshResult.expiryDate,
+          timestamp: Date.now()
+        });
+      }
       return refreshResult.accessToken;
     } else {
       console.log('Token refresh failed:', refreshResult.error);
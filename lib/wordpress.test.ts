@@ -0,0 +1,81 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createWordPressStub } from '../scripts/wordpress-stub';
+import { publishDraft, WordPressConfig } from './wordpress';
+
+let stub: Server;
+let config: WordPressConfig;
+
+async function wpGet(path: string) {
+  const credentials = Buffer.from(`${config.username}:${config.appPassword.replace(/\s+/g, '')}`).toString('base64');
+  const response = await fetch(`${config.baseUrl}/wp-json/wp/v2${path}`, { headers: { Authorization: `Basic ${credentials}` } });
+  return response.json();
+}
+
+beforeAll(async () => {
+  stub = createWordPressStub({ username: 'editor', appPassword: 'abcd efgh ijkl', quiet: true });
+  await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+  config = {
+    baseUrl: `http://127.0.0.1:${(stub.address() as AddressInfo).port}`,
+    username: 'editor',
+    appPassword: 'abcd efgh ijkl',
+    postType: 'pages'
+  };
+});
+
+afterAll(async () => {
+  await new Promise(resolve => stub.close(resolve));
+});
+
+describe('publishDraft', () => {
+  it('uploads the images with their text and creates a draft that shows them', async () => {
+    const result = await publishDraft(config, {
+      fields: {
+        title: 'Junk Removal in Boise',
+        intro: 'We haul it all.',
+        pic1: 'Loaded Truck\nOur crew clears a garage in one trip.',
+        cost: 'Pricing depends on volume.'
+      },
+      images: [{
+        data: Buffer.from('webp bytes'),
+        filename: 'junk-removal-boise-1.webp',
+        altText: 'Crew loading a truck',
+        fieldId: 'pic1',
+        caption: 'Loaded truck',
+        description: 'A full load from a garage cleanout'
+      }]
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.media).toHaveLength(1);
+
+    const [media] = result.media;
+    const uploaded = await wpGet(`/media/${media.id}`);
+    expect(uploaded.alt_text).toBe('Crew loading a truck');
+    expect(uploaded.caption.raw).toBe('Loaded truck');
+    expect(uploaded.description.raw).toBe('A full load from a garage cleanout');
+    expect(await (await fetch(media.sourceUrl)).text()).toBe('webp bytes');
+
+    const page = await wpGet(`/pages/${result.draft!.id}`);
+    expect(page.status).toBe('draft');
+    expect(page.title.raw).toBe('Junk Removal in Boise');
+    expect(page.featured_media).toBe(media.id);
+    expect(page.content.raw).toContain(`<img src="${media.sourceUrl}" alt="Crew loading a truck" class="wp-image-${media.id}"/>`);
+    expect(page.content.raw).toContain('<h3>Loaded Truck</h3>');
+    expect(page.content.raw).toContain('<h2>Cost Information</h2>');
+    expect(result.draft!.editUrl).toBe(`${config.baseUrl}/wp-admin/post.php?post=${page.id}&action=edit`);
+  });
+
+  it('reports WordPress errors, such as a wrong application password', async () => {
+    const result = await publishDraft({ ...config, appPassword: 'wrong' }, { fields: { title: 'Junk Removal' } });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('WordPress API 401 on /pages: You are not currently logged in.');
+  });
+
+  it('needs a title', async () => {
+    const result = await publishDraft(config, { fields: { intro: 'No title' } });
+    expect(result).toEqual({ success: false, media: [], error: 'A title is required to create a draft' });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * WordPress REST API client
+ * Creates page/post drafts and uploads media using application passwords
+ */
+
+import { getConfig } from './config';
+import { FIELDS } from './fields';
+import { parseValidJsonLdScript, serializeJsonLd } from './schemaOrg';
+
+export interface WordPressConfig {
+  baseUrl: string;
+  username: string;
+  appPassword: string;
+  postType: 'pages' | 'posts';
+}
+
+export interface WordPressMedia {
+  id: number;
+  sourceUrl: string;
+  altText: string;
+  filename: string;
+  // Picture field the image illustrates, and the caption shown under it
+  fieldId?: string;
+  caption?: string;
+}
+
+export interface WordPressDraft {
+  id: number;
+  link: string;
+  editUrl: string;
+}
+
+export interface DraftImage {
+  data: Buffer;
+  filename: string;
+  altText: string;
+  mimeType?: string;
+  fieldId?: string;
+  caption?: string;
+  // Saved as the media item's description
+  description?: string;
+}
+
+export interface PublishDraftInput {
+  fields: Record<string, string>;
+  images?: DraftImage[];
+}
+
+export interface PublishResult {
+  success: boolean;
+  draft?: WordPressDraft;
+  media: WordPressMedia[];
+  error?: string;
+}
+
+/**
+ * Reads WordPress settings from the environment
+ * Returns null if the site URL or credentials are missing
+ */
+export function getWordPressConfig(): WordPressConfig | null {
+  const { url: baseUrl, username, appPassword, postType } = getConfig().wordpress;
+
+  if (!baseUrl || !username || !appPassword) {
+    return null;
+  }
+
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    username,
+    appPassword,
+    postType,
+  };
+}
+
+function authHeader(config: WordPressConfig): string {
+  // Application passwords are displayed with spaces, which WordPress ignores
+  const credentials = `${config.username}:${config.appPassword.replace(/\s+/g, '')}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+async function wpRequest<T>(config: WordPressConfig, path: string, init: RequestInit): Promise<T> {
+  const response = await fetch(`${config.baseUrl}/wp-json/wp/v2${path}`, {
+    ...init,
+    headers: {
+      Authorization: authHeader(config),
+      ...(init.headers || {}),
+    },
+  });
+
+  const text = await response.text();
+  let body: any = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = null;
+  }
+
+  if (!response.ok) {
+    const message = body?.message || text || response.statusText;
+    throw new Error(`WordPress API ${response.status} on ${path}: ${message}`);
+  }
+
+  return body as T;
+}
+
+/**
+ * Uploads an image to the media library and sets its alt text
+ */
+export async function uploadMedia(config: WordPressConfig, image: DraftImage): Promise<WordPressMedia> {
+  const mimeType = image.mimeType || 'image/webp';
+
+  const created = await wpRequest<any>(config, '/media', {
+    method: 'POST',
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Disposition': `attachment; filename="${image.filename.replace(/"/g, '')}"`,
+    },
+    body: new Uint8Array(image.data),
+  });
+
+  // Alt text can't be sent with the binary upload, so it is set in a follow-up request
+  const updated = await wpRequest<any>(config, `/media/${created.id}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      alt_text: image.altText,
+      ...(image.caption ? { caption: image.caption } : {}),
+      ...(image.description ? { description: image.description } : {}),
+    }),
+  });
+
+  return {
+    id: updated.id,
+    sourceUrl: updated.source_url || created.source_url || '',
+    altText: updated.alt_text ?? image.altText,
+    filename: image.filename,
+    fieldId: image.fieldId,
+    caption: image.caption,
+  };
+}
+
+/**
+ * Creates a draft page or post and returns its edit URL
+ */
+export async function createDraft(
+  config: WordPressConfig,
+  draft: { title: string; content: string; featuredMedia?: number }
+): Promise<WordPressDraft> {
+  const created = await wpRequest<any>(config, `/${config.postType}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      title: draft.title,
+      content: draft.content,
+      status: 'draft',
+      ...(draft.featuredMedia ? { featured_media: draft.featuredMedia } : {}),
+    }),
+  });
+
+  return {
+    id: created.id,
+    link: created.link || '',
+    editUrl: `${config.baseUrl}/wp-admin/post.php?post=${created.id}&action=edit`,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function paragraphBlocks(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => `<!-- wp:paragraph -->\n<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>\n<!-- /wp:paragraph -->`);
+}
+
+function headingBlock(text: string, level: number = 2): string {
+  return `<!-- wp:heading {"level":${level}} -->\n<h${level}>${escapeHtml(text)}</h${level}>\n<!-- /wp:heading -->`;
+}
+
+function imageBlock(media: WordPressMedia): string {
+  const caption = media.caption ? `<figcaption class="wp-element-caption">${escapeHtml(media.caption)}</figcaption>` : '';
+  return `<!-- wp:image {"id":${media.id},"sizeSlug":"large"} -->\n` +
+    `<figure class="wp-block-image size-large"><img src="${escapeHtml(media.sourceUrl)}" alt="${escapeHtml(media.altText)}" class="wp-image-${media.id}"/>${caption}</figure>\n` +
+    `<!-- /wp:image -->`;
+}
+
+// Raw HTML block so the JSON-LD script survives the block editor untouched
+function jsonLdBlock(jsonLd: Record<string, any>): string {
+  return `<!-- wp:html -->\n<script type="application/ld+json">${serializeJsonLd(jsonLd)}</script>\n<!-- /wp:html -->`;
+}
+
+/**
+ * Assembles generated fields and uploaded media into Gutenberg block markup
+ * Sections follow the field registry order; picture fields are rendered as
+ * "title + summary" with the image assigned to the field above them
+ */
+export function buildPageContent(fields: Record<string, string>, media: WordPressMedia[] = []): string {
+  const blocks: string[] = [];
+
+  for (const field of FIELDS) {
+    // The title becomes the page title rather than part of the content
+    if (field.id === 'title') continue;
+
+    const value = fields[field.id]?.trim();
+
+    if (field.outputType === 'picture') {
+      const image = media.find(item => item.fieldId === field.id);
+      if (image) {
+        blocks.push(imageBlock(image));
+      }
+      if (value) {
+        const [pictureTitle, ...summary] = value.split('\n');
+        blocks.push(headingBlock(pictureTitle.trim(), 3));
+        blocks.push(...paragraphBlocks(summary.join('\n')));
+      }
+      continue;
+    }
+
+    if (!value) continue;
+
+    // Schema markup is re-validated here and left out if it was edited into an invalid shape
+    if (field.outputType === 'jsonld') {
+      const jsonLd = parseValidJsonLdScript(value);
+      if (jsonLd) {
+        blocks.push(jsonLdBlock(jsonLd));
+      } else {
+        console.warn(`WordPress: Skipping invalid ${field.label}`);
+      }
+      continue;
+    }
+
+    if (field.publishHeading) {
+      blocks.push(headingBlock(field.publishHeading));
+    }
+    blocks.push(...paragraphBlocks(value));
+  }
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Uploads all images and creates a draft from the generated fields
+ */
+export async function publishDraft(config: WordPressConfig, input: PublishDraftInput): Promise<PublishResult> {
+  const media: WordPressMedia[] = [];
+
+  try {
+    const title = input.fields.title?.trim();
+    if (!title) {
+      return { success: false, media, error: 'A title is required to create a draft' };
+    }
+
+    for (const image of input.images || []) {
+      console.log(`WordPress: Uploading ${image.filename}`);
+      media.push(await uploadMedia(config, image));
+    }
+
+    const content = buildPageContent(input.fields, media);
+    const draft = await createDraft(config, {
+      title,
+      content,
+      featuredMedia: media[0]?.id,
+    });
+
+    console.log(`WordPress: Created draft ${draft.id}`);
+
+    return { success: true, draft, media };
+  } catch (error) {
+    console.error('WordPress publish error:', error);
+    return {
+      success: false,
+      media,
+      error: error instanceof Error ? error.message : 'Unknown WordPress error',
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AccessError,
+  APP_AUTH_COOKIE,
+  isOriginAllowed,
+  isOriginListed,
+  isPasswordProtected,
+  verifyAppSessionToken
+} from '@/lib/appAuth';
+import { getRequiredPermission, hasPermission, isAccountsEnabled } from '@/lib/auth/roles';
+import { getCurrentUser } from '@/lib/auth/user';
+
+// Reachable without logging in; the login APIs still check the origin and webhooks check their signature
+const PUBLIC_PATHS = ['/login', '/api/auth/login', '/api/auth/me', '/api/health', '/api/webhooks/freepik'];
+
+// NextAuth's own endpoints, used while signing in with Google
+const NEXTAUTH_PREFIXES = [
+  '/api/auth/signin',
+  '/api/auth/signout',
+  '/api/auth/callback/',
+  '/api/auth/csrf',
+  '/api/auth/providers',
+  '/api/auth/session',
+  '/api/auth/error',
+  '/api/auth/_log'
+];
+
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.indexOf(pathname) !== -1
+    || NEXTAUTH_PREFIXES.some(prefix => pathname.startsWith(prefix));
+}
+
+function redirectToLogin(req: NextRequest): NextResponse {
+  const loginUrl = new URL('/login', req.url);
+  loginUrl.searchParams.set('next', req.nextUrl.pathname + req.nextUrl.search);
+  return NextResponse.redirect(loginUrl);
+}
+
+function accessDenied(body: AccessError, status: number): NextResponse {
+  return NextResponse.json(body, { status });
+}
+
+function withCorsHeaders(response: NextResponse, origin: string): NextResponse {
+  response.headers.set('Access-Control-Allow-Origin', origin);
+  response.headers.set('Access-Control-Allow-Credentials', 'true');
+  response.headers.set('Vary', 'Origin');
+  return response;
+}
+
+/**
+ * Gates the UI and API behind team accounts (or APP_PASSWORD when accounts are off),
+ * checks each API call against the user's role and enforces ORIGIN_ALLOWLIST
+ * Each check is skipped when its environment variables aren't set.
+ */
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+  const origin = req.headers.get('origin');
+  // Credentialed CORS responses only go to origins named in ORIGIN_ALLOWLIST
+  const sharesResponse = isApi && !!origin && origin !== req.nextUrl.origin && isOriginListed(origin);
+
+  if (isApi && origin && !isOriginAllowed(origin, req.headers.get('host') || req.nextUrl.host)) {
+    return accessDenied({ error: `Origin ${origin} is not allowed`, code: 'forbidden_origin' }, 403);
+  }
+
+  // Preflights carry no cookies, so they are answered before the login check
+  if (sharesResponse && req.method === 'OPTIONS') {
+    const preflight = new NextResponse(null, { status: 204 });
+    preflight.headers.set('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
+    preflight.headers.set('Access-Control-Allow-Headers', req.headers.get('access-control-request-headers') || 'Content-Type');
+    return withCorsHeaders(preflight, origin!);
+  }
+
+  if (!isPublicPath(pathname) && isAccountsEnabled()) {
+    const user = await getCurrentUser(req);
+
+    if (!user) {
+      if (isApi) {
+        return accessDenied({ error: 'Sign-in required. Please sign in with your Google account.', code: 'unauthorized' }, 401);
+      }
+      return redirectToLogin(req);
+    }
+
+    const permission = getRequiredPermission(pathname, req.method);
+    if (isApi && !hasPermission(user.role, permission)) {
+      return accessDenied({ error: `Your role (${user.role}) does not have ${permission} access`, code: 'forbidden_role' }, 403);
+    }
+  } else if (!isPublicPath(pathname) && isPasswordProtected()) {
+    const loggedIn = await verifyAppSessionToken(req.cookies.get(APP_AUTH_COOKIE)?.value);
+
+    if (!loggedIn) {
+      if (isApi) {
+        return accessDenied({ error: 'Login required. Please sign in with the app password.', code: 'unauthorized' }, 401);
+      }
+      return redirectToLogin(req);
+    }
+  }
+
+  const response = NextResponse.next();
+  return sharesResponse ? withCorsHeaders(response, origin!) : response;
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)']
+};
@@ -2,6 +2,8 @@
 const nextConfig = {
   experimental: {
     appDir: true,
+    // Runs instrumentation.ts once at server start for the startup checks
+    instrumentationHook: true,
   },
 }
 
@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Freepik image API
+ * Accepts the same task submissions as Freepik, "processes" each image by returning it
+ * unchanged after a delay, and posts a signed webhook when a webhook_url was given.
+ *
+ *   FREEPIK_API_URL=http://localhost:4010 npm run dev
+ *   npm run freepik-stub
+ *
+ * Environment: STUB_PORT (4010), STUB_DELAY_MS (3000), STUB_FAIL=1 to fail every task,
+ * FREEPIK_WEBHOOK_SECRET (read from .env.local when not set) to sign webhooks.
+ * Tests start it in-process with createFreepikStub(options) and listen on any free port.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const ENDPOINT = '/v1/ai/gemini-2-5-flash-image-preview';
+
+function readEnvFile(name) {
+  try {
+    const text = fs.readFileSync(path.join(__dirname, '..', '.env.local'), 'utf8');
+    const line = text.split('\n').find(entry => entry.startsWith(`${name}=`));
+    return line ? line.slice(name.length + 1).trim().replace(/^["']|["']$/g, '') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function taskBody(task) {
+  return {
+    data: {
+      task_id: task.id,
+      status: task.status,
+      generated: task.status === 'COMPLETED' ? [`${task.baseUrl}/files/${task.id}`] : [],
+      error: task.status === 'FAILED' ? 'Stub configured to fail (STUB_FAIL=1)' : undefined
+    }
+  };
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function postWebhook(task, webhookSecret) {
+  if (!task.webhookUrl) return;
+  if (!webhookSecret) {
+    console.warn(`[stub] No FREEPIK_WEBHOOK_SECRET; not posting webhook for ${task.id}`);
+    return;
+  }
+
+  const body = JSON.stringify(taskBody(task));
+  const id = `msg_${crypto.randomUUID()}`;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = crypto.createHmac('sha256', webhookSecret).update(`${id}.${timestamp}.${body}`).digest('base64');
+
+  try {
+    const response = await fetch(task.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'webhook-id': id,
+        'webhook-timestamp': timestamp,
+        'webhook-signature': `v1,${signature}`
+      },
+      body
+    });
+    console.log(`[stub] Webhook for ${task.id} (${task.status}) -> ${response.status}`);
+  } catch (error) {
+    console.warn(`[stub] Webhook for ${task.id} failed: ${error.message}`);
+  }
+}
+
+function runTask(task, options) {
+  setTimeout(() => {
+    task.status = 'IN_PROGRESS';
+    void postWebhook(task, options.webhookSecret);
+
+    setTimeout(() => {
+      task.status = options.fail ? 'FAILED' : 'COMPLETED';
+      void postWebhook(task, options.webhookSecret);
+    }, options.delayMs);
+  }, Math.min(500, options.delayMs));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * The stub server, not yet listening
+ * options: delayMs (3000), fail (false), webhookSecret, quiet to skip the request log
+ */
+function createFreepikStub(options = {}) {
+  const settings = Object.assign({ delayMs: 3000, fail: false }, options);
+  const tasks = new Map();
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+    if (!settings.quiet) console.log(`[stub] ${req.method} ${url.pathname}`);
+
+    if (url.pathname.startsWith('/files/')) {
+      const task = tasks.get(url.pathname.slice('/files/'.length));
+      if (!task) return sendJson(res, 404, { message: 'Not found' });
+      res.writeHead(200, { 'Content-Type': task.mediaType });
+      return res.end(task.image);
+    }
+
+    if (!req.headers['x-freepik-api-key']) {
+      return sendJson(res, 401, { message: 'Missing x-freepik-api-key header' });
+    }
+
+    // Health probe
+    if (url.pathname === '/v1/resources') {
+      return sendJson(res, 200, { data: [] });
+    }
+
+    if (req.method === 'POST' && url.pathname === ENDPOINT) {
+      let input;
+      try {
+        input = JSON.parse(await readBody(req));
+      } catch {
+        return sendJson(res, 400, { message: 'Body is not JSON' });
+      }
+
+      const image = typeof input.image === 'string' && input.image.match(/^data:([^;,]+);base64,(.*)$/);
+      if (!image || !input.prompt) {
+        return sendJson(res, 400, { message: 'image (data URL) and prompt are required' });
+      }
+
+      const task = {
+        id: crypto.randomUUID(),
+        status: 'CREATED',
+        mediaType: image[1],
+        image: Buffer.from(image[2], 'base64'),
+        webhookUrl: input.webhook_url,
+        baseUrl: `http://${req.headers.host}`
+      };
+      tasks.set(task.id, task);
+      runTask(task, settings);
+      return sendJson(res, 200, taskBody(task));
+    }
+
+    if (req.method === 'GET' && url.pathname.startsWith(`${ENDPOINT}/`)) {
+      const task = tasks.get(decodeURIComponent(url.pathname.slice(ENDPOINT.length + 1)));
+      return task ? sendJson(res, 200, taskBody(task)) : sendJson(res, 404, { message: 'Task not found' });
+    }
+
+    return sendJson(res, 404, { message: 'Not found' });
+  });
+}
+
+if (require.main === module) {
+  const port = Number(process.env.STUB_PORT || 4010);
+  const options = {
+    delayMs: Number(process.env.STUB_DELAY_MS || 3000),
+    fail: process.env.STUB_FAIL === '1',
+    webhookSecret: process.env.FREEPIK_WEBHOOK_SECRET || readEnvFile('FREEPIK_WEBHOOK_SECRET')
+  };
+
+  createFreepikStub(options).listen(port, () => {
+    console.log(`Freepik stub listening on http://localhost:${port} (delay ${options.delayMs}ms${options.fail ? ', failing tasks' : ''})`);
+  });
+}
+
+module.exports = { createFreepikStub };
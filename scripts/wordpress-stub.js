@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the WordPress REST API
+ * Implements the routes lib/wordpress.ts and the health check use: media uploads and their
+ * follow-up updates, draft pages and posts, and /users/me. Everything is kept in memory and
+ * uploaded files are served back from /wp-content/uploads/.
+ *
+ *   WORDPRESS_URL=http://localhost:4020 npm run dev
+ *   npm run wordpress-stub
+ *
+ * Environment: STUB_PORT (4020). Requests need Basic auth; with WORDPRESS_USERNAME and
+ * WORDPRESS_APP_PASSWORD set (read from .env.local when not set) they must match.
+ * Tests start it in-process with createWordPressStub(options) and read results back over REST.
+ */
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const API = '/wp-json/wp/v2';
+
+function readEnvFile(name) {
+  try {
+    const text = fs.readFileSync(path.join(__dirname, '..', '.env.local'), 'utf8');
+    const line = text.split('\n').find(entry => entry.startsWith(`${name}=`));
+    return line ? line.slice(name.length + 1).trim().replace(/^["']|["']$/g, '') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Errors look like WordPress's own: { code, message, data: { status } }
+function sendError(res, status, code, message) {
+  sendJson(res, status, { code, message, data: { status } });
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function isAuthorized(header, username, appPassword) {
+  const match = typeof header === 'string' && header.match(/^Basic (.+)$/);
+  if (!match) return false;
+  if (!username || !appPassword) return true;
+
+  const credentials = Buffer.from(match[1], 'base64').toString('utf8');
+  return credentials === `${username}:${appPassword.replace(/\s+/g, '')}`;
+}
+
+function mediaBody(item) {
+  return {
+    id: item.id,
+    source_url: item.sourceUrl,
+    media_type: 'image',
+    mime_type: item.mimeType,
+    alt_text: item.altText,
+    caption: { raw: item.caption, rendered: item.caption ? `<p>${item.caption}</p>\n` : '' },
+    description: { raw: item.description, rendered: item.description ? `<p>${item.description}</p>\n` : '' }
+  };
+}
+
+function postBody(post) {
+  return {
+    id: post.id,
+    type: post.type === 'pages' ? 'page' : 'post',
+    status: post.status,
+    link: post.link,
+    title: { raw: post.title, rendered: post.title },
+    content: { raw: post.content, rendered: post.content },
+    featured_media: post.featuredMedia
+  };
+}
+
+/**
+ * The stub server, not yet listening
+ * options: username and appPassword to check credentials, quiet to skip the request log
+ */
+function createWordPressStub(options = {}) {
+  const state = { media: new Map(), posts: new Map() };
+  let nextId = 100;
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+    const baseUrl = `http://${req.headers.host}`;
+    if (!options.quiet) console.log(`[stub] ${req.method} ${url.pathname}`);
+
+    if (req.method === 'GET' && url.pathname.startsWith('/wp-content/uploads/')) {
+      const name = decodeURIComponent(url.pathname.slice('/wp-content/uploads/'.length));
+      const item = Array.from(state.media.values()).find(entry => entry.filename === name);
+      if (!item) return sendError(res, 404, 'rest_no_route', 'Not found');
+      res.writeHead(200, { 'Content-Type': item.mimeType });
+      return res.end(item.data);
+    }
+
+    if (!url.pathname.startsWith(API)) {
+      return sendError(res, 404, 'rest_no_route', 'No route was found matching the URL and request method.');
+    }
+    if (!isAuthorized(req.headers.authorization, options.username, options.appPassword)) {
+      return sendError(res, 401, 'rest_not_logged_in', 'You are not currently logged in.');
+    }
+
+    const route = url.pathname.slice(API.length);
+    const body = req.method === 'POST' ? await readBody(req) : Buffer.alloc(0);
+
+    if (req.method === 'GET' && route === '/users/me') {
+      return sendJson(res, 200, { id: 1, name: options.username || 'stub', slug: options.username || 'stub' });
+    }
+
+    if (req.method === 'POST' && route === '/media') {
+      const disposition = String(req.headers['content-disposition'] || '');
+      const filename = (disposition.match(/filename="?([^";]+)"?/) || [])[1];
+      if (!filename || body.length === 0) {
+        return sendError(res, 400, 'rest_upload_no_data', 'No data supplied.');
+      }
+
+      const item = {
+        id: nextId++,
+        filename,
+        mimeType: String(req.headers['content-type'] || 'application/octet-stream'),
+        data: body,
+        sourceUrl: `${baseUrl}/wp-content/uploads/${encodeURIComponent(filename)}`,
+        altText: '',
+        caption: '',
+        description: ''
+      };
+      state.media.set(item.id, item);
+      return sendJson(res, 201, mediaBody(item));
+    }
+
+    const mediaRoute = route.match(/^\/media\/(\d+)$/);
+    if (mediaRoute) {
+      const item = state.media.get(Number(mediaRoute[1]));
+      if (!item) return sendError(res, 404, 'rest_post_invalid_id', 'Invalid post ID.');
+      if (req.method === 'GET') return sendJson(res, 200, mediaBody(item));
+
+      let update;
+      try {
+        update = JSON.parse(body.toString('utf8') || '{}');
+      } catch {
+        return sendError(res, 400, 'rest_invalid_json', 'Invalid JSON body passed.');
+      }
+      if (typeof update.alt_text === 'string') item.altText = update.alt_text;
+      if (typeof update.caption === 'string') item.caption = update.caption;
+      if (typeof update.description === 'string') item.description = update.description;
+      return sendJson(res, 200, mediaBody(item));
+    }
+
+    const postRoute = route.match(/^\/(pages|posts)(?:\/(\d+))?$/);
+    if (postRoute) {
+      const type = postRoute[1];
+      if (postRoute[2]) {
+        const post = state.posts.get(Number(postRoute[2]));
+        return post && post.type === type && req.method === 'GET'
+          ? sendJson(res, 200, postBody(post))
+          : sendError(res, 404, 'rest_post_invalid_id', 'Invalid post ID.');
+      }
+      if (req.method !== 'POST') {
+        return sendJson(res, 200, Array.from(state.posts.values()).filter(post => post.type === type).map(postBody));
+      }
+
+      let input;
+      try {
+        input = JSON.parse(body.toString('utf8'));
+      } catch {
+        return sendError(res, 400, 'rest_invalid_json', 'Invalid JSON body passed.');
+      }
+      if (input.featured_media && !state.media.has(input.featured_media)) {
+        return sendError(res, 400, 'rest_invalid_featured_media', 'Invalid featured media ID.');
+      }
+
+      const id = nextId++;
+      const post = {
+        id,
+        type,
+        status: input.status || 'draft',
+        title: input.title || '',
+        content: input.content || '',
+        featuredMedia: input.featured_media || 0,
+        link: `${baseUrl}/?page_id=${id}`
+      };
+      state.posts.set(post.id, post);
+      return sendJson(res, 201, postBody(post));
+    }
+
+    return sendError(res, 404, 'rest_no_route', 'No route was found matching the URL and request method.');
+  });
+}
+
+if (require.main === module) {
+  const port = Number(process.env.STUB_PORT || 4020);
+  const username = process.env.WORDPRESS_USERNAME || readEnvFile('WORDPRESS_USERNAME');
+  const appPassword = process.env.WORDPRESS_APP_PASSWORD || readEnvFile('WORDPRESS_APP_PASSWORD');
+
+  createWordPressStub({ username, appPassword }).listen(port, () => {
+    console.log(`WordPress stub listening on http://localhost:${port}${username ? ` (user ${username})` : ''}`);
+  });
+}
+
+module.exports = { createWordPressStub };